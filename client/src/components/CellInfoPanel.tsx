@@ -6,12 +6,36 @@ const BIOME_EMOJIS: Record<string, string> = {
   ocean: '🌊', desert: '🏜️', forest: '🌲', grassland: '🌿',
   tundra: '❄️', wetland: '🌾', mountain: '⛰️', jungle: '🌴'
 }
+const LAND_USE_LABELS: Record<string, string> = {
+  farmland: 'Farmland', urban: 'Urban', degraded: 'Degraded'
+}
+
+// Stock as a share of capacity, for the resource bars
+function ResourceBar({ label, stock, capacity, color }: { label: string; stock?: number; capacity?: number; color: string }) {
+  if (stock === undefined || !capacity) return null
+  const percent = Math.max(0, Math.min(100, (stock / capacity) * 100))
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-gray-400">{label}</span>
+        <span className="text-white">{Math.round(stock)} / {capacity}</span>
+      </div>
+      <div className="w-full bg-space-700 rounded-full h-1.5 overflow-hidden">
+        <div className={`${color} h-full`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
 
 export function CellInfoPanel() {
   const { cells, populations, selectedCellId, toggleCellInfo } = useStore()
 
   const cell = cells.find(c => c.id === selectedCellId)
-  const population = populations.find(p => p.cell_id === selectedCellId)
+  // Every civilization living here, largest first
+  const cellPopulations = populations
+    .filter(p => p.cell_id === selectedCellId && Number(p.population_size) > 0)
+    .sort((a, b) => Number(b.population_size) - Number(a.population_size))
+  const cellTotal = cellPopulations.reduce((sum, p) => sum + Number(p.population_size), 0)
 
   // Debug logging
   console.log('CellInfoPanel render:', { 
@@ -26,10 +50,10 @@ export function CellInfoPanel() {
       latType: typeof cell.lat,
       lonType: typeof cell.lon
     } : 'NOT FOUND',
-    population: population ? { 
-      name: population.civilization_name, 
-      size: population.population_size 
-    } : 'NOT FOUND'
+    populations: cellPopulations.map(p => ({
+      name: p.civilization_name,
+      size: p.population_size
+    }))
   })
 
   return (
@@ -54,7 +78,12 @@ export function CellInfoPanel() {
           <div className="flex items-center gap-3">
             <span className="text-3xl">{BIOME_EMOJIS[cell.biome] || '🌍'}</span>
             <div>
-              <p className="font-medium text-white capitalize">{cell.biome || 'Unknown'}</p>
+              <p className="font-medium text-white capitalize">
+                {cell.biome || 'Unknown'}
+                {cell.land_use && LAND_USE_LABELS[cell.land_use] && (
+                  <span className="text-xs text-gray-400 ml-2">{LAND_USE_LABELS[cell.land_use]}</span>
+                )}
+              </p>
               <p className="text-xs text-gray-400">
                 ({cell.lat.toFixed(1)}°, {cell.lon.toFixed(1)}°)
               </p>
@@ -75,50 +104,64 @@ export function CellInfoPanel() {
             </div>
           </div>
 
+          {/* Resources */}
+          <div className="space-y-2">
+            <ResourceBar label="Food" stock={cell.food_stock} capacity={cell.food_capacity} color="bg-alien-green" />
+            <ResourceBar label="Fresh Water" stock={cell.water_stock} capacity={cell.water_capacity} color="bg-alien-blue" />
+            <ResourceBar label="Minerals" stock={cell.mineral_stock} capacity={cell.mineral_capacity} color="bg-gray-400" />
+            <ResourceBar label="Energy" stock={cell.energy_stock} capacity={cell.energy_capacity} color="bg-alien-yellow" />
+            <ResourceBar label="Infrastructure" stock={cell.infrastructure} capacity={100} color="bg-alien-purple" />
+          </div>
+
           {/* Population Info */}
-          {population ? (
-            <div className="space-y-3 pt-3 border-t border-space-600">
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-400">Civilization</span>
-                <span 
-                  className="text-sm font-medium px-2 py-1 rounded"
-                  style={{ backgroundColor: population.civilization_color + '30', color: population.civilization_color }}
-                >
-                  {population.civilization_name}
-                </span>
-              </div>
+          {cellPopulations.length > 0 ? (
+            cellPopulations.map(population => (
+              <div key={population.id} className="space-y-3 pt-3 border-t border-space-600">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-400">
+                    Civilization
+                    {cellPopulations.length > 1 && ` · ${Math.round(Number(population.population_size) / cellTotal * 100)}%`}
+                  </span>
+                  <span 
+                    className="text-sm font-medium px-2 py-1 rounded"
+                    style={{ backgroundColor: population.civilization_color + '30', color: population.civilization_color }}
+                  >
+                    {population.civilization_name}
+                  </span>
+                </div>
 
-              <div className="grid grid-cols-2 gap-2">
-                <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
-                  <Users className="w-4 h-4 text-alien-green" />
-                  <div>
-                    <p className="text-xs text-gray-400">Population</p>
-                    <p className="text-sm text-white">{population.population_size.toLocaleString()}</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
+                    <Users className="w-4 h-4 text-alien-green" />
+                    <div>
+                      <p className="text-xs text-gray-400">Population</p>
+                      <p className="text-sm text-white">{Number(population.population_size).toLocaleString()}</p>
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
-                  <Cpu className="w-4 h-4 text-alien-blue" />
-                  <div>
-                    <p className="text-xs text-gray-400">Tech Level</p>
-                    <p className="text-sm text-white">{TECH_LEVELS[population.tech_level]}</p>
+                  <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
+                    <Cpu className="w-4 h-4 text-alien-blue" />
+                    <div>
+                      <p className="text-xs text-gray-400">Tech Level</p>
+                      <p className="text-sm text-white">{TECH_LEVELS[population.tech_level]}</p>
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
-                  <TrendingUp className="w-4 h-4 text-alien-yellow" />
-                  <div>
-                    <p className="text-xs text-gray-400">Prosperity</p>
-                    <p className="text-sm text-white">{population.prosperity}%</p>
+                  <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
+                    <TrendingUp className="w-4 h-4 text-alien-yellow" />
+                    <div>
+                      <p className="text-xs text-gray-400">Prosperity</p>
+                      <p className="text-sm text-white">{population.prosperity}%</p>
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
-                  <Shield className="w-4 h-4 text-alien-purple" />
-                  <div>
-                    <p className="text-xs text-gray-400">Stability</p>
-                    <p className="text-sm text-white">{population.stability}%</p>
+                  <div className="flex items-center gap-2 p-2 bg-space-700/50 rounded-lg">
+                    <Shield className="w-4 h-4 text-alien-purple" />
+                    <div>
+                      <p className="text-xs text-gray-400">Stability</p>
+                      <p className="text-sm text-white">{population.stability}%</p>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
+            ))
           ) : (
             <div className="pt-3 border-t border-space-600 text-center">
               <p className="text-gray-500 text-sm">No population in this cell</p>
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import { useStore } from '../store/useStore'
+import { Vote, ThumbsUp, ThumbsDown, Skull, Sparkles, X } from 'lucide-react'
+
+const API_URL = import.meta.env.VITE_API_URL || ''
+
+const TECH_LEVELS = ['Stone', 'Bronze', 'Iron', 'Medieval', 'Renaissance', 'Industrial', 'Modern', 'Atomic', 'Digital', 'Singularity']
+const REASONS: Record<string, { title: string; icon: typeof Skull }> = {
+  extinction: { title: 'Extinction', icon: Skull },
+  ascension: { title: 'Everyone Ascended', icon: Sparkles },
+}
+const CIV_STATUS: Record<string, string> = { extinct: '💀', ascended: '✨', active: '🏛️' }
+
+interface ResetVote {
+  open: boolean
+  closes_year: number | null
+  in_favor: number
+  against: number
+  vote: boolean | null
+}
+
+// The reset vote while one is open on a stagnant world, and the post-mortem once the world has finished
+export function EndStatePanel() {
+  const { token, currentWorldId, worldStatus, postMortem } = useStore()
+  const [resetVote, setResetVote] = useState<ResetVote | null>(null)
+  const [dismissed, setDismissed] = useState(false)
+
+  const voting = worldStatus?.status === 'voting'
+
+  useEffect(() => {
+    setResetVote(null)
+    if (!voting || !currentWorldId) return
+    fetch(`${API_URL}/api/world/${currentWorldId}/reset-vote`, { headers: { 'Authorization': `Bearer ${token}` } })
+      .then(res => res.ok ? res.json() : null)
+      .then(setResetVote)
+      .catch(error => console.error('Failed to load reset vote:', error))
+  }, [token, currentWorldId, voting, worldStatus?.status_year])
+
+  useEffect(() => {
+    setDismissed(false)
+  }, [postMortem])
+
+  const castVote = async (inFavor: boolean) => {
+    try {
+      const res = await fetch(`${API_URL}/api/world/${currentWorldId}/reset-vote`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ in_favor: inFavor })
+      })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      const tally = await res.json()
+      setResetVote(current => current && { ...current, ...tally })
+    } catch (error) {
+      console.error('Failed to cast vote:', error)
+    }
+  }
+
+  if (voting && resetVote?.open) {
+    return (
+      <div className="absolute top-36 left-1/2 -translate-x-1/2 z-20 w-96 card">
+        <div className="flex items-center gap-2 mb-2">
+          <Vote className="w-5 h-5 text-alien-yellow" />
+          <h3 className="font-semibold text-white">Reset this world?</h3>
+        </div>
+        <p className="text-sm text-gray-400 mb-3">
+          Nothing much has changed for generations, and a shake-up didn't help. If the vote passes, a new world is generated in its place. The vote closes in year {resetVote.closes_year}.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => castVote(true)}
+            className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg transition-colors ${
+              resetVote.vote === true ? 'bg-alien-green/30 text-alien-green' : 'bg-space-700 text-gray-300 hover:text-white'
+            }`}
+          >
+            <ThumbsUp className="w-4 h-4" /> Reset ({resetVote.in_favor})
+          </button>
+          <button
+            onClick={() => castVote(false)}
+            className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg transition-colors ${
+              resetVote.vote === false ? 'bg-red-500/30 text-red-400' : 'bg-space-700 text-gray-300 hover:text-white'
+            }`}
+          >
+            <ThumbsDown className="w-4 h-4" /> Keep ({resetVote.against})
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (worldStatus?.status !== 'finished' || !postMortem || dismissed) return null
+
+  const reason = REASONS[postMortem.reason] ?? { title: postMortem.reason, icon: Skull }
+  const Icon = reason.icon
+  return (
+    <div className="absolute top-36 left-1/2 -translate-x-1/2 z-20 w-96 card max-h-[60vh] flex flex-col">
+      <div className="flex items-center justify-between mb-3 pb-2 border-b border-space-600">
+        <div className="flex items-center gap-2">
+          <Icon className="w-5 h-5 text-alien-purple" />
+          <h3 className="font-semibold text-white">Post-Mortem: {reason.title}</h3>
+        </div>
+        <button
+          onClick={() => setDismissed(true)}
+          className="p-1 rounded hover:bg-space-600 text-gray-400 hover:text-white"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+        <span className="text-gray-400">Ended in</span>
+        <span className="text-white">Year {postMortem.year}</span>
+        <span className="text-gray-400">Peak population</span>
+        <span className="text-white">{Number(postMortem.peak_population).toLocaleString()} (year {postMortem.peak_year})</span>
+        <span className="text-gray-400">Highest tech</span>
+        <span className="text-white">{TECH_LEVELS[postMortem.highest_tech_level] ?? postMortem.highest_tech_level}</span>
+        <span className="text-gray-400">Species left</span>
+        <span className="text-white">{postMortem.surviving_species}</span>
+        <span className="text-gray-400">Climate</span>
+        <span className="text-white">
+          {postMortem.temperature_anomaly > 0 ? '+' : ''}{postMortem.temperature_anomaly}°C, seas +{postMortem.sea_level}
+        </span>
+      </div>
+
+      <h4 className="text-xs uppercase text-gray-500 mb-1">Civilizations</h4>
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {postMortem.civilizations.map(civ => (
+          <div key={civ.id} className="flex justify-between text-sm">
+            <span className="text-white">{CIV_STATUS[civ.status] ?? ''} {civ.name}</span>
+            <span className="text-gray-400">{civ.founded_year}–{civ.end_year ?? postMortem.year}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
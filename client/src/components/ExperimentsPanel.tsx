@@ -24,10 +24,14 @@ const EXPERIMENTS: Record<string, { name: string; cost: number; desc: string }[]
   sociopolitical: [
     { name: 'ideology_nudge', cost: 10, desc: 'Shift ideology' },
     { name: 'prophetic_vision', cost: 25, desc: 'Send visions' },
+    { name: 'policy_insanity', cost: 40, desc: 'Force a disastrous policy' },
+    { name: 'sow_discord', cost: 20, desc: 'Turn neighbors against them' },
+    { name: 'broker_peace', cost: 20, desc: 'Make peace with neighbors' },
   ],
   catastrophic: [
     { name: 'meteor', cost: 100, desc: 'Meteor strike!' },
     { name: 'supervolcano', cost: 80, desc: 'Volcanic eruption' },
+    { name: 'climate_event', cost: 60, desc: 'Heat up the world' },
   ],
   playful: [
     { name: 'crop_circles', cost: 5, desc: 'Make crop circles' },
@@ -35,13 +39,24 @@ const EXPERIMENTS: Record<string, { name: string; cost: number; desc: string }[]
   ],
 }
 
+// What a released disease is like; the server keeps each trait within bounds
+const DISEASE_TRAITS = [
+  { key: 'transmissibility', label: 'Transmissibility', min: 0.01, max: 1, step: 0.01 },
+  { key: 'lethality', label: 'Lethality', min: 0, max: 0.9, step: 0.01 },
+  { key: 'duration', label: 'Duration (ticks)', min: 1, max: 60, step: 1 },
+  { key: 'immunity', label: 'Immunity (years)', min: 0, max: 100, step: 1 },
+] as const
+
+type DiseaseDesign = Record<(typeof DISEASE_TRAITS)[number]['key'], number>
+
 export function ExperimentsPanel() {
   const [selectedCategory, setSelectedCategory] = useState('biological')
-  const { user, selectedCellId, toggleExperiments } = useStore()
+  const [disease, setDisease] = useState<DiseaseDesign>({ transmissibility: 0.3, lethality: 0.1, duration: 10, immunity: 20 })
+  const { user, selectedCellId, currentWorldId, toggleExperiments } = useStore()
   const { submitExperiment } = useSocket()
 
   const handleExperiment = (type: string, cost: number) => {
-    if (!selectedCellId) {
+    if (!selectedCellId || !currentWorldId) {
       alert('Select a cell on the globe first!')
       return
     }
@@ -51,10 +66,12 @@ export function ExperimentsPanel() {
     }
     
     submitExperiment({
+      world_id: currentWorldId,
       category: selectedCategory,
       type,
       target_type: 'cell',
       target_id: selectedCellId,
+      parameters: type === 'pandemic' ? disease : undefined,
     })
   }
 
@@ -122,6 +139,30 @@ export function ExperimentsPanel() {
             <p className="text-xs text-gray-400">{exp.desc}</p>
           </button>
         ))}
+
+        {/* Disease design for the pandemic */}
+        {selectedCategory === 'biological' && (
+          <div className="p-3 bg-space-700/50 rounded-lg space-y-2">
+            <p className="text-xs text-gray-400">Pandemic disease</p>
+            {DISEASE_TRAITS.map(trait => (
+              <label key={trait.key} className="block text-xs text-gray-300">
+                <div className="flex justify-between">
+                  <span>{trait.label}</span>
+                  <span className="text-white">{disease[trait.key]}</span>
+                </div>
+                <input
+                  type="range"
+                  min={trait.min}
+                  max={trait.max}
+                  step={trait.step}
+                  value={disease[trait.key]}
+                  onChange={(e) => setDisease({ ...disease, [trait.key]: Number(e.target.value) })}
+                  className="w-full accent-lime-400"
+                />
+              </label>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Points Display */}
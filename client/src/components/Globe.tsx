@@ -1,6 +1,6 @@
 import { useState, useRef, useMemo, useEffect } from 'react'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
-import { OrbitControls, Stars } from '@react-three/drei'
+import { OrbitControls, Stars, QuadraticBezierLine } from '@react-three/drei'
 import * as THREE from 'three'
 import { useStore } from '../store/useStore'
 
@@ -18,6 +18,17 @@ const BIOME_COLORS: Record<string, string> = {
   river: '#4a90e2'
 }
 
+// Land people have changed shows as what they made of it; degraded land is desert already
+const LAND_USE_COLORS: Record<string, string> = {
+  farmland: '#c8b560',
+  urban: '#7a7a7a'
+}
+
+// The color a cell shows in the biome view
+function landColor(cell: { biome: string; land_use?: string }): string {
+  return (cell.land_use && LAND_USE_COLORS[cell.land_use]) || BIOME_COLORS[cell.biome] || '#444444'
+}
+
 const BIOME_ELEVATION: Record<string, number> = {
   ocean: -0.05,        // Below sea level
   river: -0.02,        // Slightly below
@@ -46,7 +57,7 @@ function latLonToVector3(lat: number, lon: number, radius: number, biome?: strin
 }
 
 function CellDots({ onReady }: { onReady?: () => void }) {
-  const { cells, populations, overlayMode, setSelectedCellId, selectedCellId, showCellInfo, toggleCellInfo } = useStore()
+  const { cells, populations, infectedCells, overlayMode, setSelectedCellId, selectedCellId, showCellInfo, toggleCellInfo } = useStore()
   const meshRef = useRef<THREE.InstancedMesh>(null)
   const readyCalledRef = useRef(false)
   const { camera, raycaster, pointer } = useThree()
@@ -63,7 +74,14 @@ function CellDots({ onReady }: { onReady?: () => void }) {
     const colors: THREE.Color[] = []
     const scales: number[] = []
 
-    const populationMap = new Map(populations.map(p => [p.cell_id, p]))
+    // The largest population stands for the cell when several civilizations share it
+    const populationMap = new Map<string, (typeof populations)[number]>()
+    const cellPeople = new Map<string, number>()
+    for (const p of populations) {
+      const current = populationMap.get(p.cell_id)
+      if (!current || Number(p.population_size) > Number(current.population_size)) populationMap.set(p.cell_id, p)
+      cellPeople.set(p.cell_id, (cellPeople.get(p.cell_id) ?? 0) + Number(p.population_size))
+    }
 
     cells.forEach(cell => {
       const pos = latLonToVector3(cell.lat, cell.lon, 2.02, cell.biome)
@@ -83,7 +101,7 @@ function CellDots({ onReady }: { onReady?: () => void }) {
               intensity * 0.5
             )
           } else {
-            color = new THREE.Color(BIOME_COLORS[cell.biome] || '#444444')
+            color = new THREE.Color(landColor(cell))
           }
           break
         case 'tech':
@@ -122,7 +140,14 @@ function CellDots({ onReady }: { onReady?: () => void }) {
           break
         case 'biome':
         default:
-          color = new THREE.Color(BIOME_COLORS[cell.biome] || '#444444')
+          color = new THREE.Color(landColor(cell))
+      }
+
+      // Sickly green where disease is going around, the more of the cell ill the stronger
+      const infected = infectedCells[cell.id]
+      if (infected) {
+        const share = Math.min(1, infected / Math.max(1, cellPeople.get(cell.id) ?? 0))
+        color = color.clone().lerp(new THREE.Color('#9acd32'), 0.4 + share * 0.6)
       }
 
       // Highlight selected cell
@@ -140,7 +165,7 @@ function CellDots({ onReady }: { onReady?: () => void }) {
     })
 
     return { positions, colors, scales }
-  }, [cells, populations, overlayMode, selectedCellId, zoomLevel])
+  }, [cells, populations, infectedCells, overlayMode, selectedCellId, zoomLevel])
 
   useFrame(() => {
     if (!meshRef.current) return
@@ -224,6 +249,55 @@ function CellDots({ onReady }: { onReady?: () => void }) {
   )
 }
 
+// Active trade routes as arcs between the cells at either end: in the civilization's color
+// within one, gold between two
+function TradeRoutes() {
+  const { cells, civilizations, tradeRoutes } = useStore()
+
+  const arcs = useMemo(() => {
+    const cellsById = new Map(cells.map(cell => [cell.id, cell]))
+    const colors = new Map(civilizations.map(civ => [civ.id, civ.color]))
+
+    return tradeRoutes.flatMap(route => {
+      const a = cellsById.get(route.cell_a)
+      const b = cellsById.get(route.cell_b)
+      if (!a || !b) return []
+
+      const start = latLonToVector3(a.lat, a.lon, 2.04, a.biome)
+      const end = latLonToVector3(b.lat, b.lon, 2.04, b.biome)
+      // Lifted off the surface more the farther the goods travel
+      const mid = start.clone().add(end).multiplyScalar(0.5)
+      mid.setLength(2.06 + start.distanceTo(end) * 0.3)
+
+      return [{
+        id: route.id,
+        start,
+        end,
+        mid,
+        color: route.civ_a === route.civ_b ? colors.get(route.civ_a) || '#ffffff' : '#ffd54f',
+        width: 1 + Math.min(3, route.volume / 500)
+      }]
+    })
+  }, [cells, civilizations, tradeRoutes])
+
+  return (
+    <>
+      {arcs.map(arc => (
+        <QuadraticBezierLine
+          key={arc.id}
+          start={arc.start}
+          end={arc.end}
+          mid={arc.mid}
+          color={arc.color}
+          lineWidth={arc.width}
+          transparent
+          opacity={0.8}
+        />
+      ))}
+    </>
+  )
+}
+
 function Planet() {
   const { cells } = useStore()
   const meshRef = useRef<THREE.Mesh>(null)
@@ -302,7 +376,7 @@ function Planet() {
         
         if (nearestCell && minDist < 12) {
           // Land - use biome color
-          const color = BIOME_COLORS[nearestCell.biome] || '#444444'
+          const color = landColor(nearestCell)
           const rgb = parseInt(color.slice(1), 16)
           imageData.data[idx] = (rgb >> 16) & 255
           imageData.data[idx + 1] = (rgb >> 8) & 255
@@ -452,6 +526,8 @@ function Atmosphere() {
 }
 
 export function Globe({ onReady }: { onReady?: () => void }) {
+  const { showTradeRoutes } = useStore()
+
   return (
     <div className="w-full h-full pointer-events-auto">
       <Canvas
@@ -475,6 +551,7 @@ export function Globe({ onReady }: { onReady?: () => void }) {
       <Planet />
       <Atmosphere />
       <CellDots onReady={onReady} />
+      {showTradeRoutes && <TradeRoutes />}
       
       <OrbitControls
         enablePan={false}
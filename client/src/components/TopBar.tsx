@@ -1,11 +1,43 @@
-import { useStore } from '../store/useStore'
-import { LogOut, Calendar, Zap, Award } from 'lucide-react'
+import { useStore, WorldEvent } from '../store/useStore'
+import { LogOut, Calendar, Zap, Award, Gauge, Globe2, Ship, Biohazard, SunDim, Radiation, Snowflake, AlertTriangle, Sparkles, Shuffle, Hourglass } from 'lucide-react'
 
 // @ts-ignore - importing JSON
 import packageJson from '../../package.json'
 
+const MODIFIER_ICONS: Record<string, typeof SunDim> = {
+  solar_minimum: SunDim,
+  cosmic_ray_spike: Radiation,
+  ice_age: Snowflake,
+  ascension: Sparkles,
+  shake_up: Shuffle,
+}
+
+// Statuses worth pointing out; a world running as usual needs no label
+const WORLD_STATUS_LABELS: Record<string, string> = {
+  ascended: 'Post-singularity',
+  stagnant: 'Stagnant, shaken up',
+  voting: 'Reset vote open',
+  finished: 'Finished',
+}
+
+const MODIFIER_LABELS: Record<string, string> = {
+  food_yield: 'harvests',
+  tech_leap: 'breakthroughs',
+  death_rate: 'deaths',
+}
+
+// e.g. "harvests -15%, deaths +30%"
+function describeModifiers(modifiers: WorldEvent['modifiers']): string {
+  return Object.entries(modifiers ?? {})
+    .map(([key, factor]) => {
+      const percent = Math.round(((factor ?? 1) - 1) * 100)
+      return `${MODIFIER_LABELS[key] ?? key} ${percent > 0 ? '+' : ''}${percent}%`
+    })
+    .join(', ')
+}
+
 export function TopBar() {
-  const { user, worldState, logout } = useStore()
+  const { user, worldState, simulationSpeed, worlds, currentWorldId, setCurrentWorldId, showTradeRoutes, toggleTradeRoutes, tradeRoutes, diseases, worldModifiers, worldStatus, logout } = useStore()
 
   if (!user) return null
 
@@ -24,10 +56,74 @@ export function TopBar() {
             </div>
           </div>
           
+          {/* World picker */}
+          {worlds.length > 1 && (
+            <div className="flex items-center gap-2 px-4 py-2 bg-space-800/80 backdrop-blur rounded-xl">
+              <Globe2 className="w-4 h-4 text-alien-green" />
+              <select
+                value={currentWorldId ?? ''}
+                onChange={(e) => setCurrentWorldId(e.target.value)}
+                className="bg-transparent text-white outline-none cursor-pointer"
+              >
+                {worlds.map(world => (
+                  <option key={world.id} value={world.id} className="bg-space-800">
+                    {world.name}{world.status !== 'running' ? ` (${world.status})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="flex items-center gap-2 px-4 py-2 bg-space-800/80 backdrop-blur rounded-xl">
             <Calendar className="w-4 h-4 text-alien-purple" />
             <span className="text-white">Day {(worldState.currentTick / 2).toFixed(1)}</span>
           </div>
+
+          {/* Trade route overlay */}
+          <button
+            onClick={toggleTradeRoutes}
+            className={`flex items-center gap-2 px-4 py-2 backdrop-blur rounded-xl transition-colors ${
+              showTradeRoutes ? 'bg-alien-green/20 text-alien-green' : 'bg-space-800/80 text-gray-400 hover:text-white'
+            }`}
+            title={showTradeRoutes ? 'Hide trade routes' : 'Show trade routes'}
+          >
+            <Ship className="w-4 h-4" />
+            <span>{tradeRoutes.length} routes</span>
+          </button>
+
+          {/* Shown only while a disease is going around */}
+          {diseases.length > 0 && (
+            <div
+              className="flex items-center gap-2 px-4 py-2 bg-space-800/80 backdrop-blur rounded-xl"
+              title={diseases.map(d => `${d.name}: ${Number(d.infected).toLocaleString()} ill, ${Number(d.deaths).toLocaleString()} dead`).join('\n')}
+            >
+              <Biohazard className="w-4 h-4 text-lime-400" />
+              <span className="text-white">
+                {diseases.reduce((sum, d) => sum + Number(d.infected), 0).toLocaleString()} infected
+              </span>
+            </div>
+          )}
+
+          {worldStatus && WORLD_STATUS_LABELS[worldStatus.status] && (
+            <div
+              className="flex items-center gap-2 px-4 py-2 bg-space-800/80 backdrop-blur rounded-xl"
+              title={`Since year ${worldStatus.status_year}`}
+            >
+              <Hourglass className="w-4 h-4 text-alien-purple" />
+              <span className="text-white">{WORLD_STATUS_LABELS[worldStatus.status]}</span>
+            </div>
+          )}
+
+          {/* Shown only while the server can't keep up */}
+          {simulationSpeed && simulationSpeed.speed < 1 && (
+            <div
+              className="flex items-center gap-2 px-4 py-2 bg-space-800/80 backdrop-blur rounded-xl"
+              title={`Ticks take ${simulationSpeed.avgTickMs}ms on average`}
+            >
+              <Gauge className="w-4 h-4 text-alien-yellow" />
+              <span className="text-white">Simulation running at {simulationSpeed.speed}x</span>
+            </div>
+          )}
         </div>
 
         {/* User Info */}
@@ -61,6 +157,28 @@ export function TopBar() {
           </div>
         </div>
       </div>
+
+      {/* World-wide modifiers: solar minimums, cosmic ray spikes, ice ages, ascensions, shake-ups */}
+      {worldModifiers.length > 0 && (
+        <div className="flex justify-center gap-2 mt-2">
+          {worldModifiers.map(event => {
+            const Icon = MODIFIER_ICONS[event.type] ?? AlertTriangle
+            return (
+              <div
+                key={event.id}
+                className="flex items-center gap-2 px-4 py-1.5 bg-alien-yellow/15 border border-alien-yellow/40 backdrop-blur rounded-xl text-sm"
+                title={event.description ?? undefined}
+              >
+                <Icon className="w-4 h-4 text-alien-yellow" />
+                <span className="text-white capitalize">{event.type.replace(/_/g, ' ')}</span>
+                {event.modifiers && (
+                  <span className="text-gray-300">{describeModifiers(event.modifiers)}</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
     </div>
   )
 }
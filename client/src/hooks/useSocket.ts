@@ -1,8 +1,63 @@
 import { useCallback, useRef } from 'react'
 import { io, Socket } from 'socket.io-client'
-import { useStore } from '../store/useStore'
+import { useStore, WorldDelta, TradeRoute, Disease, WorldEvent, PostMortem } from '../store/useStore'
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || window.location.origin
+const API_URL = import.meta.env.VITE_API_URL || ''
+
+// Reloads the watched world's populations, civilizations, trade routes, diseases and
+// world-wide modifiers from scratch
+async function refetchWorld(token: string) {
+  const { currentWorldId, setPopulations, setCivilizations, setTradeRoutes, setEpidemic, setWorldModifiers } = useStore.getState()
+  if (!currentWorldId) return
+
+  const headers = { 'Authorization': `Bearer ${token}` }
+  const [popsRes, civsRes, routesRes, diseasesRes, eventsRes] = await Promise.all([
+    fetch(`${API_URL}/api/world/${currentWorldId}/populations`, { headers }),
+    fetch(`${API_URL}/api/world/${currentWorldId}/civilizations`, { headers }),
+    fetch(`${API_URL}/api/world/${currentWorldId}/trade-routes`, { headers }),
+    fetch(`${API_URL}/api/world/${currentWorldId}/diseases`, { headers }),
+    fetch(`${API_URL}/api/world/${currentWorldId}/events`, { headers })
+  ])
+  if (!popsRes.ok || !civsRes.ok || !routesRes.ok || !diseasesRes.ok || !eventsRes.ok) throw new Error('Failed to reload world')
+  setPopulations(await popsRes.json())
+  setCivilizations(await civsRes.json())
+  setTradeRoutes(await routesRes.json())
+  const { diseases, cells } = await diseasesRes.json()
+  setEpidemic(diseases, cells)
+  setWorldModifiers(await eventsRes.json())
+}
+
+// Reloads the watched world's map, which only changes when the world is generated anew
+async function refetchCells(token: string) {
+  const { currentWorldId, setCells } = useStore.getState()
+  if (!currentWorldId) return
+
+  const res = await fetch(`${API_URL}/api/world/${currentWorldId}/cells`, { headers: { 'Authorization': `Bearer ${token}` } })
+  if (!res.ok) throw new Error('Failed to reload cells')
+  setCells(await res.json())
+}
+
+// Applies the deltas missed while disconnected, or reloads if the server no longer has them
+async function catchUp(token: string) {
+  const { currentWorldId, worldState, applyWorldDelta, setWorldState } = useStore.getState()
+  if (!currentWorldId) return
+
+  const res = await fetch(`${API_URL}/api/world/${currentWorldId}/changes?since=${worldState.currentTick}`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  })
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  const { tick, year, reset, deltas } = await res.json()
+
+  if (reset) {
+    await refetchWorld(token)
+  } else {
+    deltas.forEach((delta: WorldDelta) => applyWorldDelta(delta))
+  }
+  if (tick > useStore.getState().worldState.currentTick) {
+    setWorldState({ currentTick: tick, currentYear: year })
+  }
+}
 
 export function useSocket() {
   const socketRef = useRef<Socket | null>(null)
@@ -12,7 +67,19 @@ export function useSocket() {
     removeOnlinePlayer, 
     updatePlayerPosition,
     addChatMessage,
-    setWorldState 
+    setWorldState,
+    setSimulationSpeed,
+    applyWorldDelta,
+    addTradeRoute,
+    removeTradeRoute,
+    updateCells,
+    setEpidemic,
+    addDisease,
+    removeDisease,
+    addWorldModifier,
+    removeWorldModifier,
+    setWorldStatus,
+    setPostMortem
   } = useStore()
 
   const connect = useCallback((token: string) => {
@@ -23,8 +90,18 @@ export function useSocket() {
       transports: ['websocket', 'polling']
     })
 
+    let connectedBefore = false
     socket.on('connect', () => {
       console.log('🛸 Connected to server')
+      // Rooms don't survive a reconnect, so rejoin the world being watched
+      const { currentWorldId } = useStore.getState()
+      if (currentWorldId) socket.emit('joinWorld', currentWorldId)
+
+      // Deltas broadcast while we were away never arrived
+      if (connectedBefore) {
+        catchUp(token).catch(error => console.error('Failed to catch up:', error))
+      }
+      connectedBefore = true
     })
 
     socket.on('disconnect', () => {
@@ -58,6 +135,20 @@ export function useSocket() {
       setWorldState({ currentTick: tick, currentYear: year })
     })
 
+    socket.on('worldDelta', (delta: WorldDelta) => {
+      applyWorldDelta(delta)
+    })
+
+    // The engine reloaded the world (rollback or regeneration); local state may be ahead of it
+    socket.on('worldReloaded', ({ tick, year }) => {
+      setWorldState({ currentTick: tick, currentYear: year })
+      refetchWorld(token).catch(error => console.error('Failed to reload world:', error))
+    })
+
+    socket.on('simulationSpeed', (data) => {
+      setSimulationSpeed(data)
+    })
+
     socket.on('yearUpdate', ({ year, stats }) => {
       console.log(`📅 Year ${year}:`, stats)
     })
@@ -70,6 +161,63 @@ export function useSocket() {
       console.log('⚔️ Conflict:', data)
     })
 
+    socket.on('conquest', (data) => {
+      console.log('🏴 Conquest:', data)
+    })
+
+    socket.on('policyEnacted', ({ name, forced }) => {
+      console.log(`📜 Policy enacted: ${name}${forced ? ' (forced)' : ''}`)
+    })
+
+    socket.on('secession', ({ name, civil_war }) => {
+      console.log(`${civil_war ? '🔥' : '🏳️'} ${name} declared independence`)
+    })
+
+    socket.on('civilizationExtinct', ({ name, year }) => {
+      console.log(`💀 ${name} died out in year ${year}`)
+    })
+
+    socket.on('diplomacy', (data) => {
+      console.log('🤝 Diplomacy:', data)
+    })
+
+    socket.on('tradeRouteEstablished', (route: TradeRoute) => {
+      addTradeRoute(route)
+    })
+
+    socket.on('tradeRouteCut', ({ id, reason }) => {
+      removeTradeRoute(id)
+      console.log(`🚫 Trade route cut (${reason})`)
+    })
+
+    socket.on('climate', ({ year, temperature_anomaly, cells, flooded }) => {
+      if (cells.length > 0) updateCells(cells)
+      console.log(`🌡️ Year ${year}: ${temperature_anomaly}°C anomaly${flooded.length ? `, ${flooded.length} cells flooded` : ''}`)
+    })
+
+    socket.on('climateEvent', ({ shift }) => {
+      console.log(`🔥 Climate event: ${shift > 0 ? '+' : ''}${shift}°C`)
+    })
+
+    socket.on('landUse', ({ cells }) => {
+      updateCells(cells)
+      console.log(`🌾 Land use changed in ${cells.length} cells`)
+    })
+
+    socket.on('epidemic', ({ diseases, cells }) => {
+      setEpidemic(diseases, cells)
+    })
+
+    socket.on('diseaseEmerged', (disease: Disease & { cell_id: string; introduced_by: string | null }) => {
+      addDisease({ ...disease, infected: 0, cases: 0, deaths: 0 })
+      console.log(`🦠 The ${disease.name} broke out${disease.introduced_by ? ' (alien-made)' : ''}`)
+    })
+
+    socket.on('diseaseEnded', ({ id, name, cases, deaths }) => {
+      removeDisease(id)
+      console.log(`🩹 The ${name} is over: ${cases} cases, ${deaths} deaths`)
+    })
+
     socket.on('migration', (data) => {
       console.log('🚶 Migration:', data)
     })
@@ -79,11 +227,42 @@ export function useSocket() {
     })
 
     socket.on('newEvent', (data) => {
+      if (data.id) addWorldModifier(data as WorldEvent)
       console.log('📢 New event:', data)
     })
 
+    socket.on('eventEnded', ({ id, type, scope }) => {
+      removeWorldModifier(id)
+      if (scope === 'global') console.log(`📢 ${type.replace(/_/g, ' ')} is over`)
+    })
+
+    socket.on('civilizationAscended', ({ name, people, year }) => {
+      console.log(`✨ ${name} ascended in year ${year}, ${people} people leaving the world behind`)
+    })
+
+    socket.on('worldStatus', (status) => {
+      setWorldStatus(status)
+    })
+
+    socket.on('resetVoteClosed', ({ in_favor, against, passed }) => {
+      console.log(`🗳️ Reset vote ${passed ? 'passed' : 'failed'}: ${in_favor} for, ${against} against`)
+    })
+
+    // A passed reset vote put a newly generated world in place of the old one
+    socket.on('worldRestarted', ({ status, status_year }) => {
+      setWorldStatus({ status, status_year })
+      setPostMortem(null)
+      refetchCells(token).catch(error => console.error('Failed to reload cells:', error))
+      console.log('🔄 The world was reset by vote')
+    })
+
+    socket.on('worldFinished', (postMortem: PostMortem) => {
+      setPostMortem(postMortem)
+      console.log(`🏁 The world is finished (${postMortem.reason})`)
+    })
+
     socketRef.current = socket
-  }, [setOnlinePlayers, addOnlinePlayer, removeOnlinePlayer, updatePlayerPosition, addChatMessage, setWorldState])
+  }, [setOnlinePlayers, addOnlinePlayer, removeOnlinePlayer, updatePlayerPosition, addChatMessage, setWorldState, setSimulationSpeed, applyWorldDelta, addTradeRoute, removeTradeRoute, updateCells, setEpidemic, addDisease, removeDisease, addWorldModifier, removeWorldModifier, setWorldStatus, setPostMortem])
 
   const disconnect = useCallback(() => {
     if (socketRef.current) {
@@ -105,11 +284,16 @@ export function useSocket() {
     socketRef.current?.emit('updatePosition', { lat, lon })
   }, [])
 
+  const joinWorld = useCallback((worldId: string) => {
+    socketRef.current?.emit('joinWorld', worldId)
+  }, [])
+
   const selectCell = useCallback((cellId: string) => {
     socketRef.current?.emit('selectCell', cellId)
   }, [])
 
   const submitExperiment = useCallback((data: {
+    world_id: string
     category: string
     type: string
     target_type: string
@@ -124,6 +308,7 @@ export function useSocket() {
     disconnect,
     sendMessage,
     updatePosition,
+    joinWorld,
     selectCell,
     submitExperiment,
     socket: socketRef.current
@@ -8,6 +8,7 @@ import { CellInfoPanel } from '../components/CellInfoPanel'
 import { TopBar } from '../components/TopBar'
 import { OnlinePlayersOrbit } from '../components/OnlinePlayersOrbit'
 import { SpaceTravel } from '../components/SpaceTravel'
+import { EndStatePanel } from '../components/EndStatePanel'
 import { 
   MessageSquare, 
   FlaskConical, 
@@ -31,6 +32,16 @@ export function GamePage() {
     setCells,
     setPopulations,
     setCivilizations,
+    setTradeRoutes,
+    setEpidemic,
+    setWorldModifiers,
+    setWorldStatus,
+    setPostMortem,
+    setWorldState,
+    worlds,
+    setWorlds,
+    currentWorldId,
+    setCurrentWorldId,
     onlinePlayers
   } = useStore()
 
@@ -40,29 +51,72 @@ export function GamePage() {
   const [worldName, setWorldName] = useState('Unknown World')
   const [dataLoaded, setDataLoaded] = useState(false)
   const [globeReady, setGlobeReady] = useState(false)
-  const { connect, disconnect } = useSocket()
+  const { connect, disconnect, joinWorld } = useSocket()
 
+  // Find out which worlds exist, falling back to the first running one
   useEffect(() => {
+    async function loadWorlds() {
+      try {
+        const res = await fetch(`${API_URL}/api/world`, { headers: { 'Authorization': `Bearer ${token}` } })
+        if (!res.ok) throw new Error(`HTTP ${res.status}`)
+        const list = await res.json()
+        setWorlds(list)
+
+        const { currentWorldId } = useStore.getState()
+        if (!list.some((w: { id: string }) => w.id === currentWorldId)) {
+          const fallback = list.find((w: { status: string }) => w.status !== 'finished') ?? list[0]
+          if (fallback) {
+            setCurrentWorldId(fallback.id)
+          } else {
+            setLoadingProgress(100)
+            setDataLoaded(true)
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load worlds:', error)
+        setLoadingProgress(100)
+        setDataLoaded(true)
+      }
+    }
+
+    loadWorlds()
+  }, [token, setWorlds, setCurrentWorldId])
+
+  // Only whether the world is listed matters here; the list itself changes with every status update
+  const worldListed = worlds.some(w => w.id === currentWorldId)
+
+  useEffect(() => {
+    if (!currentWorldId || !worldListed) return
+
     async function loadWorldData() {
       try {
         const headers = { 'Authorization': `Bearer ${token}` }
+        const base = `${API_URL}/api/world/${currentWorldId}`
         
         // Get world info first
         setLoadingProgress(5)
-        const worldRes = await fetch(`${API_URL}/api/world/current`, { headers })
+        const worldRes = await fetch(base, { headers })
         if (worldRes.ok) {
           const world = await worldRes.json()
           setWorldName(world.name || 'Genesis')
+          setWorldState({ currentTick: world.current_tick, currentYear: world.current_year })
+          setWorldStatus({ status: world.status, status_year: world.status_year ?? 0 })
+          setPostMortem(world.post_mortem ?? null)
         }
         
         setLoadingProgress(10)
-        const cellsRes = await fetch(`${API_URL}/api/world/cells`, { headers })
+        const cellsRes = await fetch(`${base}/cells`, { headers })
         setLoadingProgress(40)
         
-        const popsRes = await fetch(`${API_URL}/api/world/populations`, { headers })
+        const popsRes = await fetch(`${base}/populations`, { headers })
         setLoadingProgress(70)
         
-        const civsRes = await fetch(`${API_URL}/api/world/civilizations`, { headers })
+        const civsRes = await fetch(`${base}/civilizations`, { headers })
+        setLoadingProgress(80)
+
+        const routesRes = await fetch(`${base}/trade-routes`, { headers })
+        const diseasesRes = await fetch(`${base}/diseases`, { headers })
+        const eventsRes = await fetch(`${base}/events`, { headers })
         setLoadingProgress(90)
 
         if (cellsRes.ok && popsRes.ok && civsRes.ok) {
@@ -73,6 +127,11 @@ export function GamePage() {
           setCells(cells)
           setPopulations(populations)
           setCivilizations(civilizations)
+          // The globe does fine without them
+          setTradeRoutes(routesRes.ok ? await routesRes.json() : [])
+          const { diseases, cells: infected } = diseasesRes.ok ? await diseasesRes.json() : { diseases: [], cells: [] }
+          setEpidemic(diseases, infected)
+          setWorldModifiers(eventsRes.ok ? await eventsRes.json() : [])
           setLoadingProgress(100)
           setDataLoaded(true)
         }
@@ -84,7 +143,7 @@ export function GamePage() {
     }
 
     loadWorldData()
-  }, [token, setCells, setPopulations, setCivilizations])
+  }, [token, currentWorldId, worldListed, setCells, setPopulations, setCivilizations, setTradeRoutes, setEpidemic, setWorldModifiers, setWorldStatus, setPostMortem, setWorldState])
 
   // Connect to socket for real-time updates
   useEffect(() => {
@@ -94,6 +153,11 @@ export function GamePage() {
     }
   }, [token, connect, disconnect])
 
+  // Only the watched world's broadcasts reach this client
+  useEffect(() => {
+    if (currentWorldId) joinWorld(currentWorldId)
+  }, [currentWorldId, joinWorld])
+
   // Show space travel animation during loading
   if (showSpaceTravel) {
     return (
@@ -151,6 +215,9 @@ export function GamePage() {
         <Globe onReady={() => setGlobeReady(true)} />
       </div>
 
+      {/* Reset vote on a stagnant world, or the post-mortem of a finished one */}
+      <EndStatePanel />
+
       {/* Orbiting Players Visualization */}
       <OnlinePlayersOrbit />
 
@@ -21,11 +21,20 @@ interface Cell {
   lat: number
   lon: number
   biome: string
+  // 'wild', 'farmland', 'urban' or 'degraded'
+  land_use?: string
   elevation: number
   temperature: number
   moisture: number
   food_capacity: number
   mineral_capacity: number
+  water_capacity?: number
+  energy_capacity?: number
+  food_stock?: number
+  water_stock?: number
+  mineral_stock?: number
+  energy_stock?: number
+  infrastructure?: number
 }
 
 interface Population {
@@ -47,9 +56,88 @@ interface Civilization {
   id: string
   name: string
   color: string
+  status?: string
+  founded_year?: number
+  end_year?: number | null
+  lifespan?: number
+  parent_id?: string | null
+  parent_name?: string | null
   total_population: number
   num_cells: number
   avg_tech_level: number
+  avg_prosperity?: number
+}
+
+// An active trade route between two populations, drawn between their cells
+export interface TradeRoute {
+  id: string
+  pop_a: string
+  pop_b: string
+  cell_a: string
+  cell_b: string
+  civ_a: string
+  civ_b: string
+  established_year: number
+  // People fed by the food it carried last year
+  volume: number
+}
+
+// A disease going around, with its running totals
+export interface Disease {
+  id: string
+  name: string
+  transmissibility?: number
+  lethality?: number
+  duration?: number
+  immunity?: number
+  // People ill with it right now
+  infected: number
+  cases: number
+  deaths: number
+}
+
+// An active event from GET /events or the newEvent broadcast; the world-wide ones
+// (scope 'global') change the rules for everyone
+export interface WorldEvent {
+  id: string
+  type: string
+  scope: string
+  description: string | null
+  // Multipliers on food yield, breakthrough odds and the death rate while it lasts
+  modifiers: { food_yield?: number; tech_leap?: number; death_rate?: number } | null
+  end_tick: number | null
+}
+
+// Where the world stands: 'running', 'ascended' (a civilization has left it), 'stagnant'
+// (shaken up), 'voting' (a reset vote is open) or 'finished'; status_year is when it got there
+export interface WorldStatus {
+  status: string
+  status_year: number
+}
+
+// What became of a finished world, from GET /:worldId or the worldFinished broadcast
+export interface PostMortem {
+  // 'extinction' or 'ascension'
+  reason: string
+  year: number
+  peak_population: number
+  peak_year: number
+  final_population: number
+  highest_tech_level: number
+  civilizations: { id: string; name: string; founded_year: number; end_year: number | null; status: string }[]
+  surviving_species: number
+  temperature_anomaly: number
+  sea_level: number
+}
+
+// Per-tick changes broadcast by the engine (worldDelta) and returned by GET /changes
+export interface WorldDelta {
+  tick: number
+  year: number
+  changed: (Partial<Population> & { id: string })[]
+  added: Population[]
+  extinct: string[]
+  civilizations: (Partial<Civilization> & { id: string })[]
 }
 
 interface OnlinePlayer {
@@ -68,11 +156,28 @@ interface ChatMessage {
   created_at: string
 }
 
+interface WorldSummary {
+  id: string
+  name: string
+  status: string
+  current_tick: number
+  current_year: number
+  total_population: number
+  num_civilizations: number
+}
+
 interface WorldState {
   currentYear: number
   currentTick: number
 }
 
+interface SimulationSpeed {
+  speed: number
+  lagMs: number
+  avgTickMs: number
+  policy: string
+}
+
 interface GameStore {
   // Auth
   token: string | null
@@ -80,15 +185,46 @@ interface GameStore {
   setAuth: (token: string, user: User) => void
   logout: () => void
   
+  // Worlds
+  worlds: WorldSummary[]
+  currentWorldId: string | null
+  setWorlds: (worlds: WorldSummary[]) => void
+  setCurrentWorldId: (id: string) => void
+
   // World data
   cells: Cell[]
   populations: Population[]
   civilizations: Civilization[]
+  tradeRoutes: TradeRoute[]
+  diseases: Disease[]
+  // People infected with anything, by cell
+  infectedCells: Record<string, number>
+  worldModifiers: WorldEvent[]
+  worldStatus: WorldStatus | null
+  postMortem: PostMortem | null
   worldState: WorldState
   setCells: (cells: Cell[]) => void
+  // Biome and land-use changes from the server
+  updateCells: (changes: ({ id: string } & Partial<Cell>)[]) => void
   setPopulations: (populations: Population[]) => void
   setCivilizations: (civilizations: Civilization[]) => void
+  setTradeRoutes: (tradeRoutes: TradeRoute[]) => void
+  addTradeRoute: (route: TradeRoute) => void
+  removeTradeRoute: (id: string) => void
+  // Active diseases and the infected per cell, as in the engine's epidemic broadcast; without cells the map stays as it is
+  setEpidemic: (diseases: (Partial<Disease> & { id: string })[], cells?: { cell_id: string; infected: number }[]) => void
+  addDisease: (disease: Disease) => void
+  removeDisease: (id: string) => void
+  setWorldModifiers: (events: WorldEvent[]) => void
+  addWorldModifier: (event: WorldEvent) => void
+  removeWorldModifier: (id: string) => void
+  // Also updates the world's entry in the picker
+  setWorldStatus: (status: WorldStatus) => void
+  setPostMortem: (postMortem: PostMortem | null) => void
   setWorldState: (state: WorldState) => void
+  applyWorldDelta: (delta: WorldDelta) => void
+  simulationSpeed: SimulationSpeed | null
+  setSimulationSpeed: (speed: SimulationSpeed) => void
   
   // Selection
   selectedCellId: string | null
@@ -110,9 +246,11 @@ interface GameStore {
   showChat: boolean
   showExperiments: boolean
   showCellInfo: boolean
+  showTradeRoutes: boolean
   toggleChat: () => void
   toggleExperiments: () => void
   toggleCellInfo: () => void
+  toggleTradeRoutes: () => void
   
   // Overlay mode
   overlayMode: 'population' | 'tech' | 'prosperity' | 'stability' | 'biome'
@@ -128,15 +266,105 @@ export const useStore = create<GameStore>()(
       setAuth: (token, user) => set({ token, user }),
       logout: () => set({ token: null, user: null }),
       
+      // Worlds
+      worlds: [],
+      currentWorldId: null,
+      setWorlds: (worlds) => set({ worlds }),
+      // Switching worlds drops everything that belonged to the previous one
+      setCurrentWorldId: (currentWorldId) => set((state) => state.currentWorldId === currentWorldId ? {} : {
+        currentWorldId,
+        selectedCellId: null,
+        simulationSpeed: null,
+        worldStatus: null,
+        postMortem: null,
+        worldState: { currentYear: 0, currentTick: 0 }
+      }),
+
       // World data
       cells: [],
       populations: [],
       civilizations: [],
+      tradeRoutes: [],
+      diseases: [],
+      infectedCells: {},
+      worldModifiers: [],
+      worldStatus: null,
+      postMortem: null,
       worldState: { currentYear: 0, currentTick: 0 },
       setCells: (cells) => set({ cells }),
+      updateCells: (changes) => set((state) => {
+        const byId = new Map(changes.map(c => [c.id, c]))
+        return { cells: state.cells.map(cell => byId.has(cell.id) ? { ...cell, ...byId.get(cell.id) } : cell) }
+      }),
       setPopulations: (populations) => set({ populations }),
       setCivilizations: (civilizations) => set({ civilizations }),
+      setTradeRoutes: (tradeRoutes) => set({ tradeRoutes }),
+      addTradeRoute: (route) => set((state) => ({
+        tradeRoutes: [...state.tradeRoutes.filter(r => r.id !== route.id), route]
+      })),
+      removeTradeRoute: (id) => set((state) => ({
+        tradeRoutes: state.tradeRoutes.filter(r => r.id !== id)
+      })),
+      // Keeps what is known of each disease's traits; diseases no longer listed are over
+      setEpidemic: (diseases, cells) => set((state) => {
+        const known = new Map(state.diseases.map(d => [d.id, d]))
+        return {
+          diseases: diseases.map(d => ({ infected: 0, cases: 0, deaths: 0, name: '', ...known.get(d.id), ...d })),
+          infectedCells: cells ? Object.fromEntries(cells.map(c => [c.cell_id, c.infected])) : state.infectedCells
+        }
+      }),
+      addDisease: (disease) => set((state) => ({
+        diseases: [...state.diseases.filter(d => d.id !== disease.id), disease]
+      })),
+      removeDisease: (id) => set((state) => ({
+        diseases: state.diseases.filter(d => d.id !== id)
+      })),
+      setWorldModifiers: (events) => set({ worldModifiers: events.filter(e => e.scope === 'global') }),
+      addWorldModifier: (event) => set((state) => event.scope !== 'global' ? {} : {
+        worldModifiers: [...state.worldModifiers.filter(e => e.id !== event.id), event]
+      }),
+      removeWorldModifier: (id) => set((state) => ({
+        worldModifiers: state.worldModifiers.filter(e => e.id !== id)
+      })),
+      setWorldStatus: (worldStatus) => set((state) => ({
+        worldStatus,
+        worlds: state.worlds.some(w => w.id === state.currentWorldId && w.status !== worldStatus.status)
+          ? state.worlds.map(w => w.id === state.currentWorldId ? { ...w, status: worldStatus.status } : w)
+          : state.worlds
+      })),
+      setPostMortem: (postMortem) => set({ postMortem }),
       setWorldState: (worldState) => set({ worldState }),
+      applyWorldDelta: (delta) => set((state) => {
+        const civChanges = new Map(delta.civilizations.map(c => [c.id, c]))
+        const civilizations = state.civilizations.map(c => {
+          const change = civChanges.get(c.id)
+          civChanges.delete(c.id)
+          return change ? { ...c, ...change } : c
+        })
+        // Whatever is left is a civilization this client hasn't seen yet
+        for (const change of civChanges.values()) {
+          civilizations.push({ name: '', color: '#888888', total_population: 0, num_cells: 0, avg_tech_level: 0, ...change })
+        }
+        const civsById = new Map(civilizations.map(c => [c.id, c]))
+
+        const gone = new Set([...delta.extinct, ...delta.added.map(p => p.id)])
+        const changes = new Map(delta.changed.map(p => [p.id, p]))
+        const populations = state.populations
+          .filter(p => !gone.has(p.id))
+          .map(p => {
+            const change = changes.get(p.id)
+            if (!change) return p
+            const civ = change.civilization_id ? civsById.get(change.civilization_id) : undefined
+            return civ
+              ? { ...p, ...change, civilization_name: civ.name, civilization_color: civ.color }
+              : { ...p, ...change }
+          })
+          .concat(delta.added)
+
+        return { populations, civilizations }
+      }),
+      simulationSpeed: null,
+      setSimulationSpeed: (simulationSpeed) => set({ simulationSpeed }),
       
       // Selection
       selectedCellId: null,
@@ -168,9 +396,11 @@ export const useStore = create<GameStore>()(
       showChat: true,
       showExperiments: false,
       showCellInfo: false,
+      showTradeRoutes: false,
       toggleChat: () => set((state) => ({ showChat: !state.showChat })),
       toggleExperiments: () => set((state) => ({ showExperiments: !state.showExperiments })),
       toggleCellInfo: () => set((state) => ({ showCellInfo: !state.showCellInfo })),
+      toggleTradeRoutes: () => set((state) => ({ showTradeRoutes: !state.showTradeRoutes })),
       
       // Overlay mode
       overlayMode: 'population',
@@ -178,7 +408,7 @@ export const useStore = create<GameStore>()(
     }),
     {
       name: 'aliens-in-space-storage',
-      partialize: (state) => ({ token: state.token, user: state.user }),
+      partialize: (state) => ({ token: state.token, user: state.user, currentWorldId: state.currentWorldId }),
     }
   )
 )
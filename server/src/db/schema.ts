@@ -0,0 +1,285 @@
+// Database schema, shared by the migrate script and the admin /migrate route.
+// Statements are idempotent so the whole block can be re-run on every deploy.
+export const SCHEMA_SQL = `
+-- Players table
+CREATE TABLE IF NOT EXISTS players (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username VARCHAR(50) UNIQUE NOT NULL,
+  email VARCHAR(255) UNIQUE NOT NULL,
+  password_hash VARCHAR(255) NOT NULL,
+  avatar_type VARCHAR(50) DEFAULT 'classic_grey',
+  benevolence INTEGER DEFAULT 0,
+  mischief INTEGER DEFAULT 0,
+  curiosity INTEGER DEFAULT 0,
+  experiment_points INTEGER DEFAULT 1000,
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_seen TIMESTAMP DEFAULT NOW()
+);
+
+-- Worlds table
+CREATE TABLE IF NOT EXISTS worlds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  seed INTEGER NOT NULL,
+  current_tick BIGINT DEFAULT 0,
+  current_year INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'running',
+  status_year INTEGER DEFAULT 0,
+  rng_state BIGINT,
+  tick_interval_ms INTEGER,
+  base_temperature DECIMAL(5,2),
+  temperature_anomaly DECIMAL(5,2) DEFAULT 0,
+  sea_level DECIMAL(5,2) DEFAULT 0,
+  post_mortem JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Cells table (the grid)
+CREATE TABLE IF NOT EXISTS cells (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  lat DECIMAL(9,6),
+  lon DECIMAL(9,6),
+  biome VARCHAR(50) NOT NULL,
+  natural_biome VARCHAR(50),
+  land_use VARCHAR(20) DEFAULT 'wild',
+  elevation INTEGER DEFAULT 0,
+  temperature INTEGER DEFAULT 15,
+  moisture INTEGER DEFAULT 50,
+  food_capacity INTEGER DEFAULT 100,
+  water_capacity INTEGER DEFAULT 100,
+  mineral_capacity INTEGER DEFAULT 50,
+  energy_capacity INTEGER DEFAULT 50,
+  -- Current stocks; NULL means untouched, i.e. at capacity
+  food_stock DECIMAL(10,2),
+  water_stock DECIMAL(10,2),
+  mineral_stock DECIMAL(10,2),
+  energy_stock DECIMAL(10,2),
+  infrastructure DECIMAL(6,2) DEFAULT 0,
+  UNIQUE(world_id, x, y)
+);
+
+-- Populations table
+CREATE TABLE IF NOT EXISTS populations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cell_id UUID REFERENCES cells(id) ON DELETE CASCADE,
+  civilization_id UUID,
+  population_size BIGINT DEFAULT 0,
+  tech_level INTEGER DEFAULT 0,
+  stability INTEGER DEFAULT 50,
+  prosperity INTEGER DEFAULT 50,
+  education INTEGER DEFAULT 0,
+  birth_rate DECIMAL(5,4) DEFAULT 0.02,
+  death_rate DECIMAL(5,4) DEFAULT 0.015,
+  ideology_collectivism INTEGER DEFAULT 50,
+  ideology_tradition INTEGER DEFAULT 50,
+  ideology_authoritarianism INTEGER DEFAULT 50,
+  ideology_xenophobia INTEGER DEFAULT 50,
+  war_tendency INTEGER DEFAULT 30,
+  resource_efficiency DECIMAL(5,4) DEFAULT 1.0,
+  environmental_impact DECIMAL(5,4) DEFAULT 1.0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Civilizations table
+CREATE TABLE IF NOT EXISTS civilizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  color VARCHAR(7) DEFAULT '#888888',
+  capital_cell_id UUID,
+  founded_year INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'active',
+  end_year INTEGER,
+  parent_id UUID REFERENCES civilizations(id) ON DELETE SET NULL
+);
+
+-- Diplomatic relations, one row per pair of civilizations (civ_a < civ_b)
+CREATE TABLE IF NOT EXISTS civilization_relations (
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  civ_a UUID REFERENCES civilizations(id) ON DELETE CASCADE,
+  civ_b UUID REFERENCES civilizations(id) ON DELETE CASCADE,
+  opinion INTEGER DEFAULT 0,
+  treaties JSONB DEFAULT '[]',
+  at_war BOOLEAN DEFAULT false,
+  war_started_year INTEGER,
+  wars_fought INTEGER DEFAULT 0,
+  PRIMARY KEY (civ_a, civ_b)
+);
+
+-- Trade routes between populations
+CREATE TABLE IF NOT EXISTS trade_routes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  pop_a UUID REFERENCES populations(id) ON DELETE CASCADE,
+  pop_b UUID REFERENCES populations(id) ON DELETE CASCADE,
+  established_year INTEGER DEFAULT 0,
+  volume INTEGER DEFAULT 0
+);
+
+-- Species table
+CREATE TABLE IF NOT EXISTS species (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  trophic_level VARCHAR(20) NOT NULL,
+  reproduction_rate DECIMAL(5,4) DEFAULT 0.1,
+  lifespan INTEGER DEFAULT 10,
+  habitat_preferences JSONB DEFAULT '[]',
+  is_native BOOLEAN DEFAULT true,
+  introduced_by UUID REFERENCES players(id),
+  introduced_year INTEGER
+);
+
+-- Cell species (what species exist in each cell)
+CREATE TABLE IF NOT EXISTS cell_species (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cell_id UUID REFERENCES cells(id) ON DELETE CASCADE,
+  species_id UUID REFERENCES species(id) ON DELETE CASCADE,
+  population_density INTEGER DEFAULT 100,
+  UNIQUE(cell_id, species_id)
+);
+
+-- Diseases, natural or alien-made
+CREATE TABLE IF NOT EXISTS diseases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  transmissibility DECIMAL(5,4) NOT NULL,
+  lethality DECIMAL(5,4) NOT NULL,
+  duration INTEGER NOT NULL,
+  immunity INTEGER NOT NULL,
+  origin_cell_id UUID REFERENCES cells(id) ON DELETE SET NULL,
+  introduced_by UUID REFERENCES players(id),
+  emerged_year INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'active',
+  end_year INTEGER,
+  cases BIGINT DEFAULT 0,
+  deaths BIGINT DEFAULT 0
+);
+
+-- Infected and recovered people per population and disease (SIR); the rest are susceptible
+CREATE TABLE IF NOT EXISTS population_infections (
+  population_id UUID REFERENCES populations(id) ON DELETE CASCADE,
+  disease_id UUID REFERENCES diseases(id) ON DELETE CASCADE,
+  infected BIGINT DEFAULT 0,
+  recovered BIGINT DEFAULT 0,
+  PRIMARY KEY (population_id, disease_id)
+);
+
+-- Events table
+CREATE TABLE IF NOT EXISTS events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  scope VARCHAR(20) NOT NULL,
+  target_cell_id UUID REFERENCES cells(id),
+  target_civ_id UUID REFERENCES civilizations(id),
+  data JSONB DEFAULT '{}',
+  start_tick BIGINT NOT NULL,
+  end_tick BIGINT,
+  is_active BOOLEAN DEFAULT true
+);
+
+-- Experiments table
+CREATE TABLE IF NOT EXISTS experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  category VARCHAR(50) NOT NULL,
+  target_type VARCHAR(20) NOT NULL,
+  target_id UUID,
+  parameters JSONB DEFAULT '{}',
+  cost INTEGER DEFAULT 10,
+  status VARCHAR(20) DEFAULT 'pending',
+  result JSONB,
+  created_at TIMESTAMP DEFAULT NOW(),
+  resolved_at TIMESTAMP
+);
+
+-- Chat messages
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  channel VARCHAR(50) NOT NULL,
+  channel_id UUID,
+  message TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- World snapshots for history
+CREATE TABLE IF NOT EXISTS world_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  tick BIGINT NOT NULL,
+  year INTEGER NOT NULL,
+  total_population BIGINT,
+  num_civilizations INTEGER,
+  avg_tech_level DECIMAL(5,2),
+  snapshot_data JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Broadcasts too large for a NOTIFY payload, relayed from the simulation worker
+CREATE TABLE IF NOT EXISTS simulation_broadcasts (
+  id BIGSERIAL PRIMARY KEY,
+  world_id UUID NOT NULL,
+  event VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Per-tick population diffs, kept for a while so reconnecting clients can catch up
+CREATE TABLE IF NOT EXISTS world_deltas (
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  tick BIGINT NOT NULL,
+  payload JSONB NOT NULL,
+  PRIMARY KEY (world_id, tick)
+);
+
+-- Players' votes on resetting a stagnant world, one per player while the vote is open
+CREATE TABLE IF NOT EXISTS reset_votes (
+  world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  in_favor BOOLEAN NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (world_id, player_id)
+);
+
+-- Indices for performance
+CREATE INDEX IF NOT EXISTS idx_cells_world ON cells(world_id);
+CREATE INDEX IF NOT EXISTS idx_populations_cell ON populations(cell_id);
+CREATE INDEX IF NOT EXISTS idx_populations_civ ON populations(civilization_id);
+CREATE INDEX IF NOT EXISTS idx_experiments_player ON experiments(player_id);
+CREATE INDEX IF NOT EXISTS idx_experiments_status ON experiments(status);
+CREATE INDEX IF NOT EXISTS idx_chat_channel ON chat_messages(channel, channel_id);
+CREATE INDEX IF NOT EXISTS idx_events_world_active ON events(world_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_relations_world ON civilization_relations(world_id);
+CREATE INDEX IF NOT EXISTS idx_trade_routes_world ON trade_routes(world_id);
+CREATE INDEX IF NOT EXISTS idx_diseases_world ON diseases(world_id, status);
+
+-- Upgrades for databases created before a column existed
+ALTER TABLE worlds ADD COLUMN IF NOT EXISTS rng_state BIGINT;
+ALTER TABLE worlds ADD COLUMN IF NOT EXISTS tick_interval_ms INTEGER;
+ALTER TABLE worlds ADD COLUMN IF NOT EXISTS base_temperature DECIMAL(5,2);
+ALTER TABLE worlds ADD COLUMN IF NOT EXISTS temperature_anomaly DECIMAL(5,2) DEFAULT 0;
+ALTER TABLE worlds ADD COLUMN IF NOT EXISTS sea_level DECIMAL(5,2) DEFAULT 0;
+ALTER TABLE worlds ADD COLUMN IF NOT EXISTS status_year INTEGER DEFAULT 0;
+ALTER TABLE worlds ADD COLUMN IF NOT EXISTS post_mortem JSONB;
+ALTER TABLE simulation_broadcasts ADD COLUMN IF NOT EXISTS world_id UUID;
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS water_capacity INTEGER DEFAULT 100;
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS energy_capacity INTEGER DEFAULT 50;
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS food_stock DECIMAL(10,2);
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS water_stock DECIMAL(10,2);
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS mineral_stock DECIMAL(10,2);
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS energy_stock DECIMAL(10,2);
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS infrastructure DECIMAL(6,2) DEFAULT 0;
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS natural_biome VARCHAR(50);
+ALTER TABLE cells ADD COLUMN IF NOT EXISTS land_use VARCHAR(20) DEFAULT 'wild';
+ALTER TABLE civilizations ADD COLUMN IF NOT EXISTS end_year INTEGER;
+ALTER TABLE civilizations ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES civilizations(id) ON DELETE SET NULL;
+`;
@@ -11,11 +11,18 @@ import { chatRouter } from './routes/chat.js';
 import { adminRouter } from './routes/admin.js';
 import path from 'path';
 import { setupSocketHandlers } from './sockets/index.js';
-import { SimulationEngine } from './simulation/engine.js';
+import { SimulationManager } from './simulation/manager.js';
+import { NotifyBroadcaster, SimulationRelay, requestReload, onReloadRequest } from './simulation/relay.js';
+import { acquireLeadership } from './simulation/leader.js';
 import { authenticateToken } from './middleware/auth.js';
 
 dotenv.config();
 
+// SIMULATION_ONLY=true: run just the engine (the render worker), no HTTP or sockets.
+// RUN_SIMULATION=false: serve HTTP and sockets only, leaving the engine to the worker.
+const SIMULATION_ONLY = process.env.SIMULATION_ONLY === 'true';
+const RUN_SIMULATION = SIMULATION_ONLY || process.env.RUN_SIMULATION !== 'false';
+
 const app = express();
 const httpServer = createServer(app);
 const io = new SocketServer(httpServer, {
@@ -77,8 +84,29 @@ if (process.env.NODE_ENV === 'production') {
 // Socket.io setup
 setupSocketHandlers(io);
 
-// Initialize simulation engine
-const simulation = new SimulationEngine(io);
+// Initialize simulation engines, one per running world. They publish through Postgres even
+// when running in this process, so every web instance relays broadcasts the same way.
+const simulation = new SimulationManager(worldId => new NotifyBroadcaster(db, worldId));
+const relay = new SimulationRelay(db, io);
+let isLeader = false;
+
+// Admin routes reach the engine through app.locals to reload it after rewriting world data.
+// The engine may live in another process, so both go through Postgres. Rewrites can only hold
+// off an engine in this process; one elsewhere finds its next flush refused and reloads.
+app.locals.simulation = {
+  reload: (worldId?: string) => requestReload(db, worldId),
+  rewrite: <T>(worldId: string, work: () => Promise<T>) => isLeader ? simulation.rewrite(worldId, work) : work(),
+  getSchedulerMetrics: () => relay.getSchedulerMetrics()
+};
+
+async function runSimulation() {
+  // Blocks while another process holds the leader lock
+  await acquireLeadership(db);
+  isLeader = true;
+  await onReloadRequest(db, worldId => simulation.reload(worldId));
+  await simulation.start();
+  console.log('🧬 Simulation engine started');
+}
 
 const PORT = process.env.PORT || 3001;
 
@@ -89,8 +117,19 @@ async function start() {
     console.log('📦 Database connected');
 
     // Start simulation loop
-    simulation.start();
-    console.log('🧬 Simulation engine started');
+    if (RUN_SIMULATION) {
+      runSimulation().catch(error => {
+        console.error('Simulation failed to start:', error);
+        process.exit(1);
+      });
+    }
+
+    if (SIMULATION_ONLY) {
+      console.log('🧬 Running as simulation worker (no HTTP server)');
+      return;
+    }
+
+    await relay.start();
 
     httpServer.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -104,4 +143,12 @@ async function start() {
 
 start();
 
+// Write out in-memory simulation state before the process exits
+process.on('SIGTERM', async () => {
+  if (isLeader) {
+    await simulation.stop();
+  }
+  process.exit(0);
+});
+
 export { io, simulation };
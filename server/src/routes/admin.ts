@@ -1,8 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../db/connection.js';
+import { SCHEMA_SQL } from '../db/schema.js';
 import { v4 as uuidv4 } from 'uuid';
 import { generateWorld, WorldGenParams } from '../worldgen/generator.js';
+import { postgresStorage as storage } from '../storage/postgres.js';
 import { addDebugClient } from '../utils/debugLogger.js';
+import { listEventTypes } from '../simulation/events.js';
 
 export const adminRouter = Router();
 
@@ -50,10 +53,12 @@ adminRouter.get('/metrics', async (req: Request, res: Response) => {
 
     // World info
     try {
-      const worldInfo = await db.query("SELECT id, name, seed, current_tick, current_year, status FROM worlds LIMIT 1");
-      metrics.world_info = worldInfo.rows[0] || null;
+      const worldInfo = await db.query(
+        'SELECT id, name, seed, current_tick, current_year, status, tick_interval_ms FROM worlds ORDER BY created_at, id'
+      );
+      metrics.worlds = worldInfo.rows;
     } catch {
-      metrics.world_info = null;
+      metrics.worlds = [];
     }
 
     // Database size
@@ -77,6 +82,9 @@ adminRouter.get('/metrics', async (req: Request, res: Response) => {
       metrics.players = [];
     }
 
+    // Tick timing and lag
+    metrics.simulation = req.app.locals.simulation?.getSchedulerMetrics() ?? null;
+
     // Connection test
     metrics.connection = 'ok';
     metrics.timestamp = new Date().toISOString();
@@ -88,163 +96,15 @@ adminRouter.get('/metrics', async (req: Request, res: Response) => {
   }
 });
 
+// List every registered event type with its scope, duration, trigger and effects
+adminRouter.get('/event-types', (req: Request, res: Response) => {
+  res.json(listEventTypes());
+});
+
 // Run migrations (create tables)
 adminRouter.post('/migrate', async (req: Request, res: Response) => {
   try {
-    const migrations = `
-      CREATE TABLE IF NOT EXISTS players (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        username VARCHAR(50) UNIQUE NOT NULL,
-        email VARCHAR(255) UNIQUE NOT NULL,
-        password_hash VARCHAR(255) NOT NULL,
-        avatar_type VARCHAR(50) DEFAULT 'classic_grey',
-        benevolence INTEGER DEFAULT 0,
-        mischief INTEGER DEFAULT 0,
-        curiosity INTEGER DEFAULT 0,
-        experiment_points INTEGER DEFAULT 1000,
-        created_at TIMESTAMP DEFAULT NOW(),
-        last_seen TIMESTAMP DEFAULT NOW()
-      );
-
-      CREATE TABLE IF NOT EXISTS worlds (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        name VARCHAR(100) NOT NULL,
-        seed INTEGER NOT NULL,
-        current_tick BIGINT DEFAULT 0,
-        current_year INTEGER DEFAULT 0,
-        status VARCHAR(20) DEFAULT 'running',
-        created_at TIMESTAMP DEFAULT NOW()
-      );
-
-      CREATE TABLE IF NOT EXISTS cells (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
-        x INTEGER NOT NULL,
-        y INTEGER NOT NULL,
-        lat DECIMAL(9,6),
-        lon DECIMAL(9,6),
-        biome VARCHAR(50) NOT NULL,
-        elevation INTEGER DEFAULT 0,
-        temperature INTEGER DEFAULT 15,
-        moisture INTEGER DEFAULT 50,
-        food_capacity INTEGER DEFAULT 100,
-        mineral_capacity INTEGER DEFAULT 50,
-        UNIQUE(world_id, x, y)
-      );
-
-      CREATE TABLE IF NOT EXISTS civilizations (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
-        name VARCHAR(100) NOT NULL,
-        color VARCHAR(7) DEFAULT '#888888',
-        capital_cell_id UUID,
-        founded_year INTEGER DEFAULT 0,
-        status VARCHAR(20) DEFAULT 'active'
-      );
-
-      CREATE TABLE IF NOT EXISTS populations (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        cell_id UUID REFERENCES cells(id) ON DELETE CASCADE,
-        civilization_id UUID,
-        population_size BIGINT DEFAULT 0,
-        tech_level INTEGER DEFAULT 0,
-        stability INTEGER DEFAULT 50,
-        prosperity INTEGER DEFAULT 50,
-        education INTEGER DEFAULT 0,
-        birth_rate DECIMAL(5,4) DEFAULT 0.02,
-        death_rate DECIMAL(5,4) DEFAULT 0.015,
-        ideology_collectivism INTEGER DEFAULT 50,
-        ideology_tradition INTEGER DEFAULT 50,
-        ideology_authoritarianism INTEGER DEFAULT 50,
-        ideology_xenophobia INTEGER DEFAULT 50,
-        war_tendency INTEGER DEFAULT 30,
-        resource_efficiency DECIMAL(5,4) DEFAULT 1.0,
-        environmental_impact DECIMAL(5,4) DEFAULT 1.0,
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW()
-      );
-
-      CREATE TABLE IF NOT EXISTS species (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
-        name VARCHAR(100) NOT NULL,
-        trophic_level VARCHAR(20) NOT NULL,
-        reproduction_rate DECIMAL(5,4) DEFAULT 0.1,
-        lifespan INTEGER DEFAULT 10,
-        habitat_preferences JSONB DEFAULT '[]',
-        is_native BOOLEAN DEFAULT true,
-        introduced_by UUID REFERENCES players(id),
-        introduced_year INTEGER
-      );
-
-      CREATE TABLE IF NOT EXISTS cell_species (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        cell_id UUID REFERENCES cells(id) ON DELETE CASCADE,
-        species_id UUID REFERENCES species(id) ON DELETE CASCADE,
-        population_density INTEGER DEFAULT 100,
-        UNIQUE(cell_id, species_id)
-      );
-
-      CREATE TABLE IF NOT EXISTS events (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
-        type VARCHAR(50) NOT NULL,
-        scope VARCHAR(20) NOT NULL,
-        target_cell_id UUID REFERENCES cells(id),
-        target_civ_id UUID REFERENCES civilizations(id),
-        data JSONB DEFAULT '{}',
-        start_tick BIGINT NOT NULL,
-        end_tick BIGINT,
-        is_active BOOLEAN DEFAULT true
-      );
-
-      CREATE TABLE IF NOT EXISTS experiments (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        player_id UUID REFERENCES players(id) ON DELETE CASCADE,
-        world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
-        type VARCHAR(50) NOT NULL,
-        category VARCHAR(50) NOT NULL,
-        target_type VARCHAR(20) NOT NULL,
-        target_id UUID,
-        parameters JSONB DEFAULT '{}',
-        cost INTEGER DEFAULT 10,
-        status VARCHAR(20) DEFAULT 'pending',
-        result JSONB,
-        created_at TIMESTAMP DEFAULT NOW(),
-        resolved_at TIMESTAMP
-      );
-
-      CREATE TABLE IF NOT EXISTS chat_messages (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        player_id UUID REFERENCES players(id) ON DELETE CASCADE,
-        channel VARCHAR(50) NOT NULL,
-        channel_id UUID,
-        message TEXT NOT NULL,
-        created_at TIMESTAMP DEFAULT NOW()
-      );
-
-      CREATE TABLE IF NOT EXISTS world_snapshots (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        world_id UUID REFERENCES worlds(id) ON DELETE CASCADE,
-        tick BIGINT NOT NULL,
-        year INTEGER NOT NULL,
-        total_population BIGINT,
-        num_civilizations INTEGER,
-        avg_tech_level DECIMAL(5,2),
-        snapshot_data JSONB,
-        created_at TIMESTAMP DEFAULT NOW()
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_cells_world ON cells(world_id);
-      CREATE INDEX IF NOT EXISTS idx_populations_cell ON populations(cell_id);
-      CREATE INDEX IF NOT EXISTS idx_populations_civ ON populations(civilization_id);
-      CREATE INDEX IF NOT EXISTS idx_experiments_player ON experiments(player_id);
-      CREATE INDEX IF NOT EXISTS idx_experiments_status ON experiments(status);
-      CREATE INDEX IF NOT EXISTS idx_chat_channel ON chat_messages(channel, channel_id);
-      CREATE INDEX IF NOT EXISTS idx_events_world_active ON events(world_id, is_active);
-    `;
-
-    await db.query(migrations);
+    await db.query(SCHEMA_SQL);
     res.json({ success: true, message: 'Migrations completed successfully' });
   } catch (error) {
     console.error('Migration error:', error);
@@ -256,8 +116,10 @@ adminRouter.post('/migrate', async (req: Request, res: Response) => {
 adminRouter.post('/reset', async (req: Request, res: Response) => {
   try {
     await db.query('DELETE FROM world_snapshots');
+    await db.query('DELETE FROM world_deltas');
     await db.query('DELETE FROM chat_messages');
     await db.query('DELETE FROM experiments');
+    await db.query('DELETE FROM reset_votes');
     await db.query('DELETE FROM events');
     await db.query('DELETE FROM cell_species');
     await db.query('DELETE FROM species');
@@ -267,6 +129,9 @@ adminRouter.post('/reset', async (req: Request, res: Response) => {
     await db.query('DELETE FROM worlds');
     // Keep players - they can rejoin
     
+    // The engine keeps the world in memory; reload it from the database
+    await req.app.locals.simulation?.reload();
+
     res.json({ success: true, message: 'World data reset successfully (players preserved)' });
   } catch (error) {
     console.error('Reset error:', error);
@@ -278,8 +143,10 @@ adminRouter.post('/reset', async (req: Request, res: Response) => {
 adminRouter.post('/reset-all', async (req: Request, res: Response) => {
   try {
     await db.query('DELETE FROM world_snapshots');
+    await db.query('DELETE FROM world_deltas');
     await db.query('DELETE FROM chat_messages');
     await db.query('DELETE FROM experiments');
+    await db.query('DELETE FROM reset_votes');
     await db.query('DELETE FROM events');
     await db.query('DELETE FROM cell_species');
     await db.query('DELETE FROM species');
@@ -289,6 +156,9 @@ adminRouter.post('/reset-all', async (req: Request, res: Response) => {
     await db.query('DELETE FROM worlds');
     await db.query('DELETE FROM players');
     
+    // The engine keeps the world in memory; reload it from the database
+    await req.app.locals.simulation?.reload();
+
     res.json({ success: true, message: 'All data reset successfully' });
   } catch (error) {
     console.error('Reset all error:', error);
@@ -473,6 +343,9 @@ adminRouter.post('/seed', async (req: Request, res: Response) => {
       [worldId, result.rows[0].total_pop, result.rows[0].num_civs, result.rows[0].avg_tech]
     );
 
+    // The engine keeps the world in memory; reload it from the database
+    await req.app.locals.simulation?.reload();
+
     res.json({
       success: true,
       message: 'World seeded successfully',
@@ -497,39 +370,41 @@ adminRouter.post('/generate-world', async (req: Request, res: Response) => {
       waterCoverage: req.body.waterCoverage || 0.7,
       avgTemperature: req.body.avgTemperature || 15,
       biomeVariety: req.body.biomeVariety || 1.0,
-      seed: req.body.seed
+      grid: req.body.grid === 'geodesic' ? 'geodesic' : 'latlon',
+      // Picked here so the world row and the generator use the same seed
+      seed: req.body.seed || Math.floor(Math.random() * 1000000)
     };
 
-    // Get or create world
-    let worldResult = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
+    // Regenerate the given world, or create a new one alongside the others
     let worldId: string;
+    let result: Awaited<ReturnType<typeof generateWorld>>;
 
-    if (worldResult.rows.length === 0) {
+    if (!req.body.world_id) {
+      const tickIntervalMs = Number(req.body.tick_interval_ms) || null;
       const newWorld = await db.query(`
-        INSERT INTO worlds (name, seed, current_tick, current_year, status)
-        VALUES ($1, $2, 0, 0, 'running')
+        INSERT INTO worlds (name, seed, current_tick, current_year, status, tick_interval_ms)
+        VALUES ($1, $2, 0, 0, 'running', $3)
         RETURNING id
-      `, ['Procedural World', params.seed || Math.floor(Math.random() * 1000000)]);
+      `, [req.body.name || 'Procedural World', params.seed, tickIntervalMs]);
       worldId = newWorld.rows[0].id;
+      result = await generateWorld(params, worldId);
     } else {
+      const worldResult = await db.query('SELECT id FROM worlds WHERE id::text = $1', [String(req.body.world_id)]);
+      if (worldResult.rows.length === 0) {
+        return res.status(404).json({ success: false, error: 'World not found' });
+      }
       worldId = worldResult.rows[0].id;
-      // Reset world - clear everything
-      await db.query('UPDATE worlds SET current_tick = 0, current_year = 0 WHERE id = $1', [worldId]);
-      
-      // Delete populations first (foreign key constraint)
-      await db.query('DELETE FROM populations WHERE cell_id IN (SELECT id FROM cells WHERE world_id = $1)', [worldId]);
-      
-      // Delete cells (this will cascade to any remaining data)
-      await db.query('DELETE FROM cells WHERE world_id = $1', [worldId]);
-      
-      // Delete civilizations
-      await db.query('DELETE FROM civilizations WHERE world_id = $1', [worldId]);
-      
-      console.log('🧹 Cleared existing world data');
+      // Reset world - clear everything; a finished or stagnant world starts a new run. The
+      // engine must not tick (or flush) the old world in between, and a failure leaves it as it was.
+      result = await req.app.locals.simulation.rewrite(worldId, () => storage.transaction(async tx => {
+        await tx.worlds.restart(worldId, params.seed!);
+        return generateWorld(params, worldId, tx);
+      }));
+      console.log('🧹 Regenerated existing world data');
     }
 
-    // Generate world
-    const result = await generateWorld(params, worldId);
+    // The engine keeps the world in memory; reload it from the database
+    await req.app.locals.simulation?.reload(worldId);
 
     res.json({
       success: true,
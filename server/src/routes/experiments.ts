@@ -1,6 +1,7 @@
 import { Router, Response } from 'express';
 import { db } from '../db/connection.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { LIVE_WORLD_STATUSES } from '../storage/types.js';
 
 export const experimentRouter = Router();
 
@@ -18,7 +19,9 @@ const EXPERIMENT_TYPES = {
   sociopolitical: {
     ideology_nudge: { cost: 10, cooldown: 30 },
     prophetic_vision: { cost: 25, cooldown: 90 },
-    policy_insanity: { cost: 40, cooldown: 180 }
+    policy_insanity: { cost: 40, cooldown: 180 },
+    sow_discord: { cost: 20, cooldown: 60 },
+    broker_peace: { cost: 20, cooldown: 60 }
   },
   catastrophic: {
     meteor: { cost: 100, cooldown: 600 },
@@ -62,18 +65,19 @@ experimentRouter.get('/history', async (req: AuthRequest, res: Response) => {
 // Get recent global experiments (action feed)
 experimentRouter.get('/feed', async (req: AuthRequest, res: Response) => {
   try {
-    const { limit = 20 } = req.query;
+    const { limit = 20, world_id } = req.query;
     
+    // Optionally narrowed to one world
     const experiments = await db.query(`
       SELECT e.*, p.username, p.avatar_type, c.x, c.y, civ.name as civilization_name
       FROM experiments e
       JOIN players p ON e.player_id = p.id
       LEFT JOIN cells c ON e.target_id = c.id AND e.target_type = 'cell'
       LEFT JOIN civilizations civ ON e.target_id = civ.id AND e.target_type = 'civilization'
-      WHERE e.status != 'pending'
+      WHERE e.status != 'pending' AND ($2::text IS NULL OR e.world_id::text = $2)
       ORDER BY e.resolved_at DESC
       LIMIT $1
-    `, [Number(limit)]);
+    `, [Number(limit), world_id ? String(world_id) : null]);
 
     res.json(experiments.rows);
   } catch (error) {
@@ -85,7 +89,7 @@ experimentRouter.get('/feed', async (req: AuthRequest, res: Response) => {
 // Submit a new experiment
 experimentRouter.post('/submit', async (req: AuthRequest, res: Response) => {
   try {
-    const { category, type, target_type, target_id, parameters } = req.body;
+    const { world_id, category, type, target_type, target_id, parameters } = req.body;
 
     // Validate experiment type
     const categoryTypes = EXPERIMENT_TYPES[category as keyof typeof EXPERIMENT_TYPES];
@@ -128,20 +132,26 @@ experimentRouter.post('/submit', async (req: AuthRequest, res: Response) => {
       }
     }
 
-    // Get world ID
-    const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
+    // Experiments always name the world they target
+    if (!world_id) {
+      return res.status(400).json({ error: 'world_id is required' });
+    }
+    const world = await db.query(
+      'SELECT id FROM worlds WHERE id::text = $1 AND status = ANY($2)',
+      [String(world_id), LIVE_WORLD_STATUSES]
+    );
     if (world.rows.length === 0) {
-      return res.status(400).json({ error: 'No active world' });
+      return res.status(400).json({ error: 'World not found or not running' });
     }
 
-    // Validate target exists
+    // Validate target exists in that world
     if (target_type === 'cell') {
-      const cell = await db.query('SELECT id FROM cells WHERE id = $1', [target_id]);
+      const cell = await db.query('SELECT id FROM cells WHERE id::text = $1 AND world_id = $2', [target_id, world.rows[0].id]);
       if (cell.rows.length === 0) {
         return res.status(400).json({ error: 'Invalid target cell' });
       }
     } else if (target_type === 'civilization') {
-      const civ = await db.query('SELECT id FROM civilizations WHERE id = $1', [target_id]);
+      const civ = await db.query('SELECT id FROM civilizations WHERE id::text = $1 AND world_id = $2', [target_id, world.rows[0].id]);
       if (civ.rows.length === 0) {
         return res.status(400).json({ error: 'Invalid target civilization' });
       }
@@ -1,39 +1,78 @@
-import { Router, Response } from 'express';
+import { Router, Response, NextFunction } from 'express';
 import { db } from '../db/connection.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { WorldRecord } from '../storage/types.js';
+import { postgresStorage as storage } from '../storage/postgres.js';
+import { DELTA_RETENTION_TICKS } from '../simulation/delta.js';
+import { EVENT_TYPES } from '../simulation/events.js';
+import { VOTE_YEARS } from '../simulation/endstates.js';
 
 export const worldRouter = Router();
 
-// Get current world state
-worldRouter.get('/current', async (req: AuthRequest, res: Response) => {
+export interface WorldRequest extends AuthRequest {
+  world?: WorldRecord;
+}
+
+// List every world players can orbit
+worldRouter.get('/', async (req: AuthRequest, res: Response) => {
   try {
-    const world = await db.query("SELECT * FROM worlds WHERE status = 'running' LIMIT 1");
-    
-    if (world.rows.length === 0) {
-      return res.status(404).json({ error: 'No active world' });
-    }
+    const worlds = await db.query(`
+      SELECT w.id, w.name, w.seed, w.current_tick, w.current_year, w.status, w.tick_interval_ms, w.created_at,
+             (SELECT COALESCE(SUM(p.population_size), 0)
+              FROM populations p
+              JOIN cells c ON p.cell_id = c.id
+              WHERE c.world_id = w.id) as total_population,
+             (SELECT COUNT(*) FROM civilizations civ WHERE civ.world_id = w.id) as num_civilizations
+      FROM worlds w
+      ORDER BY w.created_at
+    `);
 
-    res.json(world.rows[0]);
+    res.json(worlds.rows);
   } catch (error) {
-    console.error('World fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch world' });
+    console.error('Worlds fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch worlds' });
   }
 });
 
-// Get all cells for the world
-worldRouter.get('/cells', async (req: AuthRequest, res: Response) => {
+// Every route below is scoped to the world in the URL
+worldRouter.param('worldId', async (req: WorldRequest, res: Response, next: NextFunction, worldId: string) => {
   try {
-    const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
-    if (world.rows.length === 0) {
-      return res.status(404).json({ error: 'No active world' });
+    const world = await storage.worlds.findById(worldId);
+    if (!world) {
+      return res.status(404).json({ error: 'World not found' });
+    }
+    req.world = world;
+    next();
+  } catch (error: any) {
+    // Not a uuid
+    if (error.code === '22P02') {
+      return res.status(404).json({ error: 'World not found' });
     }
+    console.error('World lookup error:', error);
+    res.status(500).json({ error: 'Failed to fetch world' });
+  }
+});
+
+// Get world state
+worldRouter.get('/:worldId', async (req: WorldRequest, res: Response) => {
+  res.json(req.world);
+});
 
+// Get all cells for the world
+worldRouter.get('/:worldId/cells', async (req: WorldRequest, res: Response) => {
+  try {
     const cells = await db.query(`
-      SELECT c.id, c.x, c.y, c.lat, c.lon, c.biome, c.temperature, c.food_capacity
+      SELECT c.id, c.x, c.y, c.lat, c.lon, c.biome, COALESCE(c.land_use, 'wild') as land_use, c.temperature,
+             c.food_capacity, c.water_capacity, c.mineral_capacity, c.energy_capacity,
+             COALESCE(c.food_stock, c.food_capacity)::float as food_stock,
+             COALESCE(c.water_stock, c.water_capacity)::float as water_stock,
+             COALESCE(c.mineral_stock, c.mineral_capacity)::float as mineral_stock,
+             COALESCE(c.energy_stock, c.energy_capacity)::float as energy_stock,
+             COALESCE(c.infrastructure, 0)::float as infrastructure
       FROM cells c
       WHERE c.world_id = $1
       ORDER BY c.y, c.x
-    `, [world.rows[0].id]);
+    `, [req.world!.id]);
 
     res.json(cells.rows);
   } catch (error) {
@@ -43,20 +82,15 @@ worldRouter.get('/cells', async (req: AuthRequest, res: Response) => {
 });
 
 // Get populations with civilization info
-worldRouter.get('/populations', async (req: AuthRequest, res: Response) => {
+worldRouter.get('/:worldId/populations', async (req: WorldRequest, res: Response) => {
   try {
-    const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
-    if (world.rows.length === 0) {
-      return res.status(404).json({ error: 'No active world' });
-    }
-
     const populations = await db.query(`
       SELECT p.*, c.x, c.y, c.biome, civ.name as civilization_name, civ.color as civilization_color
       FROM populations p
       JOIN cells c ON p.cell_id = c.id
       LEFT JOIN civilizations civ ON p.civilization_id = civ.id
-      WHERE c.world_id = $1
-    `, [world.rows[0].id]);
+      WHERE c.world_id = $1 AND p.population_size > 0
+    `, [req.world!.id]);
 
     res.json(populations.rows);
   } catch (error) {
@@ -65,25 +99,24 @@ worldRouter.get('/populations', async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Get civilizations
-worldRouter.get('/civilizations', async (req: AuthRequest, res: Response) => {
+// Get civilizations, extinct and ascended ones included; lifespan counts up to now for the living
+worldRouter.get('/:worldId/civilizations', async (req: WorldRequest, res: Response) => {
   try {
-    const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
-    if (world.rows.length === 0) {
-      return res.status(404).json({ error: 'No active world' });
-    }
-
     const civilizations = await db.query(`
       SELECT civ.*, 
              COUNT(p.id) as num_cells,
-             SUM(p.population_size) as total_population,
+             COALESCE(SUM(p.population_size), 0) as total_population,
              AVG(p.tech_level) as avg_tech_level,
-             AVG(p.prosperity) as avg_prosperity
+             AVG(p.prosperity) as avg_prosperity,
+             COALESCE(civ.end_year, $2) - civ.founded_year as lifespan,
+             parent.name as parent_name
       FROM civilizations civ
-      LEFT JOIN populations p ON civ.id = p.civilization_id
+      LEFT JOIN populations p ON civ.id = p.civilization_id AND p.population_size > 0
+      LEFT JOIN civilizations parent ON civ.parent_id = parent.id
       WHERE civ.world_id = $1
-      GROUP BY civ.id
-    `, [world.rows[0].id]);
+      GROUP BY civ.id, parent.name
+      ORDER BY civ.end_year IS NOT NULL, civ.founded_year, civ.name
+    `, [req.world!.id, req.world!.current_year]);
 
     res.json(civilizations.rows);
   } catch (error) {
@@ -93,19 +126,14 @@ worldRouter.get('/civilizations', async (req: AuthRequest, res: Response) => {
 });
 
 // Get species
-worldRouter.get('/species', async (req: AuthRequest, res: Response) => {
+worldRouter.get('/:worldId/species', async (req: WorldRequest, res: Response) => {
   try {
-    const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
-    if (world.rows.length === 0) {
-      return res.status(404).json({ error: 'No active world' });
-    }
-
     const species = await db.query(`
       SELECT s.*, p.username as introduced_by_name
       FROM species s
       LEFT JOIN players p ON s.introduced_by = p.id
       WHERE s.world_id = $1
-    `, [world.rows[0].id]);
+    `, [req.world!.id]);
 
     res.json(species.rows);
   } catch (error) {
@@ -114,12 +142,99 @@ worldRouter.get('/species', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get relations between civilizations and the latest treaties and wars
+worldRouter.get('/:worldId/diplomacy', async (req: WorldRequest, res: Response) => {
+  try {
+    const { limit = 50 } = req.query;
+
+    const relations = await db.query(`
+      SELECT r.civ_a, a.name as civ_a_name, a.color as civ_a_color,
+             r.civ_b, b.name as civ_b_name, b.color as civ_b_color,
+             r.opinion, r.treaties, r.at_war, r.war_started_year, r.wars_fought
+      FROM civilization_relations r
+      JOIN civilizations a ON r.civ_a = a.id
+      JOIN civilizations b ON r.civ_b = b.id
+      WHERE r.world_id = $1
+      ORDER BY r.at_war DESC, r.opinion
+    `, [req.world!.id]);
+
+    const history = await db.query(`
+      SELECT e.id, e.data, e.start_tick
+      FROM events e
+      WHERE e.world_id = $1 AND e.type = 'diplomacy'
+      ORDER BY e.start_tick DESC
+      LIMIT $2
+    `, [req.world!.id, Number(limit)]);
+
+    res.json({ relations: relations.rows, history: history.rows });
+  } catch (error) {
+    console.error('Diplomacy fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch diplomacy' });
+  }
+});
+
+// Get active trade routes with the cells and civilizations at both ends, for drawing on the globe
+worldRouter.get('/:worldId/trade-routes', async (req: WorldRequest, res: Response) => {
+  try {
+    const routes = await db.query(`
+      SELECT t.id, t.pop_a, t.pop_b, t.established_year, t.volume,
+             a.cell_id as cell_a, a.civilization_id as civ_a, civ_a.color as civ_a_color,
+             b.cell_id as cell_b, b.civilization_id as civ_b, civ_b.color as civ_b_color
+      FROM trade_routes t
+      JOIN populations a ON t.pop_a = a.id
+      JOIN populations b ON t.pop_b = b.id
+      LEFT JOIN civilizations civ_a ON a.civilization_id = civ_a.id
+      LEFT JOIN civilizations civ_b ON b.civilization_id = civ_b.id
+      WHERE t.world_id = $1
+      ORDER BY t.volume DESC
+    `, [req.world!.id]);
+
+    res.json(routes.rows);
+  } catch (error) {
+    console.error('Trade routes fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch trade routes' });
+  }
+});
+
+// Get diseases going around, with how many people have them and are immune right now, and
+// the infected in each cell (the shape of the engine's epidemic broadcast)
+worldRouter.get('/:worldId/diseases', async (req: WorldRequest, res: Response) => {
+  try {
+    const diseases = await db.query(`
+      SELECT d.*, p.username as introduced_by_name,
+             COALESCE(SUM(i.infected), 0)::float as infected,
+             COALESCE(SUM(i.recovered), 0)::float as recovered,
+             COUNT(i.population_id) FILTER (WHERE i.infected > 0) as num_populations
+      FROM diseases d
+      LEFT JOIN players p ON d.introduced_by = p.id
+      LEFT JOIN population_infections i ON i.disease_id = d.id
+      WHERE d.world_id = $1 AND d.status = 'active'
+      GROUP BY d.id, p.username
+      ORDER BY d.emerged_year, d.name
+    `, [req.world!.id]);
+
+    const cells = await db.query(`
+      SELECT p.cell_id, SUM(i.infected)::float as infected
+      FROM population_infections i
+      JOIN populations p ON i.population_id = p.id
+      JOIN diseases d ON i.disease_id = d.id
+      WHERE d.world_id = $1 AND i.infected > 0
+      GROUP BY p.cell_id
+    `, [req.world!.id]);
+
+    res.json({ diseases: diseases.rows, cells: cells.rows });
+  } catch (error) {
+    console.error('Diseases fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch diseases' });
+  }
+});
+
 // Get cell details
-worldRouter.get('/cell/:id', async (req: AuthRequest, res: Response) => {
+worldRouter.get('/:worldId/cell/:id', async (req: WorldRequest, res: Response) => {
   try {
     const { id } = req.params;
 
-    const cell = await db.query('SELECT * FROM cells WHERE id = $1', [id]);
+    const cell = await db.query('SELECT * FROM cells WHERE id = $1 AND world_id = $2', [id, req.world!.id]);
     if (cell.rows.length === 0) {
       return res.status(404).json({ error: 'Cell not found' });
     }
@@ -128,7 +243,8 @@ worldRouter.get('/cell/:id', async (req: AuthRequest, res: Response) => {
       SELECT p.*, civ.name as civilization_name, civ.color as civilization_color
       FROM populations p
       LEFT JOIN civilizations civ ON p.civilization_id = civ.id
-      WHERE p.cell_id = $1
+      WHERE p.cell_id = $1 AND p.population_size > 0
+      ORDER BY p.population_size DESC
     `, [id]);
 
     const species = await db.query(`
@@ -147,6 +263,8 @@ worldRouter.get('/cell/:id', async (req: AuthRequest, res: Response) => {
 
     res.json({
       cell: cell.rows[0],
+      // Every civilization living in the cell, largest first; population is the largest
+      populations: population.rows,
       population: population.rows[0] || null,
       species: species.rows,
       events: recentEvents.rows
@@ -158,49 +276,114 @@ worldRouter.get('/cell/:id', async (req: AuthRequest, res: Response) => {
 });
 
 // Get world history
-worldRouter.get('/history', async (req: AuthRequest, res: Response) => {
+worldRouter.get('/:worldId/history', async (req: WorldRequest, res: Response) => {
   try {
-    const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
-    if (world.rows.length === 0) {
-      return res.status(404).json({ error: 'No active world' });
-    }
-
     const { limit = 100 } = req.query;
 
-    const snapshots = await db.query(`
-      SELECT year, total_population, num_civilizations, avg_tech_level
-      FROM world_snapshots
-      WHERE world_id = $1
-      ORDER BY tick DESC
-      LIMIT $2
-    `, [world.rows[0].id, Number(limit)]);
+    const snapshots = await storage.snapshots.listRecent(req.world!.id, Number(limit));
 
-    res.json(snapshots.rows.reverse());
+    res.json(snapshots);
   } catch (error) {
     console.error('History fetch error:', error);
     res.status(500).json({ error: 'Failed to fetch history' });
   }
 });
 
-// Get active events
-worldRouter.get('/events', async (req: AuthRequest, res: Response) => {
+// Get every committed delta after tick `since`, for clients catching up after a reconnect.
+// reset: true means those ticks are no longer kept and the client should reload everything.
+worldRouter.get('/:worldId/changes', async (req: WorldRequest, res: Response) => {
   try {
-    const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
-    if (world.rows.length === 0) {
-      return res.status(404).json({ error: 'No active world' });
+    const since = Number(req.query.since);
+    if (!Number.isInteger(since) || since < 0) {
+      return res.status(400).json({ error: 'since must be a tick number' });
     }
 
+    const world = req.world!;
+    if (since < world.current_tick - DELTA_RETENTION_TICKS) {
+      return res.json({ tick: world.current_tick, year: world.current_year, reset: true, deltas: [] });
+    }
+
+    const deltas = await storage.deltas.listSince(world.id, since);
+    res.json({ tick: world.current_tick, year: world.current_year, reset: false, deltas });
+  } catch (error) {
+    console.error('Changes fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch changes' });
+  }
+});
+
+// Get active events, world-wide modifiers (scope 'global') included, with what each does to the rules
+worldRouter.get('/:worldId/events', async (req: WorldRequest, res: Response) => {
+  try {
     const events = await db.query(`
       SELECT e.*, c.x, c.y, civ.name as civilization_name
       FROM events e
       LEFT JOIN cells c ON e.target_cell_id = c.id
       LEFT JOIN civilizations civ ON e.target_civ_id = civ.id
       WHERE e.world_id = $1 AND e.is_active = true
-    `, [world.rows[0].id]);
+      ORDER BY e.scope = 'global' DESC, e.start_tick
+    `, [req.world!.id]);
 
-    res.json(events.rows);
+    res.json(events.rows.map(event => ({
+      ...event,
+      description: EVENT_TYPES[event.type]?.description ?? null,
+      modifiers: EVENT_TYPES[event.type]?.modifiers ?? null
+    })));
   } catch (error) {
     console.error('Events fetch error:', error);
     res.status(500).json({ error: 'Failed to fetch events' });
   }
 });
+
+// What became of a finished world
+worldRouter.get('/:worldId/post-mortem', async (req: WorldRequest, res: Response) => {
+  const world = req.world!;
+  if (world.status !== 'finished' || !world.post_mortem) {
+    return res.status(404).json({ error: 'World has not finished' });
+  }
+  res.json(world.post_mortem);
+});
+
+// The reset vote on a stagnant world: whether it's open, until when, the tally so far and the player's own vote
+worldRouter.get('/:worldId/reset-vote', async (req: WorldRequest, res: Response) => {
+  try {
+    const world = req.world!;
+    const open = world.status === 'voting';
+    const tally = open ? await storage.worlds.tallyResetVotes(world.id) : { in_favor: 0, against: 0 };
+    const vote = await db.query(
+      'SELECT in_favor FROM reset_votes WHERE world_id = $1 AND player_id = $2',
+      [world.id, req.user!.id]
+    );
+
+    res.json({
+      open,
+      opened_year: open ? world.status_year : null,
+      closes_year: open ? world.status_year + VOTE_YEARS : null,
+      ...tally,
+      vote: open && vote.rows[0] ? vote.rows[0].in_favor : null
+    });
+  } catch (error) {
+    console.error('Reset vote fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch reset vote' });
+  }
+});
+
+// Vote for (in_favor: true) or against resetting a stagnant world; voting again changes the vote
+worldRouter.post('/:worldId/reset-vote', async (req: WorldRequest, res: Response) => {
+  try {
+    const world = req.world!;
+    const { in_favor } = req.body || {};
+
+    if (typeof in_favor !== 'boolean') {
+      return res.status(400).json({ error: 'in_favor must be true or false' });
+    }
+    if (world.status !== 'voting') {
+      return res.status(400).json({ error: 'No reset vote is open on this world' });
+    }
+
+    await storage.worlds.castResetVote(world.id, req.user!.id, in_favor);
+    res.json({ vote: in_favor, ...(await storage.worlds.tallyResetVotes(world.id)) });
+  } catch (error) {
+    console.error('Reset vote error:', error);
+    res.status(500).json({ error: 'Failed to cast vote' });
+  }
+});
@@ -0,0 +1,137 @@
+// The world's climate. A global temperature anomaly swings with a slow natural cycle,
+// climbs with the emissions of industrial populations (tech 5 and up, scaled by their
+// environmental impact) and relaxes back toward the cycle once they stop; aliens can heat
+// or cool the world outright. Every change reaches each cell's temperature — the poles
+// more than the tropics — and moisture, wet places growing wetter and dry places drier
+// as the world warms. Melting ice slowly raises the seas. Once a year every cell is
+// reclassified with the generator's determineBiome, so forests turn to desert, tundra
+// thaws and low coasts drown; whatever people have made of the land (landuse.ts) stays
+// on top of its new natural biome, except where the sea takes it.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, CellState } from './state.js';
+import { determineBiome } from '../worldgen/generator.js';
+import { refreshLand } from './landuse.js';
+
+export interface BiomeChange {
+  cell: CellState;
+  from: string;
+}
+
+export interface ClimateYear {
+  // °C the anomaly moved this year
+  shift: number;
+  biomeChanges: BiomeChange[];
+  // Land cells the sea took this year
+  flooded: CellState[];
+}
+
+// °C the natural cycle swings either way, and its period in years
+const CYCLE_AMPLITUDE = 0.5;
+const CYCLE_YEARS = 300;
+// °C per year from a million people one tech level past the industrial threshold
+const EMISSION_RATE = 0.002;
+const INDUSTRIAL_TECH = 5;
+// Share of the man-made (or alien-made) anomaly the world sheds per year
+const RECOVERY = 0.02;
+const MAX_ANOMALY = 15;
+// Elevation points the seas settle at per °C of anomaly, and the share of the way they move per year
+const SEA_PER_DEGREE = 2;
+const SEA_RESPONSE = 0.05;
+// Share of a cell's distance from average moisture (50) it gains per °C
+const MOISTURE_RESPONSE = 0.05;
+const MAX_MOISTURE = 150;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Whole points only; rounding at random lets small yearly changes add up
+function stochasticRound(value: number, rng: SeededRandom): number {
+  return Math.floor(value + rng.next());
+}
+
+function naturalCycle(year: number): number {
+  return CYCLE_AMPLITUDE * Math.sin(2 * Math.PI * year / CYCLE_YEARS);
+}
+
+// °C per year the world's industry adds to the anomaly
+function emissions(state: WorldState): number {
+  let total = 0;
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0 || pop.tech_level < INDUSTRIAL_TECH) continue;
+    total += pop.population_size / 1e6 * pop.environmental_impact * (pop.tech_level - INDUSTRIAL_TECH + 1);
+  }
+  return total * EMISSION_RATE;
+}
+
+// Warms (or, for negative degrees, cools) the world and every cell in it; returns the
+// °C actually applied once the anomaly hits its limits
+export function shiftClimate(state: WorldState, degrees: number, rng: SeededRandom): number {
+  const before = state.climate.temperature_anomaly;
+  const after = round2(Math.max(-MAX_ANOMALY, Math.min(MAX_ANOMALY, before + degrees)));
+  const shift = round2(after - before);
+  if (shift === 0) return 0;
+  state.climate.temperature_anomaly = after;
+  state.touchClimate();
+
+  for (const cell of state.cells) {
+    const temperature = cell.temperature + stochasticRound(shift * (1 + Math.abs(cell.lat) / 90), rng);
+    const moisture = Math.max(0, Math.min(MAX_MOISTURE,
+      cell.moisture + stochasticRound((cell.moisture - 50) * MOISTURE_RESPONSE * shift, rng)));
+    if (temperature === cell.temperature && moisture === cell.moisture) continue;
+    cell.temperature = temperature;
+    cell.moisture = moisture;
+    state.touchTerrain(cell);
+  }
+  return shift;
+}
+
+// Gives the cell the natural biome its elevation, latitude and moisture call for under the
+// current climate; the old biome if the biome changed
+function reclassify(state: WorldState, cell: CellState): string | null {
+  const { base_temperature, temperature_anomaly, sea_level } = state.climate;
+  // Elevation comes in whole points, so the sea only counts once it has moved a whole point;
+  // otherwise the first hundredth of a rise would flood every cell sitting right at the coast
+  const natural = determineBiome(
+    (cell.elevation - Math.trunc(sea_level)) / 100,
+    cell.lat,
+    cell.moisture / 100,
+    base_temperature! + temperature_anomaly
+  );
+  if (natural === cell.natural_biome) return null;
+
+  const from = cell.biome;
+  cell.natural_biome = natural;
+  // Fields and cities go under with the land
+  if (natural === 'ocean') cell.land_use = 'wild';
+  state.touchTerrain(cell);
+  refreshLand(state, cell);
+  return cell.biome === from ? null : from;
+}
+
+// One year of climate: the anomaly follows the cycle and the world's emissions, the seas
+// follow the anomaly and cells change biome to match
+export function runClimateYear(state: WorldState, rng: SeededRandom, year: number): ClimateYear {
+  const climate = state.climate;
+  // The part of the anomaly the cycle doesn't explain fades, and this year's emissions add to it
+  const forced = (climate.temperature_anomaly - naturalCycle(year - 1)) * (1 - RECOVERY) + emissions(state);
+  const shift = shiftClimate(state, naturalCycle(year) + forced - climate.temperature_anomaly, rng);
+
+  const seaLevel = round2(climate.sea_level + (climate.temperature_anomaly * SEA_PER_DEGREE - climate.sea_level) * SEA_RESPONSE);
+  if (seaLevel !== climate.sea_level) {
+    climate.sea_level = seaLevel;
+    state.touchClimate();
+  }
+
+  // Worlds generated before elevation was kept have no terrain to reclassify
+  const biomeChanges: BiomeChange[] = [];
+  const flooded: CellState[] = [];
+  if (climate.base_temperature === null) return { shift, biomeChanges, flooded };
+
+  for (const cell of state.cells) {
+    const from = reclassify(state, cell);
+    if (from === null) continue;
+    biomeChanges.push({ cell, from });
+    if (cell.biome === 'ocean') flooded.push(cell);
+  }
+  return { shift, biomeChanges, flooded };
+}
@@ -0,0 +1,178 @@
+// Compact per-tick diffs of the world, so clients can keep their copy current
+// without refetching every population. Values are absolute, not increments, so
+// applying the same delta twice (or after a rollback replays a tick) is harmless.
+
+import { WorldState, PopulationState } from './state.js';
+
+// How far back GET /changes can catch a client up; older deltas are pruned at year end
+export const DELTA_RETENTION_TICKS = 120;
+
+// Population fields clients display; anything else stays server-side
+const POPULATION_FIELDS = ['civilization_id', 'population_size', 'tech_level', 'stability', 'prosperity', 'education'] as const;
+
+type PopulationField = typeof POPULATION_FIELDS[number];
+type PopulationValues = Pick<PopulationState, PopulationField>;
+
+export type PopulationChange = { id: string } & Partial<PopulationValues>;
+
+export interface NewPopulation extends PopulationValues {
+  id: string;
+  cell_id: string;
+  x: number;
+  y: number;
+  civilization_name: string | null;
+  civilization_color: string | null;
+}
+
+interface CivilizationValues {
+  total_population: number;
+  num_cells: number;
+  avg_tech_level: number;
+  avg_prosperity: number;
+}
+
+// name, color, status and end_year are only sent the first time a civilization shows up or when they change
+export type CivilizationChange = {
+  id: string;
+  name?: string;
+  color?: string;
+  status?: string;
+  end_year?: number | null;
+} & Partial<CivilizationValues>;
+
+export interface WorldDelta {
+  tick: number;
+  year: number;
+  changed: PopulationChange[];
+  added: NewPopulation[];
+  // Populations that dropped to zero; clients drop them
+  extinct: string[];
+  civilizations: CivilizationChange[];
+}
+
+// Copies one field into a change, keeping its type
+function assign<T, K extends keyof T>(target: Partial<T>, key: K, value: T[K]) {
+  target[key] = value;
+}
+
+function isEmpty(delta: WorldDelta): boolean {
+  return delta.changed.length === 0 && delta.added.length === 0 &&
+    delta.extinct.length === 0 && delta.civilizations.length === 0;
+}
+
+function populationValues(pop: PopulationState): PopulationValues {
+  return {
+    civilization_id: pop.civilization_id,
+    population_size: pop.population_size,
+    tech_level: pop.tech_level,
+    stability: pop.stability,
+    prosperity: pop.prosperity,
+    education: pop.education
+  };
+}
+
+// Same figures as GET /civilizations, averaged over living populations
+function civilizationValues(state: WorldState): Map<string, CivilizationValues> {
+  const totals = new Map<string, { pop: number; cells: number; tech: number; prosperity: number }>();
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0) continue;
+    const t = totals.get(pop.civilization_id) || { pop: 0, cells: 0, tech: 0, prosperity: 0 };
+    t.pop += pop.population_size;
+    t.cells++;
+    t.tech += pop.tech_level;
+    t.prosperity += pop.prosperity;
+    totals.set(pop.civilization_id, t);
+  }
+
+  const values = new Map<string, CivilizationValues>();
+  for (const civ of state.civilizations.values()) {
+    const t = totals.get(civ.id);
+    values.set(civ.id, {
+      total_population: t?.pop ?? 0,
+      num_cells: t?.cells ?? 0,
+      avg_tech_level: t ? Math.round(t.tech / t.cells * 100) / 100 : 0,
+      avg_prosperity: t ? Math.round(t.prosperity / t.cells * 100) / 100 : 0
+    });
+  }
+  return values;
+}
+
+// Remembers what clients were last told and diffs the world against it
+export class DeltaTracker {
+  private populations = new Map<string, PopulationValues>();
+  private civilizations = new Map<string, CivilizationValues & { name: string; color: string; status: string; end_year: number | null }>();
+
+  // Takes the world as clients load it over REST as the baseline
+  reset(state: WorldState) {
+    this.populations.clear();
+    this.civilizations.clear();
+    for (const pop of state.populations.values()) {
+      if (pop.population_size > 0) this.populations.set(pop.id, populationValues(pop));
+    }
+    const civValues = civilizationValues(state);
+    for (const civ of state.civilizations.values()) {
+      this.civilizations.set(civ.id, { ...civValues.get(civ.id)!, name: civ.name, color: civ.color, status: civ.status, end_year: civ.end_year });
+    }
+  }
+
+  // touched: populations the tick changed or created. Null when nothing visible changed.
+  build(state: WorldState, touched: PopulationState[], tick: number, year: number): WorldDelta | null {
+    const delta: WorldDelta = { tick, year, changed: [], added: [], extinct: [], civilizations: [] };
+
+    for (const pop of touched) {
+      const previous = this.populations.get(pop.id);
+      if (pop.population_size <= 0) {
+        if (previous) {
+          delta.extinct.push(pop.id);
+          this.populations.delete(pop.id);
+        }
+        continue;
+      }
+
+      const current = populationValues(pop);
+      this.populations.set(pop.id, current);
+      if (!previous) {
+        const cell = state.cellsById.get(pop.cell_id);
+        const civ = state.civilizations.get(pop.civilization_id);
+        delta.added.push({
+          id: pop.id,
+          cell_id: pop.cell_id,
+          x: cell?.x ?? 0,
+          y: cell?.y ?? 0,
+          civilization_name: civ?.name ?? null,
+          civilization_color: civ?.color ?? null,
+          ...current
+        });
+        continue;
+      }
+
+      const change: PopulationChange = { id: pop.id };
+      let differs = false;
+      for (const field of POPULATION_FIELDS) {
+        if (current[field] !== previous[field]) {
+          assign(change, field, current[field]);
+          differs = true;
+        }
+      }
+      if (differs) delta.changed.push(change);
+    }
+
+    const civValues = civilizationValues(state);
+    for (const civ of state.civilizations.values()) {
+      const current = { ...civValues.get(civ.id)!, name: civ.name, color: civ.color, status: civ.status, end_year: civ.end_year };
+      const previous = this.civilizations.get(civ.id);
+      const change: CivilizationChange = { id: civ.id };
+      let differs = false;
+      for (const field of Object.keys(current) as (keyof typeof current)[]) {
+        if (!previous || current[field] !== previous[field]) {
+          assign(change, field, current[field]);
+          differs = true;
+        }
+      }
+      this.civilizations.set(civ.id, current);
+      if (differs) delta.civilizations.push(change);
+    }
+
+    return isEmpty(delta) ? null : delta;
+  }
+}
@@ -0,0 +1,236 @@
+// Relations between civilizations. Once a year every pair that shares a border (or already
+// knows each other) reconsiders its opinion of the other: like-minded neighbors warm up,
+// xenophobes chafe at long borders, trade and alliances build goodwill and wars poison it.
+// Opinion then drives treaties (non-aggression pacts, trade agreements, alliances) and wars,
+// which in turn make fighting and the spread of ideas more or less likely.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, PopulationState, RelationState } from './state.js';
+import { Topology } from '../worldgen/topology.js';
+import { compareIds } from '../storage/types.js';
+import { IDEOLOGY_FIELDS } from './ideology.js';
+
+export type Treaty = 'non_aggression' | 'alliance' | 'trade';
+
+export interface DiplomaticAction {
+  action: 'war_declared' | 'peace' | 'treaty_signed' | 'treaty_ended' | 'treaty_broken';
+  civ_a: string;
+  civ_b: string;
+  treaty?: Treaty;
+  // Who declared the war
+  aggressor?: string;
+  // Set when a civilization went to war to stand by this ally
+  ally_of?: string;
+}
+
+// Opinions fade toward indifference by this share each year
+const OPINION_DECAY = 0.03;
+// Ideology distance (0-100) at which neighbors neither warm up nor cool down
+const TOLERATED_DISTANCE = 20;
+// Opinion a fresh war costs, and a peace treaty earns back
+const WAR_GRIEVANCE = 20;
+const PEACE_GOODWILL = 10;
+
+interface CivProfile {
+  people: number;
+  ideology: number[];
+  war_tendency: number;
+}
+
+// Population-weighted outlook of each civilization with anyone still alive
+function civProfiles(state: WorldState): Map<string, CivProfile> {
+  const profiles = new Map<string, CivProfile>();
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0) continue;
+    const profile = profiles.get(pop.civilization_id) || { people: 0, ideology: [0, 0, 0, 0], war_tendency: 0 };
+    profile.people += pop.population_size;
+    IDEOLOGY_FIELDS.forEach((field, i) => profile.ideology[i] += pop[field] * pop.population_size);
+    profile.war_tendency += pop.war_tendency * pop.population_size;
+    profiles.set(pop.civilization_id, profile);
+  }
+  for (const profile of profiles.values()) {
+    profile.ideology = profile.ideology.map(value => value / profile.people);
+    profile.war_tendency /= profile.people;
+  }
+  return profiles;
+}
+
+const pairKey = (a: string, b: string) => compareIds(a, b) < 0 ? `${a}:${b}` : `${b}:${a}`;
+
+// How many places each pair of civilizations meets: shared cells and neighboring ones
+function borderContacts(state: WorldState, topology: Topology): Map<string, number> {
+  const byCell = new Map<string, PopulationState[]>();
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0) continue;
+    const pops = byCell.get(pop.cell_id) || [];
+    pops.push(pop);
+    byCell.set(pop.cell_id, pops);
+  }
+
+  const contacts = new Map<string, number>();
+  for (const [cellId, pops] of byCell) {
+    const nearby = [cellId, ...topology.neighbors(cellId)].flatMap(id => byCell.get(id) || []);
+    for (const pop of pops) {
+      for (const other of nearby) {
+        // Each meeting is seen from both sides; only count it from the lower id
+        if (compareIds(pop.civilization_id, other.civilization_id) >= 0) continue;
+        const key = pairKey(pop.civilization_id, other.civilization_id);
+        contacts.set(key, (contacts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  return contacts;
+}
+
+export function hasTreaty(relation: RelationState | null, treaty: Treaty): boolean {
+  return !!relation && relation.treaties.includes(treaty);
+}
+
+// Multiplier on the chance that two civilizations sharing a cell come to blows
+export function conflictFactor(relation: RelationState | null): number {
+  if (!relation) return 1;
+  if (relation.at_war) return 3;
+  if (hasTreaty(relation, 'alliance')) return 0;
+  let factor = 1;
+  if (hasTreaty(relation, 'non_aggression')) factor *= 0.2;
+  if (hasTreaty(relation, 'trade')) factor *= 0.5;
+  return factor;
+}
+
+// Multiplier on the chance that knowledge crosses from one civilization to another
+export function techSpreadFactor(relation: RelationState | null): number {
+  if (!relation) return 1;
+  if (relation.at_war) return 0.25;
+  let factor = 1;
+  if (hasTreaty(relation, 'trade')) factor *= 3;
+  if (hasTreaty(relation, 'alliance')) factor *= 2;
+  return factor;
+}
+
+// Shifts a relation's opinion, keeping it whole and within bounds
+export function adjustOpinion(state: WorldState, relation: RelationState, delta: number) {
+  relation.opinion = Math.round(Math.max(-100, Math.min(100, relation.opinion + delta)));
+  state.touchRelation(relation);
+}
+
+export function endWar(state: WorldState, relation: RelationState): DiplomaticAction {
+  relation.at_war = false;
+  relation.war_started_year = null;
+  adjustOpinion(state, relation, PEACE_GOODWILL);
+  return { action: 'peace', civ_a: relation.civ_a, civ_b: relation.civ_b };
+}
+
+function declareWar(state: WorldState, relation: RelationState, aggressor: string, year: number, allyOf?: string): DiplomaticAction {
+  relation.at_war = true;
+  relation.war_started_year = year;
+  relation.wars_fought += 1;
+  relation.treaties = [];
+  adjustOpinion(state, relation, -WAR_GRIEVANCE);
+  return { action: 'war_declared', civ_a: relation.civ_a, civ_b: relation.civ_b, aggressor, ...(allyOf ? { ally_of: allyOf } : {}) };
+}
+
+function sign(state: WorldState, relation: RelationState, treaty: Treaty): DiplomaticAction {
+  relation.treaties = [...relation.treaties, treaty].sort();
+  state.touchRelation(relation);
+  return { action: 'treaty_signed', civ_a: relation.civ_a, civ_b: relation.civ_b, treaty };
+}
+
+function drop(state: WorldState, relation: RelationState, treaty: Treaty, broken: boolean): DiplomaticAction {
+  relation.treaties = relation.treaties.filter(t => t !== treaty);
+  state.touchRelation(relation);
+  return { action: broken ? 'treaty_broken' : 'treaty_ended', civ_a: relation.civ_a, civ_b: relation.civ_b, treaty };
+}
+
+// One year of diplomacy between every pair of living civilizations that have met
+export function runDiplomacyYear(state: WorldState, topology: Topology, rng: SeededRandom, year: number): DiplomaticAction[] {
+  const profiles = civProfiles(state);
+  const contacts = borderContacts(state, topology);
+  for (const key of contacts.keys()) {
+    const [a, b] = key.split(':');
+    state.relation(a, b);
+  }
+
+  const actions: DiplomaticAction[] = [];
+  // Sorted so a reloaded world, whose map fills in load order, decides in the same order
+  const relations = [...state.relations.values()]
+    .sort((x, y) => compareIds(x.civ_a, y.civ_a) || compareIds(x.civ_b, y.civ_b));
+
+  for (const relation of relations) {
+    const a = profiles.get(relation.civ_a);
+    const b = profiles.get(relation.civ_b);
+    if (!a || !b) {
+      // Nobody left to fight on one side
+      if (relation.at_war) actions.push(endWar(state, relation));
+      continue;
+    }
+
+    const contact = contacts.get(`${relation.civ_a}:${relation.civ_b}`) ?? 0;
+    const distance = a.ideology.reduce((sum, value, i) => sum + Math.abs(value - b.ideology[i]), 0) / a.ideology.length;
+    const xenophobia = (a.ideology[3] + b.ideology[3]) / 200;
+
+    let drift = (TOLERATED_DISTANCE - distance) * 0.1;
+    drift -= xenophobia * Math.min(3, contact);
+    if (hasTreaty(relation, 'trade')) drift += 2;
+    if (hasTreaty(relation, 'alliance')) drift += 1;
+    if (relation.at_war) drift -= 3;
+    adjustOpinion(state, relation, drift - relation.opinion * OPINION_DECAY);
+
+    const opinion = relation.opinion;
+    const warlike = (a.war_tendency + b.war_tendency) / 200;
+
+    if (relation.at_war) {
+      // Wars wear both sides down; without a front they fizzle out
+      const years = year - (relation.war_started_year ?? year);
+      const peaceChance = contact === 0 ? 0.5 : 0.05 + 0.05 * years + Math.max(0, opinion) / 200;
+      if (rng.next() < peaceChance) actions.push(endWar(state, relation));
+      continue;
+    }
+    if (contact === 0) continue;
+
+    // Treaties lapse once the goodwill behind them is gone; a pact is broken outright
+    if (hasTreaty(relation, 'trade') && opinion < -10) actions.push(drop(state, relation, 'trade', false));
+    if (hasTreaty(relation, 'alliance') && opinion < 20) actions.push(drop(state, relation, 'alliance', false));
+    if (hasTreaty(relation, 'non_aggression') && opinion < -70 && rng.next() < warlike) {
+      actions.push(drop(state, relation, 'non_aggression', true));
+    }
+
+    if (opinion < -40 && !hasTreaty(relation, 'non_aggression')) {
+      if (rng.next() < warlike * (-opinion - 40) / 60 * 0.5) {
+        const aggressor = a.war_tendency >= b.war_tendency ? relation.civ_a : relation.civ_b;
+        const defender = aggressor === relation.civ_a ? relation.civ_b : relation.civ_a;
+        actions.push(declareWar(state, relation, aggressor, year));
+        actions.push(...callAllies(state, aggressor, defender, year));
+      }
+      continue;
+    }
+
+    if (opinion > 15 && !hasTreaty(relation, 'trade') && rng.next() < 0.2) {
+      actions.push(sign(state, relation, 'trade'));
+    }
+    if (opinion > 0 && !hasTreaty(relation, 'non_aggression') && rng.next() < 0.1) {
+      actions.push(sign(state, relation, 'non_aggression'));
+    }
+    if (opinion > 50 && distance < 25 && !hasTreaty(relation, 'alliance') && rng.next() < 0.1) {
+      actions.push(sign(state, relation, 'alliance'));
+    }
+  }
+
+  return actions;
+}
+
+// The defender's allies join in, unless they are allied to the aggressor too
+function callAllies(state: WorldState, aggressor: string, defender: string, year: number): DiplomaticAction[] {
+  const actions: DiplomaticAction[] = [];
+  const allies = [...state.relations.values()]
+    .filter(r => hasTreaty(r, 'alliance') && (r.civ_a === defender || r.civ_b === defender))
+    .map(r => r.civ_a === defender ? r.civ_b : r.civ_a)
+    .filter(ally => ally !== aggressor)
+    .sort(compareIds);
+
+  for (const ally of allies) {
+    const relation = state.relation(ally, aggressor);
+    if (relation.at_war || hasTreaty(relation, 'alliance')) continue;
+    actions.push(declareWar(state, relation, ally, year, defender));
+  }
+  return actions;
+}
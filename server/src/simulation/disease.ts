@@ -0,0 +1,233 @@
+// Epidemics. Every disease runs a susceptible-infected-recovered course in each population
+// it reaches, once a tick: the infected pass it on to the people they meet — their own
+// population first, then others sharing the cell, the cells next door and trading partners
+// along their routes — and after a while recover, immune for some years, or die. Migrants
+// carry it with them. Technology and education blunt both the spread and the toll. A
+// disease that runs out of people to infect is over. Now and then a new one emerges
+// where people crowd together; aliens can design their own.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, PopulationState, DiseaseState } from './state.js';
+import { Topology } from '../worldgen/topology.js';
+
+export type DiseaseTraits = Pick<DiseaseState, 'transmissibility' | 'lethality' | 'duration' | 'immunity'>;
+
+export interface DiseaseTick {
+  // New cases and deaths per disease this tick
+  cases: Map<string, number>;
+  deaths: Map<string, number>;
+  ended: DiseaseState[];
+}
+
+// Bounds on what a disease can be, alien-made or not
+export const TRAIT_LIMITS: Record<keyof DiseaseTraits, [number, number]> = {
+  transmissibility: [0.01, 1],
+  lethality: [0, 0.9],
+  duration: [1, 60],
+  immunity: [0, 100]
+};
+
+// How much the infected meet people outside their own population: others in the cell,
+// people in each neighboring cell, and trading partners
+const CELL_CONTACT = 0.5;
+const NEIGHBOR_CONTACT = 0.05;
+const TRADE_CONTACT = 0.1;
+// Most of the spread and the toll medicine and hygiene can take away
+const MAX_MITIGATION = 0.8;
+// Yearly chance a new disease emerges somewhere, and the fewest people it takes
+const EMERGENCE_CHANCE = 0.02;
+const EMERGENCE_CROWD = 5000;
+// Share of the people in the first cell who catch it at the outset
+const OUTBREAK_SHARE = 0.01;
+
+const NAME_ADJECTIVES = ['Red', 'Grey', 'Black', 'Sweating', 'Shaking', 'Weeping', 'Spotted', 'Swamp', 'Dancing', 'Sleeping'];
+const NAME_NOUNS = ['Fever', 'Plague', 'Pox', 'Cough', 'Flux', 'Sickness', 'Blight', 'Rot'];
+
+// Whole people only; rounding at random lets small rates still infect and kill
+function stochasticRound(value: number, rng: SeededRandom): number {
+  return Math.floor(value + rng.next());
+}
+
+// Share of a disease's spread and lethality a population is spared by its tech and schooling
+export function mitigation(pop: PopulationState): number {
+  return Math.min(MAX_MITIGATION, pop.tech_level * 0.06 + pop.education / 100 * 0.3);
+}
+
+export function clampTraits(traits: Partial<DiseaseTraits>, defaults: DiseaseTraits): DiseaseTraits {
+  const clamp = (key: keyof DiseaseTraits) => {
+    const value = Number(traits[key]);
+    const [min, max] = TRAIT_LIMITS[key];
+    return Math.max(min, Math.min(max, Number.isFinite(value) ? value : defaults[key]));
+  };
+  return {
+    transmissibility: Math.round(clamp('transmissibility') * 10000) / 10000,
+    lethality: Math.round(clamp('lethality') * 10000) / 10000,
+    duration: Math.round(clamp('duration')),
+    immunity: Math.round(clamp('immunity'))
+  };
+}
+
+export function diseaseName(state: WorldState, rng: SeededRandom): string {
+  const taken = new Set([...state.diseases.values()].map(d => d.name));
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const name = `${rng.pick(NAME_ADJECTIVES)} ${rng.pick(NAME_NOUNS)}`;
+    if (!taken.has(name)) return name;
+  }
+  return `${rng.pick(NAME_ADJECTIVES)} ${rng.pick(NAME_NOUNS)} ${2 + rng.int(98)}`;
+}
+
+// Starts a disease in a cell: a share of everyone living there falls ill.
+// Returns the people infected; nothing happens in an empty cell.
+export function outbreak(state: WorldState, disease: DiseaseState, cellId: string): number {
+  let infected = 0;
+  for (const pop of state.populationsInCell(cellId)) {
+    if (pop.population_size <= 0) continue;
+    const current = state.infection(pop.id, disease.id);
+    const cases = Math.max(1, Math.floor(pop.population_size * OUTBREAK_SHARE));
+    const susceptible = pop.population_size - current.infected - current.recovered;
+    const caught = Math.min(cases, Math.max(0, susceptible));
+    if (caught === 0) continue;
+    state.setInfection(pop.id, disease.id, current.infected + caught, current.recovered);
+    infected += caught;
+  }
+  if (infected > 0) {
+    disease.cases += infected;
+    state.touchDisease(disease);
+  }
+  return infected;
+}
+
+// Migrants take their share of every infection and immunity with them
+export function carryInfections(state: WorldState, from: PopulationState, to: PopulationState, people: number) {
+  const here = state.infections.get(from.id);
+  if (!here || from.population_size <= 0) return;
+  const share = Math.min(1, people / from.population_size);
+  for (const [diseaseId, { infected, recovered }] of [...here.entries()]) {
+    const movedInfected = Math.floor(infected * share);
+    const movedRecovered = Math.floor(recovered * share);
+    if (movedInfected === 0 && movedRecovered === 0) continue;
+    const there = state.infection(to.id, diseaseId);
+    state.setInfection(from.id, diseaseId, infected - movedInfected, recovered - movedRecovered);
+    state.setInfection(to.id, diseaseId, there.infected + movedInfected, there.recovered + movedRecovered);
+  }
+}
+
+// One tick of every active disease
+export function runDiseaseTick(state: WorldState, topology: Topology, rng: SeededRandom): DiseaseTick {
+  const result: DiseaseTick = { cases: new Map(), deaths: new Map(), ended: [] };
+  if (state.diseases.size === 0) return result;
+
+  const living = [...state.populations.values()].filter(p => p.population_size > 0);
+  const cellPeople = new Map<string, number>();
+  for (const pop of living) {
+    cellPeople.set(pop.cell_id, (cellPeople.get(pop.cell_id) ?? 0) + pop.population_size);
+  }
+  const partners = new Map<string, string[]>();
+  for (const route of state.tradeRoutes.values()) {
+    partners.set(route.pop_a, [...(partners.get(route.pop_a) || []), route.pop_b]);
+    partners.set(route.pop_b, [...(partners.get(route.pop_b) || []), route.pop_a]);
+  }
+
+  for (const disease of [...state.diseases.values()]) {
+    if (disease.status !== 'active') continue;
+
+    // Share of each population and cell infected as the tick began; people lost to other
+    // causes since the last tick take their share of the infected and immune with them
+    const prevalence = new Map<string, number>();
+    const cellInfected = new Map<string, number>();
+    for (const pop of living) {
+      let { infected, recovered } = state.infection(pop.id, disease.id);
+      if (infected + recovered > pop.population_size) {
+        infected = Math.min(infected, pop.population_size);
+        recovered = pop.population_size - infected;
+        state.setInfection(pop.id, disease.id, infected, recovered);
+      }
+      if (infected === 0) continue;
+      prevalence.set(pop.id, infected / pop.population_size);
+      cellInfected.set(pop.cell_id, (cellInfected.get(pop.cell_id) ?? 0) + infected);
+    }
+    const cellPrevalence = new Map([...cellInfected].map(([cellId, infected]) => [cellId, infected / cellPeople.get(cellId)!]));
+
+    let cases = 0, deaths = 0, active = 0;
+    for (const pop of living) {
+      const { infected, recovered } = state.infection(pop.id, disease.id);
+      const own = prevalence.get(pop.id) ?? 0;
+      const others = cellPeople.get(pop.cell_id)! - pop.population_size;
+      const cellOthers = others > 0 ? ((cellInfected.get(pop.cell_id) ?? 0) - infected) / others : 0;
+      const neighbors = topology.neighbors(pop.cell_id).reduce((sum, id) => sum + (cellPrevalence.get(id) ?? 0), 0);
+      const trade = (partners.get(pop.id) || []).reduce((sum, id) => sum + (prevalence.get(id) ?? 0), 0);
+      const exposure = own + CELL_CONTACT * cellOthers + NEIGHBOR_CONTACT * neighbors + TRADE_CONTACT * trade;
+      if (exposure === 0 && infected === 0) continue;
+
+      const spared = 1 - mitigation(pop);
+      const susceptible = Math.max(0, pop.population_size - infected - recovered);
+      const caught = Math.min(susceptible,
+        stochasticRound(susceptible * (1 - Math.exp(-disease.transmissibility * spared * exposure)), rng));
+      const over = Math.min(infected, stochasticRound(infected / disease.duration, rng));
+      const died = Math.min(over, stochasticRound(over * disease.lethality * spared, rng));
+      // Without lasting immunity survivors can catch it again at once
+      const immune = disease.immunity > 0 ? recovered + over - died : 0;
+
+      if (died > 0) {
+        pop.population_size -= died;
+        state.touchPopulation(pop);
+      }
+      state.setInfection(pop.id, disease.id, infected + caught - over, immune);
+      cases += caught;
+      deaths += died;
+      active += infected + caught - over;
+    }
+
+    if (cases > 0 || deaths > 0) {
+      disease.cases += cases;
+      disease.deaths += deaths;
+      state.touchDisease(disease);
+      result.cases.set(disease.id, cases);
+      result.deaths.set(disease.id, deaths);
+    }
+    if (active === 0) result.ended.push(disease);
+  }
+  return result;
+}
+
+// Clears a disease that has died out from every population, immunity and all
+export function endDisease(state: WorldState, disease: DiseaseState, year: number) {
+  for (const popId of [...state.infections.keys()]) {
+    if (state.infections.get(popId)!.has(disease.id)) state.setInfection(popId, disease.id, 0, 0);
+  }
+  disease.status = 'ended';
+  disease.end_year = year;
+  state.touchDisease(disease);
+}
+
+// A year of immunity wearing off: survivors of a disease lose it over `immunity` years
+export function waneImmunity(state: WorldState, rng: SeededRandom) {
+  for (const disease of state.diseases.values()) {
+    if (disease.status !== 'active' || disease.immunity === 0) continue;
+    for (const pop of state.populations.values()) {
+      const { infected, recovered } = state.infection(pop.id, disease.id);
+      if (recovered === 0) continue;
+      const lost = Math.min(recovered, stochasticRound(recovered / disease.immunity, rng));
+      if (lost > 0) state.setInfection(pop.id, disease.id, infected, recovered - lost);
+    }
+  }
+}
+
+// Now and then a new disease emerges among the crowded, the larger the crowd the likelier;
+// returns the population it broke out in
+export function emergence(state: WorldState, rng: SeededRandom): PopulationState | null {
+  if (rng.next() >= EMERGENCE_CHANCE) return null;
+  const crowds = [...state.populations.values()].filter(p => p.population_size >= EMERGENCE_CROWD);
+  if (crowds.length === 0) return null;
+  return rng.weightedPick(crowds, p => p.population_size);
+}
+
+// Traits of a disease that emerged on its own
+export function naturalTraits(rng: SeededRandom): DiseaseTraits {
+  return {
+    transmissibility: Math.round((0.1 + rng.next() * 0.4) * 10000) / 10000,
+    lethality: Math.round((0.01 + rng.next() * 0.29) * 10000) / 10000,
+    duration: 5 + rng.int(16),
+    immunity: 5 + rng.int(46)
+  };
+}
@@ -0,0 +1,144 @@
+// Wildlife. Once a year every cell's species go through a Lotka–Volterra-style round:
+// producers regrow toward what the habitat supports, consumers eat what sits below them
+// in the food chain and breed in proportion to how well they ate, and everything dies
+// off at a rate set by its lifespan. Thriving species spill into neighboring cells and
+// thinned-out ones vanish locally. People hunt, fish and gather what is edible.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, CellState, SpeciesState } from './state.js';
+import { compareIds } from '../storage/types.js';
+
+// Below this a species dies out in the cell
+const EXTINCTION_DENSITY = 5;
+const MAX_DENSITY = 10000;
+// Producer density a cell of ideal habitat supports
+const PRODUCER_CAPACITY = 1000;
+interface Diet {
+  prey: string[];
+  // Prey density at which the consumer is half fed
+  halfSaturation: number;
+  // Prey eaten per year per point of density when fully fed
+  appetite: number;
+  // Most the consumer's density can reach relative to its prey's; keeps predators from overshooting
+  ratio: number;
+  // Share of a full diet found scavenging whatever is around, prey or not
+  foraging: number;
+}
+
+const DIET: Record<string, Diet> = {
+  herbivore: { prey: ['producer'], halfSaturation: 100, appetite: 0.25, ratio: 0.2, foraging: 0 },
+  omnivore: { prey: ['producer', 'herbivore'], halfSaturation: 200, appetite: 0.25, ratio: 0.3, foraging: 0.5 },
+  predator: { prey: ['herbivore', 'omnivore'], halfSaturation: 20, appetite: 0.8, ratio: 0.15, foraging: 0 }
+};
+// Yearly deaths from old age, as a share of 1 / lifespan: most animals are eaten or starve first
+const OLD_AGE = 0.5;
+// Extra yearly deaths in a habitat the species isn't suited to
+const MISMATCH_MORTALITY = 0.2;
+// Species this dense send a share of themselves to a neighboring cell
+const DISPERSAL_DENSITY = 50;
+const DISPERSAL_SHARE = 0.1;
+// Food units (per unit of cell area, like stocks) per point of density people can take
+const GAME_YIELD: Record<string, number> = { producer: 0.005, herbivore: 0.02, omnivore: 0.02, predator: 0 };
+// Most of a cell's game people can take in a year
+const MAX_HUNTED_SHARE = 0.5;
+
+// How well a cell suits a species, 0-1
+export function habitatSuitability(species: SpeciesState, biome: string): number {
+  if (species.habitat_preferences.length === 0) return 0.7;
+  return species.habitat_preferences.includes(biome) ? 1 : 0.25;
+}
+
+// Species with no stated habitat stay on land or in the sea, wherever they were found
+function canSpreadTo(species: SpeciesState, from: CellState, to: CellState): boolean {
+  if (species.habitat_preferences.length > 0) return species.habitat_preferences.includes(to.biome);
+  return (from.biome === 'ocean') === (to.biome === 'ocean');
+}
+
+// One year of grazing, predation, breeding and dying in a cell, then dispersal
+export function runEcosystemYear(state: WorldState, cell: CellState, neighbors: CellState[], rng: SeededRandom) {
+  const here = state.speciesInCell(cell.id);
+  // Sorted so a reloaded world, whose maps fill in load order, draws random numbers the same way
+  const ids = [...here.keys()].filter(id => state.species.has(id)).sort(compareIds);
+  if (ids.length === 0) return;
+
+  // Everyone reacts to the densities at the start of the year
+  const density = new Map(ids.map(id => [id, here.get(id)!]));
+  const next = new Map(density);
+  const levelOf = (id: string) => state.species.get(id)!.trophic_level;
+
+  for (const id of ids) {
+    const species = state.species.get(id)!;
+    const current = density.get(id)!;
+    const suitability = habitatSuitability(species, cell.biome);
+
+    if (species.trophic_level === 'producer') {
+      const capacity = PRODUCER_CAPACITY * suitability;
+      next.set(id, next.get(id)! + species.reproduction_rate * current * (1 - current / capacity));
+      continue;
+    }
+
+    const diet = DIET[species.trophic_level];
+    if (!diet) continue;
+    const prey = ids.filter(p => p !== id && diet.prey.includes(levelOf(p)));
+    const food = prey.reduce((sum, p) => sum + density.get(p)!, 0);
+    const intake = Math.max(diet.foraging, food / (food + diet.halfSaturation));
+    const supported = Math.max(food, diet.foraging * diet.halfSaturation * 2) * diet.ratio;
+
+    // Prey is taken in proportion to how much of each there is
+    const eaten = Math.min(food, current * diet.appetite * intake);
+    for (const p of prey) {
+      next.set(p, next.get(p)! - eaten * density.get(p)! / food);
+    }
+
+    const births = species.reproduction_rate * current * intake * suitability * Math.max(0, 1 - current / supported);
+    const deaths = current * OLD_AGE / Math.max(1, species.lifespan) + current * (1 - suitability) * MISMATCH_MORTALITY;
+    next.set(id, next.get(id)! + births - deaths);
+  }
+
+  // Densities are whole numbers; rounding at random keeps small changes from always
+  // rounding away, which would freeze sparse species in place
+  for (const id of ids) {
+    const value = Math.floor(Math.max(0, Math.min(MAX_DENSITY, next.get(id)!)) + rng.next());
+    if (value < EXTINCTION_DENSITY) {
+      state.setSpeciesDensity(cell.id, id, 0);
+    } else if (value !== density.get(id)) {
+      state.setSpeciesDensity(cell.id, id, value);
+    }
+  }
+
+  // Fast breeders spread more often
+  for (const id of ids) {
+    const species = state.species.get(id)!;
+    const current = state.speciesInCell(cell.id).get(id) ?? 0;
+    if (current < DISPERSAL_DENSITY || rng.next() >= species.reproduction_rate) continue;
+
+    const targets = neighbors.filter(n => canSpreadTo(species, cell, n));
+    if (targets.length === 0) continue;
+    const target = rng.pick(targets);
+    const movers = Math.floor(current * DISPERSAL_SHARE);
+    state.setSpeciesDensity(cell.id, id, current - movers);
+    state.setSpeciesDensity(target.id, id, (state.speciesInCell(target.id).get(id) ?? 0) + movers);
+  }
+}
+
+// Food people can hunt, fish and gather in a cell, per unit of area
+export function wildFood(state: WorldState, cellId: string): number {
+  let food = 0;
+  for (const [id, density] of state.speciesInCell(cellId)) {
+    const species = state.species.get(id);
+    if (species) food += density * (GAME_YIELD[species.trophic_level] ?? 0);
+  }
+  return food;
+}
+
+// People took this share of the cell's wild food; the edible species thin out to match
+export function hunt(state: WorldState, cellId: string, share: number) {
+  const taken = Math.min(MAX_HUNTED_SHARE, share);
+  if (taken <= 0) return;
+  for (const [id, density] of [...state.speciesInCell(cellId)]) {
+    const species = state.species.get(id);
+    if (!species || !GAME_YIELD[species.trophic_level]) continue;
+    const remaining = Math.floor(density * (1 - taken));
+    state.setSpeciesDensity(cellId, id, remaining < EXTINCTION_DENSITY ? 0 : remaining);
+  }
+}
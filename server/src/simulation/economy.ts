@@ -0,0 +1,149 @@
+// Per-cell resource stocks and what populations do to them.
+// Food and water stocks are what the land currently yields per year: overuse degrades
+// them and they recover toward capacity once the pressure lets up. Minerals and energy
+// are deposits that extraction draws down and that refill slowly (wood) or barely at all.
+// Like the capacities, stocks are per unit of cell area. Wild game and plants
+// (ecology.ts) add to the food on offer and are eaten alongside the harvest.
+
+import { CellState, PopulationState } from './state.js';
+import { governanceEfficiency } from './ideology.js';
+
+// People one unit of food or water keeps going for a year at tech level 0
+export const PEOPLE_PER_UNIT = 100;
+export const MAX_INFRASTRUCTURE = 100;
+
+// Share of the gap to capacity regained per year by land that isn't being used
+const FOOD_RECOVERY = 0.3;
+const WATER_RECOVERY = 0.5;
+// Wood regrows; coal, oil and ore mostly don't
+const ENERGY_REGROWTH = 0.02;
+const MINERAL_REGROWTH = 0.002;
+// Share of the yield lost per unit of use beyond what the land gives
+const OVERUSE_DAMAGE = 0.15;
+const INFRASTRUCTURE_DECAY = 0.05;
+
+// Share of a population's needs met this year, 0-1
+export interface PopulationSupply {
+  food: number;
+  water: number;
+  minerals: number;
+  energy: number;
+}
+
+export interface ResourceYear {
+  supply: Map<string, PopulationSupply>;
+  // Share of the cell's wild food that was eaten
+  hunted: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// People fed per unit of food; better tools and techniques stretch every harvest
+export function foodYield(techLevel: number, efficiency: number): number {
+  return (1 + techLevel * 0.5) * efficiency;
+}
+
+export function waterYield(techLevel: number, efficiency: number): number {
+  return (1 + techLevel * 0.25) * efficiency;
+}
+
+// What is taken from the land per unit actually used: waste, overgrazing, pollution
+function drawFactor(pop: PopulationState): number {
+  return pop.environmental_impact * (1 + pop.tech_level * 0.1);
+}
+
+// People the cell's current food (harvest plus wild food) and water can sustain at this tech
+// level; foodModifier is what events (events.ts) do to the yield
+export function carryingCapacity(cell: CellState, techLevel: number, efficiency: number, area: number, wildFood = 0, foodModifier = 1): number {
+  const food = (cell.food_stock + wildFood) * foodYield(techLevel, efficiency) * foodModifier;
+  const water = cell.water_stock * waterYield(techLevel, efficiency);
+  const infrastructureBonus = 1 + (cell.infrastructure / MAX_INFRASTRUCTURE) * 0.5;
+  return Math.floor(Math.min(food, water) * PEOPLE_PER_UNIT * area * infrastructureBonus);
+}
+
+// 0 while food and water are at capacity, 1 once either has run out
+export function depletion(cell: CellState): number {
+  const food = cell.food_capacity > 0 ? cell.food_stock / cell.food_capacity : 1;
+  const water = cell.water_capacity > 0 ? cell.water_stock / cell.water_capacity : 1;
+  return 1 - Math.min(1, food, water);
+}
+
+// Yield after a year of use: damaged if drawn past what it gives, recovering otherwise
+function renew(stock: number, capacity: number, drawn: number, recovery: number): number {
+  const use = stock > 0 ? drawn / stock : 0;
+  if (use > 1) return stock * Math.max(0, 1 - (use - 1) * OVERUSE_DAMAGE);
+  return stock + (capacity - stock) * recovery * (1 - use);
+}
+
+// One year of harvesting, extraction, building and regrowth in a cell. Populations sharing
+// the cell split what there is in proportion to what each of them needs; foodModifier is
+// what events do to each one's yield.
+export function runResourceYear(
+  cell: CellState,
+  pops: PopulationState[],
+  area: number,
+  wildFood = 0,
+  foodModifier: (pop: PopulationState) => number = () => 1
+): ResourceYear {
+  const supply = new Map<string, PopulationSupply>();
+  const food = cell.food_stock + wildFood;
+  // Fields and the wild are eaten from in proportion to what each offers
+  const farmedShare = food > 0 ? cell.food_stock / food : 1;
+
+  const needs = pops.filter(pop => pop.population_size > 0).map(pop => {
+    const people = pop.population_size / (PEOPLE_PER_UNIT * area);
+    const draw = drawFactor(pop);
+    const efficiency = pop.resource_efficiency * governanceEfficiency(pop);
+    // Tools and machines: nothing in the Stone Age, more with every level after
+    const industry = people * pop.tech_level / efficiency;
+    return {
+      pop,
+      people,
+      draw,
+      food: people / (foodYield(pop.tech_level, efficiency) * foodModifier(pop)),
+      water: people / waterYield(pop.tech_level, efficiency),
+      minerals: industry * 0.01 * draw,
+      energy: industry * 0.02 * draw
+    };
+  });
+  const sum = (key: 'food' | 'water' | 'minerals' | 'energy') => needs.reduce((total, need) => total + need[key], 0);
+  const share = (available: number, needed: number) => needed > 0 ? Math.min(1, available / needed) : 1;
+  const foodShare = share(food, sum('food'));
+  const waterShare = share(cell.water_stock, sum('water'));
+  const mineralShare = share(cell.mineral_stock, sum('minerals'));
+  const energyShare = share(cell.energy_stock, sum('energy'));
+
+  let foodEaten = 0;
+  let foodDrawn = 0;
+  let waterDrawn = 0;
+  let built = 0;
+
+  for (const need of needs) {
+    foodEaten += need.food * foodShare;
+    foodDrawn += need.food * foodShare * farmedShare * need.draw;
+    waterDrawn += need.water * waterShare * need.draw;
+    cell.mineral_stock -= need.minerals * mineralShare;
+    cell.energy_stock -= need.energy * energyShare;
+
+    const result: PopulationSupply = {
+      food: foodShare,
+      water: waterShare,
+      minerals: mineralShare,
+      energy: energyShare
+    };
+    supply.set(need.pop.id, result);
+
+    // Whatever industry is supplied goes into roads, ports and networks
+    built += need.pop.tech_level * 0.5 * Math.min(result.minerals, result.energy) * Math.min(1, need.people / 50);
+  }
+
+  // Kept at the precision of the database columns so a reload resumes exactly
+  cell.food_stock = round2(renew(cell.food_stock, cell.food_capacity, foodDrawn, FOOD_RECOVERY));
+  cell.water_stock = round2(renew(cell.water_stock, cell.water_capacity, waterDrawn, WATER_RECOVERY));
+  cell.mineral_stock = round2(cell.mineral_stock + (cell.mineral_capacity - cell.mineral_stock) * MINERAL_REGROWTH);
+  cell.energy_stock = round2(cell.energy_stock + (cell.energy_capacity - cell.energy_stock) * ENERGY_REGROWTH);
+  cell.infrastructure = round2(Math.min(MAX_INFRASTRUCTURE, cell.infrastructure * (1 - INFRASTRUCTURE_DECAY) + built));
+
+  const hunted = wildFood > 0 ? foodEaten * (1 - farmedShare) / wildFood : 0;
+  return { supply, hunted };
+}
@@ -0,0 +1,134 @@
+// How a world ends, or nearly does. A civilization whose people reach Post-Singularity
+// ascends: all of it leaves the map at once, and the world it leaves behind plays by
+// slightly different rules (the 'ascension' event). A world where nothing much has changed
+// for generations — population, civilizations and technology all flat — is stagnant: first
+// it gets a shake-up, and if that doesn't take, the players get to vote on a reset, which
+// starts it over as a newly generated world. A world with nobody left in it is finished,
+// and what became of it is written up in a post-mortem. The world's status follows along.
+
+import { WorldState, CivilizationState, PopulationState } from './state.js';
+import { SnapshotRecord, ResetVoteTally, compareIds } from '../storage/types.js';
+
+export type WorldStatus = 'running' | 'ascended' | 'stagnant' | 'voting' | 'finished';
+
+export interface PostMortem {
+  // 'extinction' or 'ascension' (the last people left the map)
+  reason: string;
+  year: number;
+  tick: number;
+  peak_population: number;
+  peak_year: number;
+  final_population: number;
+  highest_tech_level: number;
+  civilizations: {
+    id: string;
+    name: string;
+    founded_year: number;
+    end_year: number | null;
+    status: string;
+  }[];
+  // Species still living in the wild
+  surviving_species: number;
+  temperature_anomaly: number;
+  sea_level: number;
+}
+
+export const SINGULARITY_TECH = 9;
+// Years of history stagnation is judged over, and how much may change in them: the spread
+// of the population as a share of its peak, and of average tech level
+export const STAGNATION_YEARS = 100;
+const STAGNANT_POPULATION_SPREAD = 0.05;
+const STAGNANT_TECH_SPREAD = 0.1;
+// Years a shake-up gets to take before the players are asked, and years the vote stays open
+export const SHAKE_UP_YEARS = 50;
+export const VOTE_YEARS = 10;
+
+function living(state: WorldState): PopulationState[] {
+  return [...state.populations.values()].filter(p => p.population_size > 0);
+}
+
+export function isExtinct(state: WorldState): boolean {
+  return living(state).length === 0;
+}
+
+// The status a world goes back to once it stops stagnating
+export function settledStatus(state: WorldState): WorldStatus {
+  return [...state.civilizations.values()].some(c => c.status === 'ascended') ? 'ascended' : 'running';
+}
+
+// Civilizations with anyone at Post-Singularity; the singularity takes the rest with them
+export function ascendingCivilizations(state: WorldState): CivilizationState[] {
+  const ascending = new Set(living(state).filter(p => p.tech_level >= SINGULARITY_TECH).map(p => p.civilization_id));
+  return [...state.civilizations.values()]
+    .filter(c => c.status === 'active' && ascending.has(c.id))
+    .sort((a, b) => compareIds(a.id, b.id));
+}
+
+// Takes every one of the civilization's people off the map; returns how many left
+export function ascend(state: WorldState, civ: CivilizationState, year: number): number {
+  let people = 0;
+  for (const pop of living(state)) {
+    if (pop.civilization_id !== civ.id) continue;
+    people += pop.population_size;
+    pop.population_size = 0;
+    state.touchPopulation(pop);
+  }
+  civ.status = 'ascended';
+  civ.end_year = year;
+  civ.capital_cell_id = null;
+  state.touchCivilization(civ);
+  return people;
+}
+
+// Whether a stretch of yearly snapshots, oldest first, is a full STAGNATION_YEARS of
+// nothing much changing
+export function isStagnant(snapshots: SnapshotRecord[]): boolean {
+  const window = snapshots.slice(-STAGNATION_YEARS);
+  if (window.length < STAGNATION_YEARS) return false;
+
+  const population = window.map(s => s.total_population);
+  const peak = Math.max(...population);
+  if (peak === 0 || (peak - Math.min(...population)) / peak > STAGNANT_POPULATION_SPREAD) return false;
+  if (window.some(s => s.num_civilizations !== window[0].num_civilizations)) return false;
+  const tech = window.map(s => s.avg_tech_level);
+  return Math.max(...tech) - Math.min(...tech) <= STAGNANT_TECH_SPREAD;
+}
+
+// A reset needs more players for it than against it
+export function resetPassed(tally: ResetVoteTally): boolean {
+  return tally.in_favor > tally.against;
+}
+
+// What became of the world, from its state as it ends and the yearly snapshots of its history
+export function postMortem(
+  state: WorldState,
+  history: SnapshotRecord[],
+  reason: string,
+  tick: number,
+  year: number,
+  survivingSpecies: number,
+  // Highest tech level among populations already written off, which the state no longer holds
+  archivedTechLevel: number
+): PostMortem {
+  const finalPopulation = living(state).reduce((sum, p) => sum + p.population_size, 0);
+  const peak = history.reduce<{ population: number; year: number }>(
+    (best, s) => s.total_population > best.population ? { population: s.total_population, year: s.year } : best,
+    { population: finalPopulation, year }
+  );
+
+  return {
+    reason,
+    year,
+    tick,
+    peak_population: peak.population,
+    peak_year: peak.year,
+    final_population: finalPopulation,
+    highest_tech_level: [...state.populations.values()].reduce((max, p) => Math.max(max, p.tech_level), archivedTechLevel),
+    civilizations: [...state.civilizations.values()]
+      .sort((a, b) => a.founded_year - b.founded_year || compareIds(a.id, b.id))
+      .map(c => ({ id: c.id, name: c.name, founded_year: c.founded_year, end_year: c.end_year, status: c.status })),
+    surviving_species: survivingSpecies,
+    temperature_anomaly: state.climate.temperature_anomaly,
+    sea_level: state.climate.sea_level
+  };
+}
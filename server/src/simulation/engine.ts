@@ -1,90 +1,323 @@
-import { Server as SocketServer } from 'socket.io';
-import { db } from '../db/connection.js';
-
-interface CellState {
-  id: string;
-  x: number;
-  y: number;
-  biome: string;
-  food_capacity: number;
-  temperature: number;
-  moisture: number;
+import { SeededRandom } from './rng.js';
+import { WorldState, CellState, PopulationState, EventState, CivilizationState, RelationState, DiseaseState } from './state.js';
+import { Storage, ExperimentRecord, POPULATION_DEFAULTS, LIVE_WORLD_STATUSES, compareIds } from '../storage/types.js';
+import { postgresStorage } from '../storage/postgres.js';
+import { Topology, buildTopology, gridTypeOf } from '../worldgen/topology.js';
+import { generateWorld } from '../worldgen/generator.js';
+import { TickScheduler, CatchUpPolicy, SchedulerMetrics } from './scheduler.js';
+import { DeltaTracker, DELTA_RETENTION_TICKS } from './delta.js';
+import { PopulationSupply, runResourceYear, carryingCapacity, depletion } from './economy.js';
+import { runEcosystemYear, wildFood, hunt } from './ecology.js';
+import { runSecessionYear } from './secession.js';
+import { runTradeYear } from './trade.js';
+import { runClimateYear, shiftClimate } from './climate.js';
+import { runLandUseYear, setLandUse } from './landuse.js';
+import {
+  DiseaseTraits,
+  runDiseaseTick,
+  endDisease,
+  waneImmunity,
+  emergence,
+  naturalTraits,
+  clampTraits,
+  diseaseName,
+  outbreak,
+  carryInfections
+} from './disease.js';
+import { POLICIES, policyYears, civilizationOutlook, choosePolicy } from './policy.js';
+import {
+  EVENT_TYPES,
+  EventContext,
+  EventTarget,
+  ActiveModifiers,
+  NO_MODIFIERS,
+  checkEvent,
+  activeModifiers,
+  modifiersFor
+} from './events.js';
+import { YearExperience, runIdeologyYear, governanceEfficiency, innovation, welcome } from './ideology.js';
+import { DiplomaticAction, runDiplomacyYear, conflictFactor, techSpreadFactor, adjustOpinion, endWar } from './diplomacy.js';
+import {
+  WorldStatus,
+  STAGNATION_YEARS,
+  SHAKE_UP_YEARS,
+  VOTE_YEARS,
+  ascendingCivilizations,
+  ascend,
+  isExtinct,
+  isStagnant,
+  settledStatus,
+  resetPassed,
+  postMortem
+} from './endstates.js';
+
+const TECH_LEVELS = ['Stone Age', 'Bronze Age', 'Iron Age', 'Medieval', 'Renaissance', 'Industrial', 'Modern', 'Atomic', 'Digital', 'Post-Singularity'];
+export const TICKS_PER_YEAR = 60; // 1 minute = 1 year
+// Changed rows are written back in one batch every N ticks (and always at year end)
+const FLUSH_INTERVAL_TICKS = Number(process.env.SIMULATION_FLUSH_TICKS) || 5;
+const TICK_INTERVAL_MS = Number(process.env.SIMULATION_TICK_MS) || 2000;
+// What to do with ticks that fell behind schedule: skip, compress or slow
+const CATCH_UP_POLICY: CatchUpPolicy = ['skip', 'compress', 'slow'].includes(process.env.SIMULATION_CATCH_UP || '')
+  ? process.env.SIMULATION_CATCH_UP as CatchUpPolicy
+  : 'slow';
+const IDEOLOGY_AXES = ['collectivism', 'tradition', 'authoritarianism', 'xenophobia'];
+// Share of a population lost per year when food or water runs out entirely
+const STARVATION_RATE = 0.25;
+// Yearly share of a minority a fully open, conformist majority absorbs
+const ASSIMILATION_RATE = 0.1;
+// Combined xenophobia (0-1) past which a dominant majority starts driving minorities out,
+// and the share of the minority it drives out per year at full hostility
+const DISPLACEMENT_HOSTILITY = 0.6;
+const DISPLACEMENT_RATE = 0.2;
+// Minorities smaller than this are absorbed outright
+const MIN_MINORITY = 50;
+// Yearly chance of a battle for each cell along a war's front
+const BATTLE_CHANCE = 0.5;
+// Share of its people a hopelessly outmatched side loses in a battle
+const BATTLE_LOSSES = 0.2;
+// Stability lost by conquered people, and by a whole civilization that loses its capital
+const CONQUEST_UNREST = 30;
+const CAPITAL_LOSS_UNREST = 20;
+// Yearly chance a civilization without a capital settles on a new one
+const CAPITAL_RELOCATION_CHANCE = 0.5;
+// Yearly chance a civilization with no policy in force adopts one
+const POLICY_ADOPTION_CHANCE = 0.05;
+// What a pandemic is like when the player doesn't say
+const PANDEMIC_DEFAULTS: DiseaseTraits = { transmissibility: 0.3, lethality: 0.1, duration: 10, immunity: 20 };
+
+type IdeologyField = 'ideology_collectivism' | 'ideology_tradition' | 'ideology_authoritarianism' | 'ideology_xenophobia';
+
+// Anything with a socket.io-style emit; the socket server in production, a no-op for headless runs
+export interface SimulationBroadcaster {
+  emit(event: string, ...args: any[]): unknown;
 }
 
-interface PopulationState {
-  id: string;
-  cell_id: string;
-  civilization_id: string;
-  population_size: number;
-  tech_level: number;
-  stability: number;
-  prosperity: number;
-  education: number;
-  birth_rate: number;
-  death_rate: number;
-  ideology_collectivism: number;
-  ideology_tradition: number;
-  ideology_authoritarianism: number;
-  ideology_xenophobia: number;
-  war_tendency: number;
-  resource_efficiency: number;
-  environmental_impact: number;
+export interface SimulationOptions {
+  logTicks?: boolean;
+  // Called once the world has finished, after the tick that finished it. The engine keeps
+  // its schedule until stopped, so this is where the owner stops it (without awaiting the
+  // stop from inside the tick).
+  onFinished?: () => void;
 }
 
-const TECH_LEVELS = ['Stone Age', 'Bronze Age', 'Iron Age', 'Medieval', 'Renaissance', 'Industrial', 'Modern', 'Atomic', 'Digital', 'Post-Singularity'];
-const TICKS_PER_YEAR = 60; // 1 minute = 1 year
+function clamp(value: number, min = 0, max = 100): number {
+  return Math.max(min, Math.min(max, value));
+}
 
 export class SimulationEngine {
-  private io: SocketServer;
-  private tickInterval: NodeJS.Timeout | null = null;
+  private io: SimulationBroadcaster;
+  private scheduler: TickScheduler;
+  private reportedSpeed = 1;
+  // Database writes and broadcasts a tick produced, held back until it has gone through
+  private pendingWrites: ((tx: Storage) => Promise<void>)[] = [];
+  private outbox: [string, any][] = [];
+  // Wars and famines each population lived through this year, for ideology drift
+  private experiences = new Map<string, YearExperience>();
+  // What active events do to the rules this tick, worked out as it begins
+  private modifiers: ActiveModifiers = { global: NO_MODIFIERS, populations: new Map() };
+  private deltas = new DeltaTracker();
+  private needsReload = false;
   private currentTick = 0;
   private currentYear = 0;
-  private worldId: string | null = null;
+  // The tick the worlds row was at when last loaded or written
+  private savedTick = 0;
+  // The world's status and the year it took it on, kept in step with the worlds row
+  private status: WorldStatus = 'running';
+  private statusYear = 0;
+  // Set when the players voted to reset; the world starts over after the tick is written
+  private restartPending = false;
+  private readonly worldId: string;
   private isRunning = false;
-
-  constructor(io: SocketServer) {
+  private rng = new SeededRandom(0);
+  private state: WorldState | null = null;
+  private topology: Topology | null = null;
+  private storage: Storage;
+  private logTicks: boolean;
+  private onFinished?: () => void;
+
+  // One engine runs one world; SimulationManager keeps one per running world
+  constructor(
+    worldId: string,
+    io: SimulationBroadcaster,
+    storage: Storage = postgresStorage,
+    options: SimulationOptions = {}
+  ) {
+    this.worldId = worldId;
     this.io = io;
+    this.storage = storage;
+    this.logTicks = options.logTicks ?? true;
+    this.onFinished = options.onFinished;
+    this.scheduler = new TickScheduler(count => this.runScheduledTicks(count), TICK_INTERVAL_MS, CATCH_UP_POLICY);
   }
 
   async start() {
     try {
-      // Get the active world
-      const result = await db.query("SELECT id, current_tick, current_year FROM worlds WHERE status = 'running' LIMIT 1");
-      if (result.rows.length === 0) {
-        console.log('No active world found. Initialize database first.');
-        return;
-      }
-
-      this.worldId = result.rows[0].id;
-      this.currentTick = result.rows[0].current_tick;
-      this.currentYear = result.rows[0].current_year;
-      this.isRunning = true;
-
-      console.log(`🌍 Simulation started for world ${this.worldId} at tick ${this.currentTick} (year ${this.currentYear})`);
-
-      // Run simulation tick every 2 seconds (2 ticks per day)
-      this.tickInterval = setInterval(() => this.tick(), 2000);
-    } catch (error: any) {
-      // Database tables may not exist yet - this is OK, user needs to initialize
-      if (error.code === '42P01') {
-        console.log('⚠️ Database tables not found. Please initialize the database via /db-init.html');
+      if (await this.loadWorld()) {
+        console.log(`🌍 Simulation started for world ${this.worldId} at tick ${this.currentTick} (year ${this.currentYear})`);
       } else {
-        console.error('Simulation start error:', error);
+        console.log(`World ${this.worldId} is not running`);
       }
+    } catch (error) {
+      console.error('Simulation start error:', error);
     }
+
+    // Keep the schedule going even if loading failed so a later reload() picks the world up
+    this.isRunning = true;
+
+    // Run simulation tick every 2 seconds by default (2 ticks per day)
+    this.scheduler.start();
   }
 
-  stop() {
-    if (this.tickInterval) {
-      clearInterval(this.tickInterval);
-      this.tickInterval = null;
-    }
+  // Pass save = false when the world's rows are gone and there is nothing to write back to
+  async stop(save = true) {
     this.isRunning = false;
-    console.log('🛑 Simulation stopped');
+    // Let a tick that is still running finish before writing state out
+    await this.scheduler.stop();
+    try {
+      if (save) await this.flush();
+    } catch (error) {
+      console.error('Simulation flush error:', error);
+    }
+    console.log(`🛑 Simulation stopped for world ${this.worldId}`);
+  }
+
+  // Discards the in-memory world and reads it back from the database, between ticks.
+  // Call after anything outside the engine rewrites world rows (admin reset, regeneration, seeding).
+  async reload() {
+    try {
+      await this.scheduler.exclusive(() => this.loadWorld());
+      console.log(`🔄 Simulation reloaded world ${this.worldId}`);
+    } catch (error) {
+      console.error('Simulation reload error:', error);
+    }
   }
 
-  private async tick() {
-    if (!this.worldId || !this.isRunning) return;
+  // Runs work that rewrites the world's rows between ticks, then reads the world back
+  async rewrite<T>(work: () => Promise<T>): Promise<T> {
+    return this.scheduler.exclusive(async () => {
+      const result = await work();
+      await this.loadWorld();
+      return result;
+    });
+  }
+
+  async loadWorld(): Promise<boolean> {
+    this.state = null;
+    this.topology = null;
+    this.pendingWrites = [];
+    this.outbox = [];
+    this.experiences.clear();
+    this.restartPending = false;
+
+    const world = await this.storage.worlds.findById(this.worldId);
+    if (!world || !LIVE_WORLD_STATUSES.includes(world.status)) return false;
+
+    this.currentTick = world.current_tick;
+    this.currentYear = world.current_year;
+    this.savedTick = world.current_tick;
+    this.status = world.status as WorldStatus;
+    this.statusYear = world.status_year;
+    // Resume the random stream where the last tick left it; fresh worlds start from their seed
+    this.rng = new SeededRandom(world.rng_state ?? world.seed);
+    this.state = new WorldState(
+      await this.storage.cells.listByWorld(world.id),
+      await this.storage.populations.listByWorld(world.id),
+      await this.storage.civilizations.listByWorld(world.id),
+      await this.storage.events.listActive(world.id),
+      await this.storage.relations.listByWorld(world.id),
+      await this.storage.tradeRoutes.listByWorld(world.id),
+      await this.storage.species.listByWorld(world.id),
+      await this.storage.species.listInCells(world.id),
+      await this.storage.diseases.listActive(world.id),
+      await this.storage.diseases.listInfections(world.id),
+      { base_temperature: world.base_temperature, temperature_anomaly: world.temperature_anomaly, sea_level: world.sea_level }
+    );
+    this.topology = buildTopology(this.state.cells);
+    this.checkEvents(this.state);
+    this.scheduler.setIntervalMs(world.tick_interval_ms || TICK_INTERVAL_MS);
+    // Clients may hold state from ticks that were never committed; have them start over
+    this.deltas.reset(this.state);
+    this.io.emit('worldReloaded', { tick: this.currentTick, year: this.currentYear });
+    return true;
+  }
+
+  // Writes every change since the last flush together with the tick counter and RNG
+  // state in one transaction, so the database only ever holds whole ticks. Throws on failure.
+  private async flush() {
+    if (!this.state) return;
+    const worldId = this.worldId;
+    const changes = this.state.takeChanges();
+    const writes = this.pendingWrites;
+    this.pendingWrites = [];
+
+    await this.storage.transaction(async tx => {
+      await tx.cells.updateResources(changes.cells);
+      await tx.cells.updateTerrain(changes.terrainCells);
+      if (changes.climate) await tx.worlds.saveClimate(worldId, changes.climate);
+      await tx.civilizations.upsertMany(worldId, changes.civilizations);
+      await tx.populations.upsertMany(changes.populations);
+      await tx.events.upsertMany(worldId, changes.events);
+      await tx.relations.upsertMany(worldId, changes.relations);
+      await tx.tradeRoutes.upsertMany(worldId, changes.tradeRoutes);
+      await tx.tradeRoutes.removeMany(changes.removedTradeRoutes);
+      await tx.species.upsertInCells(changes.cellSpecies);
+      await tx.species.removeFromCells(changes.removedCellSpecies);
+      await tx.diseases.upsertMany(worldId, changes.diseases);
+      await tx.diseases.upsertInfections(changes.infections);
+      await tx.diseases.removeInfections(changes.removedInfections);
+      for (const write of writes) {
+        await write(tx);
+      }
+      // The whole transaction is void if the world was rewritten under the engine
+      if (!await tx.worlds.saveProgress(worldId, this.savedTick, this.currentTick, this.currentYear, this.rng.getState())) {
+        throw new Error(`World ${worldId} changed outside the engine since tick ${this.savedTick}`);
+      }
+    });
+    this.savedTick = this.currentTick;
+  }
+
+  // Drops everything in memory since the last flush and resumes from the committed state
+  private async rollback() {
+    try {
+      await this.loadWorld();
+      this.needsReload = false;
+      console.log(`↩️ Simulation rolled back to tick ${this.currentTick}`);
+    } catch (error) {
+      // Database unreachable; try again before the next scheduled tick
+      this.needsReload = true;
+      console.error('Simulation rollback error:', error);
+    }
+  }
+
+  private broadcast(event: string, payload: any) {
+    this.outbox.push([event, payload]);
+  }
+
+  private async runScheduledTicks(count: number) {
+    if (this.needsReload) {
+      await this.rollback();
+    }
+
+    for (let i = 0; i < count && this.isRunning; i++) {
+      await this.tick();
+    }
+
+    // Only tell clients when the displayed speed actually changes
+    const metrics = this.scheduler.getMetrics();
+    const rounded = Math.round(metrics.speed * 10) / 10;
+    // Also repeated now and then so late joiners (and the admin metrics) catch up
+    if (rounded !== this.reportedSpeed || this.currentTick % TICKS_PER_YEAR === 0) {
+      this.reportedSpeed = rounded;
+      this.io.emit('simulationSpeed', { ...metrics, speed: rounded });
+    }
+  }
+
+  // Advances the loaded world by one tick. Driven by the scheduler from start(),
+  // or called directly by the headless runner. Resolves false if the tick failed and
+  // was rolled back.
+  async tick(): Promise<boolean> {
+    if (!this.state) return true;
+    const state = this.state;
 
     this.currentTick++;
     const isYearEnd = this.currentTick % TICKS_PER_YEAR === 0;
@@ -93,41 +326,67 @@ export class SimulationEngine {
     }
 
     try {
-      // Get all populations with their cell data
-      const populations = await this.getPopulations();
-      const cells = await this.getCells();
-      const cellMap = new Map(cells.map(c => [c.id, c]));
-      const neighborMap = this.buildNeighborMap(cells);
+      const populations = [...state.populations.values()];
+      const cellMap = state.cellsById;
+      this.modifiers = activeModifiers(state, this.topology!);
+      // Everyone in a cell shares its capacity, whichever civilization they belong to
+      const cellTotals = new Map<string, number>();
+      for (const pop of populations) {
+        cellTotals.set(pop.cell_id, (cellTotals.get(pop.cell_id) ?? 0) + pop.population_size);
+      }
 
       // Process each population
       for (const pop of populations) {
         const cell = cellMap.get(pop.cell_id);
         if (!cell) continue;
 
-        const neighbors = neighborMap.get(`${cell.x},${cell.y}`) || [];
-        const neighborPops = populations.filter(p => neighbors.some(n => n.id === p.cell_id));
-
-        await this.updatePopulation(pop, cell, neighborPops, isYearEnd);
+        this.updatePopulation(pop, cell, cellTotals.get(cell.id) ?? 0, isYearEnd);
       }
 
+      this.processDiseases(state, isYearEnd);
+      this.processEvents(state, isYearEnd);
+
       // Handle migrations on year boundaries
       if (isYearEnd) {
-        await this.processMigrations(populations, cells, neighborMap);
-        await this.processConflicts(populations);
-        await this.processTechSpread(populations, neighborMap, cellMap);
-        await this.processEvents();
+        this.processClimate(state);
+        const species = this.livingSpecies(state);
+        this.processEcosystem(state);
+        const scarcity = this.processResources(state);
+        this.reportExtinctions(state, species);
+        this.processLandUse(state);
+        this.processMigrations(state, scarcity);
+        this.processDiplomacy(state);
+        this.processWarfare(state);
+        this.processConflicts(state, scarcity);
+        this.processCohabitation(state);
+        this.processCivilizations(state);
+        this.processSecession(state);
+        this.processTrade(state);
+        this.processIdeology(state);
+        this.processTechSpread(state);
+        this.processPolicies(state);
         await this.resolveExperiments();
-        await this.createSnapshot();
+        await this.processEndStates(state);
       }
 
-      // Update world tick
-      await db.query(
-        'UPDATE worlds SET current_tick = $1, current_year = $2 WHERE id = $3',
-        [this.currentTick, this.currentYear, this.worldId]
-      );
+      if (isYearEnd) {
+        this.createSnapshot();
+      }
+      this.recordDelta(isYearEnd);
+      if (isYearEnd || this.currentTick % FLUSH_INTERVAL_TICKS === 0) {
+        await this.flush();
+      }
+
+      // Only a tick that made it this far gets announced
+      for (const [event, payload] of this.outbox) {
+        this.io.emit(event, payload);
+      }
+      this.outbox = [];
 
       // Broadcast tick update
-      console.log(`⏱️  Tick ${this.currentTick} (Year ${this.currentYear}) - ${populations.length} populations`);
+      if (this.logTicks) {
+        console.log(`⏱️  Tick ${this.currentTick} (Year ${this.currentYear}) - ${state.populations.size} populations`);
+      }
       this.io.emit('tick', {
         tick: this.currentTick,
         year: this.currentYear,
@@ -136,55 +395,57 @@ export class SimulationEngine {
 
       // Broadcast population changes on year boundaries
       if (isYearEnd) {
-        const stats = await this.getWorldStats();
+        const stats = this.getWorldStats();
         this.io.emit('yearUpdate', {
           year: this.currentYear,
           stats
         });
       }
+
+      // A finished world has nothing left to tick
+      if (this.status === 'finished') {
+        this.state = null;
+        this.onFinished?.();
+      }
+      if (this.restartPending) {
+        await this.restart(state);
+      }
+      return true;
     } catch (error) {
       console.error('Tick error:', error);
+      // Don't carry on from a half-applied tick
+      await this.rollback();
+      return false;
     }
   }
 
-  private async getPopulations(): Promise<PopulationState[]> {
-    const result = await db.query(`
-      SELECT p.*, c.x, c.y 
-      FROM populations p 
-      JOIN cells c ON p.cell_id = c.id 
-      WHERE c.world_id = $1
-    `, [this.worldId]);
-    return result.rows;
-  }
-
-  private async getCells(): Promise<CellState[]> {
-    const result = await db.query('SELECT * FROM cells WHERE world_id = $1', [this.worldId]);
-    return result.rows;
-  }
-
-  private buildNeighborMap(cells: CellState[]): Map<string, CellState[]> {
-    const map = new Map<string, CellState[]>();
-    const cellGrid = new Map(cells.map(c => [`${c.x},${c.y}`, c]));
-
-    for (const cell of cells) {
-      const neighbors: CellState[] = [];
-      const directions = [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [1, 1]];
-      
-      for (const [dx, dy] of directions) {
-        const neighbor = cellGrid.get(`${cell.x + dx},${cell.y + dy}`);
-        if (neighbor) neighbors.push(neighbor);
-      }
-      
-      map.set(`${cell.x},${cell.y}`, neighbors);
+  // Broadcasts what this tick changed and keeps it for clients catching up over REST
+  private recordDelta(isYearEnd: boolean) {
+    const state = this.state!;
+    const worldId = this.worldId;
+    const delta = this.deltas.build(state, state.takeTouched(), this.currentTick, this.currentYear);
+    if (delta) {
+      this.broadcast('worldDelta', delta);
+      this.pendingWrites.push(tx => tx.deltas.append(worldId, delta));
+    }
+    if (isYearEnd) {
+      const horizon = this.currentTick - DELTA_RETENTION_TICKS;
+      this.pendingWrites.push(tx => tx.deltas.prune(worldId, horizon));
     }
+  }
 
-    return map;
+  // Adjacent cells on the sphere (wraps at the antimeridian and across the poles)
+  private neighborCells(cell: CellState): CellState[] {
+    const state = this.state!;
+    return this.topology!.neighbors(cell.id)
+      .map(id => state.cellsById.get(id))
+      .filter((c): c is CellState => !!c);
   }
 
-  private async updatePopulation(
+  private updatePopulation(
     pop: PopulationState,
     cell: CellState,
-    neighbors: PopulationState[],
+    cellTotal: number,
     isYearEnd: boolean
   ) {
     // Guard against invalid data
@@ -194,8 +455,8 @@ export class SimulationEngine {
     }
 
     // Calculate modifiers based on environment and neighbors
-    const carryingCapacity = Math.max(100, this.calculateCarryingCapacity(cell, pop.tech_level));
-    const crowdingFactor = Math.min(10, pop.population_size / carryingCapacity); // Cap at 10x overcrowding
+    const capacity = Math.max(100, this.calculateCarryingCapacity(cell, pop));
+    const crowdingFactor = Math.min(10, cellTotal / capacity); // Cap at 10x overcrowding
     
     // Adjust birth/death rates based on conditions
     let effectiveBirthRate = Math.max(0, pop.birth_rate * pop.prosperity / 50);
@@ -216,6 +477,10 @@ export class SimulationEngine {
       effectiveDeathRate += 0.005;
     }
 
+    // Ice ages, famines and the like
+    const modifiers = modifiersFor(this.modifiers, pop);
+    effectiveDeathRate *= modifiers.death_rate;
+
     // Calculate population change (per tick, so divide by ticks per year)
     const birthsPerTick = Math.floor(pop.population_size * effectiveBirthRate / TICKS_PER_YEAR);
     const deathsPerTick = Math.floor(pop.population_size * effectiveDeathRate / TICKS_PER_YEAR);
@@ -224,7 +489,7 @@ export class SimulationEngine {
     let newPopulation = Math.max(0, pop.population_size + netChange);
 
     // Small random variation
-    newPopulation = Math.floor(newPopulation * (0.999 + Math.random() * 0.002));
+    newPopulation = Math.floor(newPopulation * (0.999 + this.rng.next() * 0.002));
 
     // Update stability based on prosperity and ideology
     let newStability = pop.stability;
@@ -236,23 +501,27 @@ export class SimulationEngine {
     let newProsperity = pop.prosperity;
     if (crowdingFactor < 0.8 && pop.tech_level > 2) newProsperity += 0.05;
     if (crowdingFactor > 1.2) newProsperity -= 0.1;
+    // Worn-out land drags prosperity down; roads and networks lift it
+    const depleted = depletion(cell);
+    if (depleted > 0.5) newProsperity -= 0.05 * depleted;
+    if (cell.infrastructure > 50) newProsperity += 0.02;
     newProsperity = Math.max(0, Math.min(100, newProsperity));
 
     // Yearly education growth
     let newEducation = pop.education;
     if (isYearEnd && pop.stability > 50 && pop.prosperity > 40) {
-      newEducation += Math.random() * 0.5;
+      newEducation += this.rng.next() * 0.5;
       newEducation = Math.min(100, newEducation);
     }
 
     // Tech level advancement (rare, on year boundaries)
     let newTechLevel = pop.tech_level;
-    if (isYearEnd && pop.education > (pop.tech_level + 1) * 10 && Math.random() < 0.01 * pop.education / 100) {
+    if (isYearEnd && pop.education > (pop.tech_level + 1) * 10 && this.rng.next() < 0.01 * pop.education / 100 * innovation(pop) * modifiers.tech_leap) {
       newTechLevel = Math.min(9, pop.tech_level + 1);
       console.log(`🔬 Tech advancement! ${pop.civilization_id} reached ${TECH_LEVELS[newTechLevel]}`);
       
       // Notify clients
-      this.io.emit('techAdvancement', {
+      this.broadcast('techAdvancement', {
         civilization_id: pop.civilization_id,
         tech_level: newTechLevel,
         tech_name: TECH_LEVELS[newTechLevel],
@@ -260,92 +529,360 @@ export class SimulationEngine {
       });
     }
 
-    // Ideology drift (influenced by neighbors)
-    const avgNeighborCollectivism = neighbors.length > 0 
-      ? neighbors.reduce((sum, n) => sum + n.ideology_collectivism, 0) / neighbors.length 
-      : pop.ideology_collectivism;
-    const newCollectivism = pop.ideology_collectivism + (avgNeighborCollectivism - pop.ideology_collectivism) * 0.001;
-
     // Final safety check - ensure no NaN values
     if (isNaN(newPopulation) || isNaN(newStability) || isNaN(newProsperity) || 
-        isNaN(newEducation) || isNaN(newTechLevel) || isNaN(newCollectivism)) {
+        isNaN(newEducation) || isNaN(newTechLevel)) {
       console.error(`NaN detected for population ${pop.id}, skipping update`);
       return;
     }
 
-    await db.query(`
-      UPDATE populations SET 
-        population_size = $1, stability = $2, prosperity = $3, education = $4,
-        tech_level = $5, ideology_collectivism = $6, updated_at = NOW()
-      WHERE id = $7
-    `, [
-      Math.floor(newPopulation), 
-      Math.floor(newStability), 
-      Math.floor(newProsperity), 
-      Math.floor(newEducation), 
-      newTechLevel, 
-      newCollectivism, 
-      pop.id
-    ]);
-  }
-
-  private calculateCarryingCapacity(cell: CellState, techLevel: number): number {
-    const baseCap = cell.food_capacity * 100;
-    const techMultiplier = 1 + techLevel * 0.5;
-    const biomeMultiplier = cell.biome === 'ocean' ? 0.1 : cell.biome === 'desert' ? 0.3 : 1;
-    return Math.floor(baseCap * techMultiplier * biomeMultiplier);
-  }
-
-  private async processMigrations(
-    populations: PopulationState[],
-    cells: CellState[],
-    neighborMap: Map<string, CellState[]>
-  ) {
-    // Populations migrate when overcrowded or seeking better conditions
-    for (const pop of populations) {
+    // Stored with the same precision as the database columns
+    pop.population_size = Math.floor(newPopulation);
+    pop.stability = Math.floor(newStability);
+    pop.prosperity = Math.floor(newProsperity);
+    pop.education = Math.floor(newEducation);
+    pop.tech_level = newTechLevel;
+    this.state!.touchPopulation(pop);
+  }
+
+  private calculateCarryingCapacity(cell: CellState, pop: PopulationState): number {
+    // What the cell's food and water stocks feed; scaled by cell area so tiny polar cells
+    // don't hold as many people as equatorial ones
+    const area = this.topology?.area(cell.id) ?? 1;
+    const efficiency = pop.resource_efficiency * governanceEfficiency(pop);
+    return carryingCapacity(cell, pop.tech_level, efficiency, area, wildFood(this.state!, cell.id), modifiersFor(this.modifiers, pop).food_yield);
+  }
+
+  // A year of climate. People on land the sea takes flee to dry land next door, or drown.
+  private processClimate(state: WorldState) {
+    const { shift, biomeChanges, flooded } = runClimateYear(state, this.rng, this.currentYear);
+
+    for (const cell of flooded) {
+      const havens = this.neighborCells(cell).filter(n => n.biome !== 'ocean');
+      let refugees = 0, drowned = 0;
+      for (const pop of state.populationsInCell(cell.id)) {
+        if (pop.population_size <= 0) continue;
+        if (havens.length > 0) {
+          const target = this.rng.weightedPick(havens, n => this.topology!.area(n.id));
+          this.settle(state, pop, target.id, pop.population_size);
+          refugees += pop.population_size;
+        } else {
+          drowned += pop.population_size;
+        }
+        pop.population_size = 0;
+        state.touchPopulation(pop);
+      }
+
+      console.log(`🌊 The sea swallowed cell ${cell.id} (${refugees} fled, ${drowned} drowned)`);
+      state.addEvent({
+        id: this.rng.uuid(),
+        type: 'flood',
+        scope: 'cell',
+        target_cell_id: cell.id,
+        target_civ_id: null,
+        data: { refugees, drowned, sea_level: state.climate.sea_level },
+        start_tick: this.currentTick,
+        end_tick: null,
+        is_active: false
+      });
+    }
+
+    if (shift !== 0 || biomeChanges.length > 0) {
+      this.broadcast('climate', {
+        year: this.currentYear,
+        temperature_anomaly: state.climate.temperature_anomaly,
+        sea_level: state.climate.sea_level,
+        cells: biomeChanges.map(({ cell }) => ({ id: cell.id, biome: cell.biome, land_use: cell.land_use })),
+        flooded: flooded.map(cell => cell.id)
+      });
+    }
+  }
+
+  // Fields, cities and deserts spreading where people press on the land, and the wild
+  // taking back what they leave
+  private processLandUse(state: WorldState) {
+    const changes = runLandUseYear(state, this.topology!, this.rng);
+    if (changes.length === 0) return;
+
+    for (const { cell, fromBiome } of changes) {
+      if (cell.land_use !== 'degraded') continue;
+      console.log(`🏜️ Cell ${cell.id} turned from ${fromBiome} to desert`);
+      state.addEvent({
+        id: this.rng.uuid(),
+        type: 'desertification',
+        scope: 'cell',
+        target_cell_id: cell.id,
+        target_civ_id: null,
+        data: { from: fromBiome },
+        start_tick: this.currentTick,
+        end_tick: null,
+        is_active: false
+      });
+    }
+
+    this.broadcast('landUse', {
+      year: this.currentYear,
+      cells: changes.map(({ cell, from }) => ({ id: cell.id, biome: cell.biome, land_use: cell.land_use, from }))
+    });
+  }
+
+  // A tick of every epidemic; at year end immunity wears off and a new disease may emerge
+  private processDiseases(state: WorldState, isYearEnd: boolean) {
+    const { deaths, ended } = runDiseaseTick(state, this.topology!, this.rng);
+
+    for (const disease of ended) {
+      endDisease(state, disease, this.currentYear);
+      for (const event of [...state.events.values()]) {
+        if (event.is_active && event.type === 'plague' && event.data.disease_id === disease.id) this.endEvent(state, event);
+      }
+      console.log(`🩹 The ${disease.name} has run its course: ${disease.cases} cases, ${disease.deaths} deaths`);
+      this.broadcast('diseaseEnded', {
+        id: disease.id,
+        name: disease.name,
+        cases: disease.cases,
+        deaths: disease.deaths,
+        year: this.currentYear
+      });
+    }
+
+    if (isYearEnd) {
+      waneImmunity(state, this.rng);
+      const crowd = emergence(state, this.rng);
+      if (crowd) this.releaseDisease(state, naturalTraits(this.rng), crowd.cell_id, null);
+    }
+
+    const active = [...state.diseases.values()].filter(d => d.status === 'active');
+    if (active.length === 0 && ended.length === 0) return;
+
+    // Every tick carries just the totals; the infected per cell go out once a year, and
+    // once more when the last disease is over so clients clear the map
+    const withCells = isYearEnd || active.length === 0;
+    const infected = new Map<string, number>();
+    const cellInfected = new Map<string, number>();
+    for (const [popId, here] of state.infections) {
+      const pop = state.populations.get(popId);
+      if (!pop) continue;
+      for (const [diseaseId, infection] of here) {
+        if (infection.infected === 0) continue;
+        infected.set(diseaseId, (infected.get(diseaseId) ?? 0) + infection.infected);
+        if (withCells) cellInfected.set(pop.cell_id, (cellInfected.get(pop.cell_id) ?? 0) + infection.infected);
+      }
+    }
+    this.broadcast('epidemic', {
+      tick: this.currentTick,
+      diseases: active.map(d => ({
+        id: d.id,
+        name: d.name,
+        infected: infected.get(d.id) ?? 0,
+        cases: d.cases,
+        deaths: d.deaths,
+        died: deaths.get(d.id) ?? 0
+      })),
+      ...(withCells ? { cells: [...cellInfected].map(([cell_id, count]) => ({ cell_id, infected: count })) } : {})
+    });
+  }
+
+  // Sets a new disease loose in a cell, with a plague event to mark where it began.
+  // An existing plague event (from before diseases were tracked) can stand in for the new one.
+  private releaseDisease(
+    state: WorldState,
+    traits: DiseaseTraits,
+    cellId: string,
+    introducedBy: string | null,
+    name?: string,
+    event?: EventState
+  ): DiseaseState | null {
+    // Nobody there to catch it
+    if (!state.populationsInCell(cellId).some(p => p.population_size > 0)) return null;
+
+    const disease: DiseaseState = {
+      id: this.rng.uuid(),
+      name: name || diseaseName(state, this.rng),
+      ...traits,
+      origin_cell_id: cellId,
+      introduced_by: introducedBy,
+      emerged_year: this.currentYear,
+      status: 'active',
+      end_year: null,
+      cases: 0,
+      deaths: 0
+    };
+    state.addDisease(disease);
+    outbreak(state, disease, cellId);
+
+    const data = { disease_id: disease.id, name: disease.name };
+    if (event) {
+      event.data = { ...event.data, ...data };
+      event.end_tick = null;
+      state.touchEvent(event);
+    } else {
+      this.startEvent(state, 'plague', { cell_id: cellId, civ_id: null }, data);
+    }
+
+    console.log(`🦠 The ${disease.name} broke out in cell ${cellId}`);
+    this.broadcast('diseaseEmerged', {
+      id: disease.id,
+      name: disease.name,
+      cell_id: cellId,
+      transmissibility: disease.transmissibility,
+      lethality: disease.lethality,
+      duration: disease.duration,
+      immunity: disease.immunity,
+      introduced_by: introducedBy,
+      year: this.currentYear
+    });
+    return disease;
+  }
+
+  // A year of wildlife in every cell
+  private processEcosystem(state: WorldState) {
+    for (const cell of state.cells) {
+      runEcosystemYear(state, cell, this.neighborCells(cell), this.rng);
+    }
+  }
+
+  private livingSpecies(state: WorldState): Set<string> {
+    return new Set([...state.cellSpecies.values()].flatMap(here => [...here.keys()]));
+  }
+
+  // A species that has disappeared from its last cell, to predators, hunger or hunters, is gone for good
+  private reportExtinctions(state: WorldState, before: Set<string>) {
+    const after = this.livingSpecies(state);
+    for (const id of [...before].sort(compareIds)) {
+      const species = state.species.get(id);
+      if (after.has(id) || !species) continue;
+
+      console.log(`💀 ${species.name} went extinct`);
+      state.addEvent({
+        id: this.rng.uuid(),
+        type: 'species_extinction',
+        scope: 'global',
+        target_cell_id: null,
+        target_civ_id: null,
+        data: { species_id: id, name: species.name },
+        start_tick: this.currentTick,
+        end_tick: null,
+        is_active: false
+      });
+      this.broadcast('speciesExtinct', { species_id: id, name: species.name, year: this.currentYear });
+    }
+  }
+
+  // A year of harvesting and regrowth in every cell, then the toll of whatever ran short.
+  // Returns how badly each cell went short (0-1) for migration and conflict.
+  private processResources(state: WorldState): Map<string, number> {
+    const byCell = new Map<string, PopulationState[]>();
+    for (const pop of state.populations.values()) {
+      const pops = byCell.get(pop.cell_id) || [];
+      pops.push(pop);
+      byCell.set(pop.cell_id, pops);
+    }
+
+    const scarcity = new Map<string, number>();
+    for (const cell of state.cells) {
+      const before = [cell.food_stock, cell.water_stock, cell.mineral_stock, cell.energy_stock, cell.infrastructure];
+      const pops = byCell.get(cell.id) || [];
+      const { supply, hunted } = runResourceYear(cell, pops, this.topology!.area(cell.id), wildFood(state, cell.id),
+        pop => modifiersFor(this.modifiers, pop).food_yield);
+      hunt(state, cell.id, hunted);
+      const after = [cell.food_stock, cell.water_stock, cell.mineral_stock, cell.energy_stock, cell.infrastructure];
+      if (after.some((value, i) => value !== before[i])) state.touchCell(cell);
+
+      for (const pop of pops) {
+        const supplied = supply.get(pop.id);
+        if (!supplied) continue;
+        const unmet = 1 - Math.min(supplied.food, supplied.water);
+        scarcity.set(cell.id, Math.max(scarcity.get(cell.id) ?? 0, unmet));
+        this.applyScarcity(state, pop, cell, supplied);
+      }
+    }
+    return scarcity;
+  }
+
+  private applyScarcity(state: WorldState, pop: PopulationState, cell: CellState, supplied: PopulationSupply) {
+    const unmet = 1 - Math.min(supplied.food, supplied.water);
+    if (unmet > 0) {
+      this.experience(pop).famine = unmet;
+      pop.population_size = Math.floor(pop.population_size * (1 - unmet * STARVATION_RATE));
+      pop.prosperity = Math.floor(clamp(pop.prosperity - unmet * 10));
+      pop.stability = Math.floor(clamp(pop.stability - unmet * 5));
+      state.touchPopulation(pop);
+    }
+
+    // Food running short turns into a famine, unless one is already under way
+    const famineUnderway = [...state.events.values()].some(e =>
+      e.is_active && e.type === 'famine' && e.target_cell_id === cell.id
+    );
+    if (supplied.food < 0.6 && !famineUnderway) {
+      this.startEvent(state, 'famine', { cell_id: cell.id, civ_id: pop.civilization_id },
+        { cause: 'scarcity', food_supplied: Math.round(supplied.food * 100) / 100 });
+      this.broadcast('newEvent', {
+        type: 'famine',
+        target: cell.id,
+        year: this.currentYear
+      });
+    }
+
+    // Post-industrial crash: industry without the energy and minerals to keep it running
+    // loses its infrastructure, and once that is gone, its tech
+    if (pop.tech_level >= 5 && Math.min(supplied.energy, supplied.minerals) < 0.5 &&
+        cell.infrastructure < pop.tech_level * 5) {
+      pop.tech_level -= 1;
+      pop.education = Math.floor(pop.education * 0.8);
+      pop.stability = Math.max(0, pop.stability - 10);
+      state.touchPopulation(pop);
+
+      state.addEvent({
+        id: this.rng.uuid(),
+        type: 'collapse',
+        scope: 'cell',
+        target_cell_id: cell.id,
+        target_civ_id: pop.civilization_id,
+        data: { tech_level: pop.tech_level },
+        start_tick: this.currentTick,
+        end_tick: null,
+        is_active: false
+      });
+      this.broadcast('collapse', {
+        civilization_id: pop.civilization_id,
+        cell_id: cell.id,
+        tech_level: pop.tech_level,
+        tech_name: TECH_LEVELS[pop.tech_level]
+      });
+    }
+  }
+
+  private processMigrations(state: WorldState, scarcity: Map<string, number>) {
+    // Populations migrate when their cell is overcrowded, or in waves when their land can't feed them
+    for (const pop of [...state.populations.values()]) {
       if (pop.population_size < 1000) continue; // Too small to migrate
       
-      const cell = cells.find(c => c.id === pop.cell_id);
+      const cell = state.cellsById.get(pop.cell_id);
       if (!cell) continue;
 
-      const carryingCap = this.calculateCarryingCapacity(cell, pop.tech_level);
-      if (pop.population_size < carryingCap * 0.9) continue; // Not crowded enough
+      const carryingCap = this.calculateCarryingCapacity(cell, pop);
+      const starving = (scarcity.get(cell.id) ?? 0) > 0.2;
+      if (this.peopleInCell(cell.id) < carryingCap * 0.9 && !starving) continue; // Not crowded enough
 
-      const neighbors = neighborMap.get(`${cell.x},${cell.y}`) || [];
-      const emptyOrLessPopulated = neighbors.filter(n => {
-        const neighborPop = populations.find(p => p.cell_id === n.id);
-        if (!neighborPop) return n.biome !== 'ocean';
-        return neighborPop.population_size < carryingCap * 0.5 && n.biome !== 'ocean';
-      });
+      const neighbors = this.neighborCells(cell);
+      const emptyOrLessPopulated = neighbors.filter(n =>
+        n.biome !== 'ocean' && this.peopleInCell(n.id) < carryingCap * 0.5
+      );
 
       if (emptyOrLessPopulated.length > 0) {
-        const target = emptyOrLessPopulated[Math.floor(Math.random() * emptyOrLessPopulated.length)];
-        const migrants = Math.floor(pop.population_size * 0.1);
+        // Bigger cells with fuller stocks draw proportionally more migrants; xenophobic
+        // residents (and migrants) keep foreigners from settling among each other
+        const target = this.rng.weightedPick(emptyOrLessPopulated, n =>
+          this.topology!.area(n.id) * (1.1 - depletion(n)) * welcome(state, n.id, pop));
+        const migrants = Math.floor(pop.population_size * (starving ? 0.2 : 0.1));
 
-        // Check if there's already a population there
-        const existingPop = populations.find(p => p.cell_id === target.id);
-        
-        if (existingPop) {
-          // Merge migrants into existing population
-          await db.query(
-            'UPDATE populations SET population_size = population_size + $1 WHERE id = $2',
-            [migrants, existingPop.id]
-          );
-        } else {
-          // Create new population
-          await db.query(`
-            INSERT INTO populations (cell_id, civilization_id, population_size, tech_level, stability, prosperity, education)
-            VALUES ($1, $2, $3, $4, $5, $6, $7)
-          `, [target.id, pop.civilization_id, migrants, Math.max(0, pop.tech_level - 1), 50, 40, pop.education * 0.8]);
-        }
+        this.settle(state, pop, target.id, migrants);
 
         // Reduce source population
-        await db.query(
-          'UPDATE populations SET population_size = population_size - $1 WHERE id = $2',
-          [migrants, pop.id]
-        );
+        pop.population_size -= migrants;
+        state.touchPopulation(pop);
 
-        this.io.emit('migration', {
+        this.broadcast('migration', {
           from: pop.cell_id,
           to: target.id,
           migrants,
@@ -355,10 +892,46 @@ export class SimulationEngine {
     }
   }
 
-  private async processConflicts(populations: PopulationState[]) {
+  private peopleInCell(cellId: string): number {
+    return this.state!.populationsInCell(cellId).reduce((sum, p) => sum + p.population_size, 0);
+  }
+
+  // Moves people from a population into another cell: they join their own civilization's
+  // population there, or found a new one next to whoever already lives there
+  private settle(state: WorldState, origin: PopulationState, cellId: string, people: number) {
+    const existingPop = state.populationsInCell(cellId).find(p => p.civilization_id === origin.civilization_id);
+    if (existingPop) {
+      carryInfections(state, origin, existingPop, people);
+      existingPop.population_size += people;
+      state.touchPopulation(existingPop);
+      return;
+    }
+
+    const settlers: PopulationState = {
+      ...POPULATION_DEFAULTS,
+      id: this.rng.uuid(),
+      cell_id: cellId,
+      civilization_id: origin.civilization_id,
+      population_size: people,
+      tech_level: Math.max(0, origin.tech_level - 1),
+      stability: 50,
+      prosperity: 40,
+      education: Math.floor(origin.education * 0.8),
+      ideology_collectivism: origin.ideology_collectivism,
+      ideology_tradition: origin.ideology_tradition,
+      ideology_authoritarianism: origin.ideology_authoritarianism,
+      ideology_xenophobia: origin.ideology_xenophobia,
+      war_tendency: origin.war_tendency
+    };
+    state.addPopulation(settlers);
+    carryInfections(state, origin, settlers, people);
+  }
+
+  private processConflicts(state: WorldState, scarcity: Map<string, number>) {
     // Group populations by cell to find conflicts
     const cellPops = new Map<string, PopulationState[]>();
-    for (const pop of populations) {
+    for (const pop of state.populations.values()) {
+      if (pop.population_size <= 0) continue;
       const existing = cellPops.get(pop.cell_id) || [];
       existing.push(pop);
       cellPops.set(pop.cell_id, existing);
@@ -374,21 +947,32 @@ export class SimulationEngine {
       // Calculate conflict probability based on war tendency and xenophobia
       const avgWarTendency = pops.reduce((sum, p) => sum + p.war_tendency, 0) / pops.length;
       const avgXenophobia = pops.reduce((sum, p) => sum + p.ideology_xenophobia, 0) / pops.length;
-      const conflictChance = (avgWarTendency + avgXenophobia) / 200;
-
-      if (Math.random() < conflictChance) {
+      // The two largest civilizations here do the fighting; wars make it far likelier,
+      // treaties far less, and fighting over what little is left likelier still
+      pops.sort((a, b) => b.population_size - a.population_size);
+      const relation = state.findRelation(pops[0].civilization_id, pops[1].civilization_id);
+      const conflictChance = (avgWarTendency + avgXenophobia) / 200 * conflictFactor(relation) *
+        (1 + 2 * (scarcity.get(cellId) ?? 0));
+
+      if (this.rng.next() < conflictChance) {
         // Conflict! Larger population has advantage
-        pops.sort((a, b) => b.population_size - a.population_size);
         const winner = pops[0];
         const loser = pops[1];
 
         const winnerLosses = Math.floor(winner.population_size * 0.05);
         const loserLosses = Math.floor(loser.population_size * 0.15);
 
-        await db.query('UPDATE populations SET population_size = population_size - $1, stability = stability - 10 WHERE id = $2', [winnerLosses, winner.id]);
-        await db.query('UPDATE populations SET population_size = population_size - $1, stability = stability - 20 WHERE id = $2', [loserLosses, loser.id]);
-
-        this.io.emit('conflict', {
+        this.experience(winner).warLosses += 0.05;
+        this.experience(loser).warLosses += 0.15;
+        winner.population_size -= winnerLosses;
+        winner.stability = Math.max(0, winner.stability - 10);
+        loser.population_size -= loserLosses;
+        loser.stability = Math.max(0, loser.stability - 20);
+        state.touchPopulation(winner);
+        state.touchPopulation(loser);
+        adjustOpinion(state, state.relation(winner.civilization_id, loser.civilization_id), -5);
+
+        this.broadcast('conflict', {
           cell_id: cellId,
           winner_civ: winner.civilization_id,
           loser_civ: loser.civilization_id,
@@ -397,35 +981,468 @@ export class SimulationEngine {
         });
 
         // Log event
-        await db.query(`
-          INSERT INTO events (world_id, type, scope, target_cell_id, data, start_tick, is_active)
-          VALUES ($1, 'conflict', 'cell', $2, $3, $4, false)
-        `, [this.worldId, cellId, JSON.stringify({ winner: winner.civilization_id, loser: loser.civilization_id }), this.currentTick]);
+        state.addEvent({
+          id: this.rng.uuid(),
+          type: 'conflict',
+          scope: 'cell',
+          target_cell_id: cellId,
+          target_civ_id: null,
+          data: { winner: winner.civilization_id, loser: loser.civilization_id },
+          start_tick: this.currentTick,
+          end_tick: null,
+          is_active: false
+        });
       }
     }
   }
 
-  private async processTechSpread(
-    populations: PopulationState[],
-    neighborMap: Map<string, CellState[]>,
-    cellMap: Map<string, CellState>
-  ) {
+  private processDiplomacy(state: WorldState) {
+    for (const action of runDiplomacyYear(state, this.topology!, this.rng, this.currentYear)) {
+      this.recordDiplomacy(state, action);
+    }
+  }
+
+  // Logs a treaty, war or peace and tells clients about it
+  private recordDiplomacy(state: WorldState, action: DiplomaticAction) {
+    const nameA = state.civilizations.get(action.civ_a)?.name ?? action.civ_a;
+    const nameB = state.civilizations.get(action.civ_b)?.name ?? action.civ_b;
+    if (action.action === 'war_declared') {
+      console.log(`⚔️ War between ${nameA} and ${nameB}`);
+    } else if (action.action === 'peace') {
+      console.log(`🕊️ Peace between ${nameA} and ${nameB}`);
+    }
+
+    state.addEvent({
+      id: this.rng.uuid(),
+      type: 'diplomacy',
+      scope: 'global',
+      target_cell_id: null,
+      target_civ_id: action.civ_a,
+      data: { ...action },
+      start_tick: this.currentTick,
+      end_tick: null,
+      is_active: false
+    });
+    this.broadcast('diplomacy', { ...action, year: this.currentYear });
+  }
+
+  // Civilizations at war fight over every cell along the front: wherever one side's people
+  // live in or next to a cell the other holds, there is a battle most years. Numbers, tech
+  // and zeal decide it; stability, fortifications and the capital help the defenders, and a
+  // clear victory hands the cell to the attacker.
+  private processWarfare(state: WorldState) {
+    const wars = [...state.relations.values()]
+      .filter(r => r.at_war)
+      .sort((x, y) => compareIds(x.civ_a, y.civ_a) || compareIds(x.civ_b, y.civ_b));
+    if (wars.length === 0) return;
+
+    const cellPops = new Map<string, PopulationState[]>();
+    for (const pop of state.populations.values()) {
+      const existing = cellPops.get(pop.cell_id) || [];
+      existing.push(pop);
+      cellPops.set(pop.cell_id, existing);
+    }
+    const might = (pop: PopulationState) => pop.population_size * (1 + pop.tech_level * 0.25);
+
+    for (const war of wars) {
+      for (const [attackerId, defenderId] of [[war.civ_a, war.civ_b], [war.civ_b, war.civ_a]]) {
+        const targets = [...state.populations.values()].filter(p => p.civilization_id === defenderId && p.population_size > 0);
+        for (const target of targets) {
+          // Taken or wiped out earlier this year
+          if (target.civilization_id !== defenderId || target.population_size <= 0) continue;
+          const cell = state.cellsById.get(target.cell_id)!;
+          const front = [cell.id, ...this.topology!.neighbors(cell.id)];
+          const attackers = front.flatMap(id => cellPops.get(id) || [])
+            .filter(p => p.civilization_id === attackerId && p.population_size > 0);
+          if (attackers.length === 0 || this.rng.next() >= BATTLE_CHANCE) continue;
+
+          // Armies from next door only bring part of their strength to bear
+          const attack = attackers.reduce((sum, p) =>
+            sum + might(p) * (0.5 + p.war_tendency / 100) * (p.cell_id === cell.id ? 1 : 0.5), 0);
+          const isCapital = state.civilizations.get(defenderId)?.capital_cell_id === cell.id;
+          const defense = might(target) * (0.5 + target.stability / 100) *
+            (1 + cell.infrastructure / 200) * (isCapital ? 1.5 : 1);
+          const odds = attack / (attack + defense);
+
+          const defenderLosses = Math.floor(target.population_size * BATTLE_LOSSES * odds);
+          this.experience(target).warLosses += BATTLE_LOSSES * odds;
+          target.population_size -= defenderLosses;
+          target.stability = Math.max(0, target.stability - 10);
+          state.touchPopulation(target);
+          let attackerLosses = 0;
+          for (const attacker of attackers) {
+            const losses = Math.floor(attacker.population_size * BATTLE_LOSSES * (1 - odds));
+            this.experience(attacker).warLosses += BATTLE_LOSSES * (1 - odds);
+            attacker.population_size -= losses;
+            attacker.stability = Math.max(0, attacker.stability - 5);
+            attackerLosses += losses;
+            state.touchPopulation(attacker);
+          }
+
+          const conquered = target.population_size > 0 && odds > 0.6 && this.rng.next() < (odds - 0.5) * 2;
+          this.broadcast('battle', {
+            cell_id: cell.id,
+            attacker_civ: attackerId,
+            defender_civ: defenderId,
+            attacker_losses: attackerLosses,
+            defender_losses: defenderLosses,
+            conquered
+          });
+          if (conquered) {
+            for (const attacker of attackers) this.experience(attacker).conquests++;
+            this.conquer(state, target, attackerId, war);
+          }
+        }
+      }
+    }
+  }
+
+  // The conquered stay put under new rulers, joining the conqueror's people already there
+  private conquer(state: WorldState, target: PopulationState, conquerorId: string, war: RelationState) {
+    const cellId = target.cell_id;
+    const defenderId = target.civilization_id;
+    const people = target.population_size;
+    const occupiers = state.populationsInCell(cellId)
+      .find(p => p.civilization_id === conquerorId && p.population_size > 0);
+
+    if (occupiers) {
+      this.assimilate(state, target, occupiers, people);
+      occupiers.stability = Math.max(0, occupiers.stability - CONQUEST_UNREST / 2);
+      state.touchPopulation(occupiers);
+    } else {
+      target.civilization_id = conquerorId;
+      target.stability = Math.max(0, target.stability - CONQUEST_UNREST);
+      target.prosperity = Math.max(0, target.prosperity - 10);
+      state.touchPopulation(target);
+    }
+    adjustOpinion(state, war, -10);
+
+    const defender = state.civilizations.get(defenderId);
+    const tookCapital = defender?.capital_cell_id === cellId &&
+      !state.populationsInCell(cellId).some(p => p.civilization_id === defenderId && p.population_size > 0);
+
+    state.addEvent({
+      id: this.rng.uuid(),
+      type: 'conquest',
+      scope: 'cell',
+      target_cell_id: cellId,
+      target_civ_id: defenderId,
+      data: { conqueror: conquerorId, people, capital: tookCapital },
+      start_tick: this.currentTick,
+      end_tick: null,
+      is_active: false
+    });
+    this.broadcast('conquest', { cell_id: cellId, conqueror: conquerorId, defender: defenderId, people, capital: tookCapital });
+    console.log(`🏴 ${state.civilizations.get(conquerorId)?.name ?? conquerorId} conquered ${people} ${defender?.name ?? defenderId}${tookCapital ? ' and their capital' : ''}`);
+
+    if (defender && tookCapital) this.loseCapital(state, defender, conquerorId);
+  }
+
+  // The seat of government is gone: every part of the civilization is shaken, and it has
+  // no capital until it settles on a new one
+  private loseCapital(state: WorldState, civ: CivilizationState, takenBy: string | null) {
+    const lost = civ.capital_cell_id;
+    civ.capital_cell_id = null;
+    state.touchCivilization(civ);
+    for (const pop of state.populations.values()) {
+      if (pop.civilization_id !== civ.id || pop.population_size <= 0) continue;
+      pop.stability = Math.max(0, pop.stability - CAPITAL_LOSS_UNREST);
+      state.touchPopulation(pop);
+    }
+
+    state.addEvent({
+      id: this.rng.uuid(),
+      type: 'capital_lost',
+      scope: 'civilization',
+      target_cell_id: lost,
+      target_civ_id: civ.id,
+      data: { taken_by: takenBy },
+      start_tick: this.currentTick,
+      end_tick: null,
+      is_active: false
+    });
+    this.broadcast('capitalLost', { civilization_id: civ.id, cell_id: lost, taken_by: takenBy });
+  }
+
+  // Yearly bookkeeping of each civilization: capitals abandoned or moved, and civilizations
+  // whose last people have died, fled or been absorbed marked extinct
+  private processCivilizations(state: WorldState) {
+    const living = new Map<string, PopulationState[]>();
+    for (const pop of state.populations.values()) {
+      if (pop.population_size <= 0) continue;
+      const existing = living.get(pop.civilization_id) || [];
+      existing.push(pop);
+      living.set(pop.civilization_id, existing);
+    }
+
+    const civs = [...state.civilizations.values()]
+      .filter(c => c.status === 'active')
+      .sort((a, b) => compareIds(a.id, b.id));
+    for (const civ of civs) {
+      const pops = living.get(civ.id);
+      if (!pops) {
+        civ.status = 'extinct';
+        civ.end_year = this.currentYear;
+        state.touchCivilization(civ);
+        console.log(`💀 ${civ.name} died out after ${this.currentYear - civ.founded_year} years`);
+        state.addEvent({
+          id: this.rng.uuid(),
+          type: 'civilization_extinct',
+          scope: 'global',
+          target_cell_id: null,
+          target_civ_id: civ.id,
+          data: { name: civ.name, founded_year: civ.founded_year, end_year: this.currentYear },
+          start_tick: this.currentTick,
+          end_tick: null,
+          is_active: false
+        });
+        this.broadcast('civilizationExtinct', { civilization_id: civ.id, name: civ.name, year: this.currentYear });
+        continue;
+      }
+
+      // Starved out or driven from it some other way
+      if (civ.capital_cell_id && !pops.some(p => p.cell_id === civ.capital_cell_id)) {
+        this.loseCapital(state, civ, null);
+      }
+      if (civ.capital_cell_id) continue;
+
+      if (this.rng.next() < CAPITAL_RELOCATION_CHANCE) {
+        const seat = pops.reduce((best, p) => p.population_size > best.population_size ? p : best);
+        civ.capital_cell_id = seat.cell_id;
+        state.touchCivilization(civ);
+        state.addEvent({
+          id: this.rng.uuid(),
+          type: 'capital_relocated',
+          scope: 'civilization',
+          target_cell_id: seat.cell_id,
+          target_civ_id: civ.id,
+          data: {},
+          start_tick: this.currentTick,
+          end_tick: null,
+          is_active: false
+        });
+        this.broadcast('capitalRelocated', { civilization_id: civ.id, cell_id: seat.cell_id });
+      } else {
+        // Nobody is quite in charge
+        for (const pop of pops) {
+          pop.stability = Math.max(0, pop.stability - 5);
+          state.touchPopulation(pop);
+        }
+      }
+    }
+  }
+
+  private experience(pop: PopulationState): YearExperience {
+    let experience = this.experiences.get(pop.id);
+    if (!experience) {
+      experience = { warLosses: 0, conquests: 0, famine: 0 };
+      this.experiences.set(pop.id, experience);
+    }
+    return experience;
+  }
+
+  private processIdeology(state: WorldState) {
+    runIdeologyYear(state, this.topology!, this.experiences, this.rng);
+    this.experiences.clear();
+  }
+
+  private processSecession(state: WorldState) {
+    for (const { parent, civilization, populations, civilWar } of runSecessionYear(state, this.topology!, this.rng, this.currentYear)) {
+      const people = populations.reduce((sum, p) => sum + p.population_size, 0);
+      const cellIds = populations.map(p => p.cell_id);
+      console.log(`${civilWar ? '🔥' : '🏳️'} ${civilization.name} broke away from ${parent.name}${civilWar ? ' in a civil war' : ''}`);
+
+      state.addEvent({
+        id: this.rng.uuid(),
+        type: 'secession',
+        scope: 'civilization',
+        target_cell_id: civilization.capital_cell_id,
+        target_civ_id: parent.id,
+        data: { civilization_id: civilization.id, name: civilization.name, civil_war: civilWar, people, cells: cellIds },
+        start_tick: this.currentTick,
+        end_tick: null,
+        is_active: false
+      });
+      this.broadcast('secession', {
+        civilization_id: civilization.id,
+        name: civilization.name,
+        color: civilization.color,
+        parent_id: parent.id,
+        civil_war: civilWar,
+        people,
+        cell_ids: cellIds,
+        year: this.currentYear
+      });
+      if (civilWar) {
+        const { civ_a, civ_b } = state.relation(parent.id, civilization.id);
+        this.recordDiplomacy(state, { action: 'war_declared', civ_a, civ_b, aggressor: parent.id });
+      }
+    }
+  }
+
+  // Routes opened and cut this year are announced with their ends, so clients can draw them
+  private processTrade(state: WorldState) {
+    const { established, cut } = runTradeYear(state, this.topology!, this.rng, this.currentYear, this.currentTick - TICKS_PER_YEAR);
+    const ends = (popId: string) => {
+      const pop = state.populations.get(popId);
+      return { cell_id: pop?.cell_id ?? null, civilization_id: pop?.civilization_id ?? null };
+    };
+    for (const route of established) {
+      const [a, b] = [ends(route.pop_a), ends(route.pop_b)];
+      this.broadcast('tradeRouteEstablished', {
+        ...route,
+        cell_a: a.cell_id,
+        cell_b: b.cell_id,
+        civ_a: a.civilization_id,
+        civ_b: b.civilization_id,
+        year: this.currentYear
+      });
+    }
+    for (const { route, reason } of cut) {
+      this.broadcast('tradeRouteCut', { id: route.id, pop_a: route.pop_a, pop_b: route.pop_b, reason, year: this.currentYear });
+    }
+  }
+
+  // Civilizations sharing a cell drift together or apart. Open majorities absorb minorities
+  // (faster when they expect conformity, slower when the minority is close-knit), mutually
+  // xenophobic ones drive them out, and anyone else lives side by side.
+  private processCohabitation(state: WorldState) {
+    const cellPops = new Map<string, PopulationState[]>();
+    for (const pop of state.populations.values()) {
+      if (pop.population_size <= 0) continue;
+      const existing = cellPops.get(pop.cell_id) || [];
+      existing.push(pop);
+      cellPops.set(pop.cell_id, existing);
+    }
+
+    for (const [cellId, pops] of cellPops) {
+      if (new Set(pops.map(p => p.civilization_id)).size < 2) continue;
+
+      pops.sort((a, b) => b.population_size - a.population_size || compareIds(a.id, b.id));
+      const majority = pops[0];
+      const total = pops.reduce((sum, p) => sum + p.population_size, 0);
+
+      for (const minority of pops.slice(1)) {
+        if (minority.civilization_id === majority.civilization_id) continue;
+        const share = majority.population_size / total;
+        const hostility = (majority.ideology_xenophobia + minority.ideology_xenophobia) / 200;
+
+        if (hostility > DISPLACEMENT_HOSTILITY && share > 0.6) {
+          this.displace(state, minority, majority, Math.floor(minority.population_size * DISPLACEMENT_RATE * hostility));
+        } else {
+          const openness = 1 - majority.ideology_xenophobia / 100;
+          const conformity = 0.5 + majority.ideology_collectivism / 100;
+          const cohesion = 1 - 0.7 * minority.ideology_collectivism / 100;
+          this.assimilate(state, minority, majority, Math.floor(minority.population_size * ASSIMILATION_RATE * openness * share * conformity * cohesion));
+
+          // Neighbors who get along trade and learn from each other; wary ones stay on edge
+          const delta = hostility < 0.4 ? 1 : hostility > 0.5 ? -2 : 0;
+          if (delta !== 0) {
+            for (const pop of [majority, minority]) {
+              if (delta > 0) pop.prosperity = Math.min(100, pop.prosperity + delta);
+              else pop.stability = Math.max(0, pop.stability + delta);
+              state.touchPopulation(pop);
+            }
+          }
+        }
+
+        if (minority.population_size > 0 && minority.population_size < MIN_MINORITY) {
+          this.assimilate(state, minority, majority, minority.population_size);
+        }
+        if (minority.population_size <= 0) {
+          state.addEvent({
+            id: this.rng.uuid(),
+            type: 'assimilation',
+            scope: 'cell',
+            target_cell_id: cellId,
+            target_civ_id: minority.civilization_id,
+            data: { absorbed_by: majority.civilization_id },
+            start_tick: this.currentTick,
+            end_tick: null,
+            is_active: false
+          });
+          this.broadcast('assimilation', {
+            cell_id: cellId,
+            civilization_id: minority.civilization_id,
+            absorbed_by: majority.civilization_id
+          });
+        }
+      }
+    }
+  }
+
+  // Converts join the majority and bring a little of their outlook with them
+  private assimilate(state: WorldState, minority: PopulationState, majority: PopulationState, converts: number) {
+    if (converts <= 0) return;
+    const weight = converts / (majority.population_size + converts);
+    for (const axis of IDEOLOGY_AXES) {
+      const field = `ideology_${axis}` as IdeologyField;
+      majority[field] = Math.round(majority[field] + (minority[field] - majority[field]) * weight);
+    }
+    majority.population_size += converts;
+    minority.population_size -= converts;
+    state.touchPopulation(majority);
+    state.touchPopulation(minority);
+  }
+
+  // Refugees flee to a neighboring cell, preferring one their own people already hold;
+  // with nowhere to go they perish
+  private displace(state: WorldState, minority: PopulationState, majority: PopulationState, refugees: number) {
+    if (refugees <= 0) return;
+    const cell = state.cellsById.get(minority.cell_id)!;
+    const havens = this.neighborCells(cell).filter(n => n.biome !== 'ocean');
+    let destination: string | null = null;
+    if (havens.length > 0) {
+      const target = this.rng.weightedPick(havens, n => this.topology!.area(n.id) *
+        (state.populationsInCell(n.id).some(p => p.civilization_id === minority.civilization_id && p.population_size > 0) ? 3 : 1));
+      this.settle(state, minority, target.id, refugees);
+      destination = target.id;
+    }
+    minority.population_size -= refugees;
+    minority.stability = Math.max(0, minority.stability - 5);
+    state.touchPopulation(minority);
+
+    state.addEvent({
+      id: this.rng.uuid(),
+      type: 'displacement',
+      scope: 'cell',
+      target_cell_id: cell.id,
+      target_civ_id: minority.civilization_id,
+      data: { by: majority.civilization_id, refugees, to: destination },
+      start_tick: this.currentTick,
+      end_tick: null,
+      is_active: false
+    });
+    this.broadcast('displacement', {
+      cell_id: cell.id,
+      civilization_id: minority.civilization_id,
+      by: majority.civilization_id,
+      refugees,
+      to: destination
+    });
+  }
+
+  private processTechSpread(state: WorldState) {
     // Tech spreads from high-tech to low-tech neighbors
-    for (const pop of populations) {
-      const cell = cellMap.get(pop.cell_id);
+    for (const pop of state.populations.values()) {
+      const cell = state.cellsById.get(pop.cell_id);
       if (!cell) continue;
 
-      const neighbors = neighborMap.get(`${cell.x},${cell.y}`) || [];
+      const neighbors = this.neighborCells(cell);
       
       for (const neighborCell of neighbors) {
-        const neighborPops = populations.filter(p => p.cell_id === neighborCell.id);
+        const neighborPops = state.populationsInCell(neighborCell.id);
         
         for (const neighborPop of neighborPops) {
           if (pop.tech_level > neighborPop.tech_level + 1) {
-            // Tech diffusion
-            const spreadChance = 0.001 * (pop.tech_level - neighborPop.tech_level);
-            if (Math.random() < spreadChance) {
-              await db.query('UPDATE populations SET education = education + 1 WHERE id = $1', [neighborPop.id]);
+            // Tech diffusion; trade partners and allies share more, enemies less
+            const relation = neighborPop.civilization_id === pop.civilization_id
+              ? null
+              : state.findRelation(pop.civilization_id, neighborPop.civilization_id);
+            const spreadChance = 0.001 * (pop.tech_level - neighborPop.tech_level) * techSpreadFactor(relation);
+            if (this.rng.next() < spreadChance) {
+              neighborPop.education += 1;
+              state.touchPopulation(neighborPop);
             }
           }
         }
@@ -433,105 +1450,304 @@ export class SimulationEngine {
     }
   }
 
-  private async processEvents() {
-    // Process active events
-    const events = await db.query(
-      'SELECT * FROM events WHERE world_id = $1 AND is_active = true',
-      [this.worldId]
-    );
+  // Steps every active event through its definition (events.ts): those past their end
+  // tick end, the rest take their per-tick and, at year end, yearly effects. Once a year
+  // the events that break out on their own get their chance.
+  private processEvents(state: WorldState, isYearEnd: boolean) {
+    const ctx = this.eventContext(state);
+    for (const event of [...state.events.values()]) {
+      if (!event.is_active) continue;
 
-    for (const event of events.rows) {
-      // Check if event should end
-      if (event.end_tick && this.currentTick >= event.end_tick) {
-        await db.query('UPDATE events SET is_active = false WHERE id = $1', [event.id]);
+      if (event.end_tick !== null && this.currentTick >= event.end_tick) {
+        this.endEvent(state, event);
         continue;
       }
 
-      // Apply event effects based on type
-      switch (event.type) {
-        case 'golden_age':
-          await this.applyGoldenAge(event);
-          break;
-        case 'famine':
-          await this.applyFamine(event);
-          break;
-        case 'plague':
-          await this.applyPlague(event);
-          break;
-        // Add more event types
-      }
+      const definition = EVENT_TYPES[event.type];
+      definition?.tick?.(ctx, event);
+      if (isYearEnd && event.is_active) definition?.year?.(ctx, event);
     }
 
-    // Random event generation (rare)
-    if (Math.random() < 0.001) {
-      await this.generateRandomEvent();
+    if (!isYearEnd) return;
+    for (const [type, definition] of Object.entries(EVENT_TYPES)) {
+      if (!definition.random || this.rng.next() >= definition.random.chance) continue;
+      const target = definition.random.target(state, this.rng);
+      if (!target) continue;
+
+      const event = this.startEvent(state, type, target, {});
+      const where = definition.scope === 'global' ? 'worldwide' :
+        definition.scope === 'civilization' ? `in civilization ${target.civ_id}` : `in cell ${target.cell_id}`;
+      console.log(`📢 ${type.replace(/_/g, ' ')} ${where}`);
+      this.announceEvent(event);
     }
   }
 
-  private async applyGoldenAge(event: any) {
-    if (event.target_civ_id) {
-      await db.query(`
-        UPDATE populations SET prosperity = LEAST(100, prosperity + 0.5), education = LEAST(100, education + 0.2)
-        WHERE civilization_id = $1
-      `, [event.target_civ_id]);
+  // Tells clients an event has started
+  private announceEvent(event: EventState) {
+    const definition = EVENT_TYPES[event.type];
+    this.broadcast('newEvent', {
+      id: event.id,
+      type: event.type,
+      scope: definition.scope,
+      target: definition.scope === 'civilization' ? event.target_civ_id : event.target_cell_id,
+      description: definition.description,
+      modifiers: definition.modifiers ?? null,
+      end_tick: event.end_tick,
+      year: this.currentYear
+    });
+  }
+
+  // What an event's hooks get to work with
+  private eventContext(state: WorldState): EventContext {
+    return {
+      state,
+      topology: this.topology!,
+      rng: this.rng,
+      tick: this.currentTick,
+      year: this.currentYear,
+      ticksPerYear: TICKS_PER_YEAR,
+      broadcast: (event, payload) => this.broadcast(event, payload),
+      releaseDisease: (cellId, event) => this.releaseDisease(state, naturalTraits(this.rng), cellId, null, undefined, event),
+      end: event => this.endEvent(state, event)
+    };
+  }
+
+  // Starts an event of a registered type; it lasts as long as its definition says unless
+  // given an end tick
+  private startEvent(state: WorldState, type: string, target: EventTarget, data: any, endTick?: number | null): EventState {
+    const definition = EVENT_TYPES[type];
+    const event: EventState = {
+      id: this.rng.uuid(),
+      type,
+      scope: definition.scope,
+      target_cell_id: target.cell_id,
+      target_civ_id: target.civ_id,
+      data,
+      start_tick: this.currentTick,
+      end_tick: endTick !== undefined ? endTick :
+        definition.duration === null ? null : this.currentTick + definition.duration * TICKS_PER_YEAR,
+      is_active: true
+    };
+    state.addEvent(event);
+    definition.start?.(this.eventContext(state), event);
+    return event;
+  }
+
+  private endEvent(state: WorldState, event: EventState) {
+    event.is_active = false;
+    event.end_tick = Math.min(event.end_tick ?? this.currentTick, this.currentTick);
+    state.touchEvent(event);
+    EVENT_TYPES[event.type]?.end?.(this.eventContext(state), event);
+    this.broadcast('eventEnded', { id: event.id, type: event.type, scope: event.scope, year: this.currentYear });
+  }
+
+  // Events loaded from the database that no longer fit their definition are ended
+  private checkEvents(state: WorldState) {
+    for (const event of state.events.values()) {
+      if (!event.is_active) continue;
+      const problem = checkEvent(state, event);
+      if (!problem) continue;
+      console.warn(`⚠️ Ending ${event.type} event ${event.id}: ${problem}`);
+      event.is_active = false;
+      event.end_tick = this.currentTick;
+      state.touchEvent(event);
     }
   }
 
-  private async applyFamine(event: any) {
-    if (event.target_cell_id) {
-      await db.query(`
-        UPDATE populations SET 
-          population_size = GREATEST(0, population_size * 0.99),
-          prosperity = GREATEST(0, prosperity - 1),
-          stability = GREATEST(0, stability - 0.5)
-        WHERE cell_id = $1
-      `, [event.target_cell_id]);
+  // Once a year, after everything else: civilizations at the singularity ascend, a world
+  // nobody is left in finishes, and one that has stagnated is shaken up, then put to a
+  // reset vote (endstates.ts). Each step is reflected in the world's status.
+  private async processEndStates(state: WorldState) {
+    const ascending = ascendingCivilizations(state);
+    for (const civ of ascending) {
+      this.ascendCivilization(state, civ);
+    }
+
+    // A world that never had anyone in it has nothing to end
+    if (state.civilizations.size > 0 && isExtinct(state)) {
+      await this.finish(state, ascending.length > 0 ? 'ascension' : 'extinction');
+      return;
+    }
+
+    const since = this.currentYear - this.statusYear;
+    if (this.status === 'voting') {
+      if (since >= VOTE_YEARS) await this.closeResetVote(state);
+      return;
+    }
+    if (since < (this.status === 'stagnant' ? SHAKE_UP_YEARS : STAGNATION_YEARS)) return;
+
+    // Years before the current status don't count, except that a shake-up is judged on
+    // whether it broke the stagnation that brought it on
+    const history = await this.storage.snapshots.listRecent(this.worldId, STAGNATION_YEARS);
+    const stagnant = isStagnant(this.status === 'stagnant' ? history : history.filter(s => s.year > this.statusYear));
+    if (this.status === 'stagnant') {
+      if (stagnant) this.openResetVote(state);
+      else this.setStatus(settledStatus(state));
+    } else if (stagnant) {
+      this.shakeUp(state);
     }
   }
 
-  private async applyPlague(event: any) {
-    if (event.target_cell_id) {
-      await db.query(`
-        UPDATE populations SET population_size = GREATEST(0, population_size * 0.95)
-        WHERE cell_id = $1
-      `, [event.target_cell_id]);
+  private setStatus(status: WorldStatus) {
+    const worldId = this.worldId;
+    const year = this.currentYear;
+    this.status = status;
+    this.statusYear = year;
+    this.pendingWrites.push(tx => tx.worlds.saveStatus(worldId, status, year));
+    this.broadcast('worldStatus', { status, status_year: year });
+  }
+
+  // The civilization leaves the map, and the world plays by the rules it leaves behind
+  private ascendCivilization(state: WorldState, civ: CivilizationState) {
+    const people = ascend(state, civ, this.currentYear);
+    console.log(`✨ ${civ.name} reached the singularity and ascended, ${people} people leaving the world behind`);
+    const event = this.startEvent(state, 'ascension', { cell_id: null, civ_id: civ.id }, { name: civ.name, people });
+    this.announceEvent(event);
+    this.broadcast('civilizationAscended', { civilization_id: civ.id, name: civ.name, people, year: this.currentYear });
+    if (this.status !== 'ascended') this.setStatus('ascended');
+  }
+
+  private stagnation(state: WorldState, response: string) {
+    state.addEvent({
+      id: this.rng.uuid(),
+      type: 'stagnation',
+      scope: 'global',
+      target_cell_id: null,
+      target_civ_id: null,
+      data: { years: STAGNATION_YEARS, response },
+      start_tick: this.currentTick,
+      end_tick: null,
+      is_active: false
+    });
+  }
+
+  private shakeUp(state: WorldState) {
+    console.log(`😴 Nothing much has changed for ${STAGNATION_YEARS} years; shaking the world up`);
+    this.stagnation(state, 'shake_up');
+    this.announceEvent(this.startEvent(state, 'shake_up', { cell_id: null, civ_id: null }, {}));
+    this.setStatus('stagnant');
+  }
+
+  // Votes left over from an earlier vote don't count
+  private openResetVote(state: WorldState) {
+    const worldId = this.worldId;
+    console.log(`🗳️ The shake-up didn't take; players may vote on a reset for ${VOTE_YEARS} years`);
+    this.stagnation(state, 'vote');
+    this.pendingWrites.push(tx => tx.worlds.clearResetVotes(worldId));
+    this.setStatus('voting');
+  }
+
+  private async closeResetVote(state: WorldState) {
+    const worldId = this.worldId;
+    const tally = await this.storage.worlds.tallyResetVotes(worldId);
+    const passed = resetPassed(tally);
+    console.log(`🗳️ Reset vote ${passed ? 'passed' : 'failed'}: ${tally.in_favor} for, ${tally.against} against`);
+    state.addEvent({
+      id: this.rng.uuid(),
+      type: 'reset_vote',
+      scope: 'global',
+      target_cell_id: null,
+      target_civ_id: null,
+      data: { ...tally, passed },
+      start_tick: this.currentTick,
+      end_tick: null,
+      is_active: false
+    });
+    this.broadcast('resetVoteClosed', { ...tally, passed, year: this.currentYear });
+    this.pendingWrites.push(tx => tx.worlds.clearResetVotes(worldId));
+
+    if (passed) this.restartPending = true;
+    else this.setStatus(settledStatus(state));
+  }
+
+  // Generates a new world in place of this one, on the same kind of grid and in the same
+  // climate, from a seed the old world's random stream picks; the engine carries on with it
+  private async restart(state: WorldState) {
+    const worldId = this.worldId;
+    const seed = 1 + this.rng.int(999999);
+    const params = {
+      continents: 4,
+      waterCoverage: 0.7,
+      avgTemperature: state.climate.base_temperature ?? 15,
+      biomeVariety: 1.0,
+      grid: gridTypeOf(state.cells),
+      seed
+    };
+    await this.storage.transaction(async tx => {
+      await tx.worlds.restart(worldId, seed);
+      await generateWorld(params, worldId, tx);
+    });
+    console.log(`🔄 World ${worldId} reset by vote, regenerated from seed ${seed}`);
+    await this.loadWorld();
+    this.io.emit('worldRestarted', { seed, status: this.status, status_year: this.statusYear });
+  }
+
+  // Writes up the world's post-mortem and marks it finished; the engine stops ticking it
+  // once this tick is through
+  private async finish(state: WorldState, reason: string) {
+    const worldId = this.worldId;
+    const history = await this.storage.snapshots.listRecent(worldId, this.currentYear);
+    const archivedTech = await this.storage.populations.highestTechLevel(worldId);
+    const report = postMortem(state, history, reason, this.currentTick, this.currentYear, this.livingSpecies(state).size, archivedTech);
+    console.log(`🏁 World ${worldId} finished in year ${this.currentYear} (${reason})`);
+    this.pendingWrites.push(tx => tx.worlds.savePostMortem(worldId, report));
+    this.setStatus('finished');
+    this.broadcast('worldFinished', report);
+  }
+
+  // Civilizations with nothing in force now and then adopt a policy to their liking
+  private processPolicies(state: WorldState) {
+    const inForce = new Set([...state.events.values()]
+      .filter(e => e.is_active && e.type === 'policy')
+      .map(e => e.target_civ_id));
+    const civs = [...state.civilizations.values()]
+      .filter(c => c.status === 'active' && !inForce.has(c.id))
+      .sort((a, b) => compareIds(a.id, b.id));
+
+    for (const civ of civs) {
+      if (this.rng.next() >= POLICY_ADOPTION_CHANCE) continue;
+      const pops = [...state.populations.values()].filter(p => p.civilization_id === civ.id && p.population_size > 0);
+      if (pops.length === 0) continue;
+      this.enactPolicy(state, civ, choosePolicy(civilizationOutlook(pops), this.rng), null);
     }
   }
 
-  private async generateRandomEvent() {
-    const events = ['golden_age', 'resource_discovery', 'natural_disaster'];
-    const eventType = events[Math.floor(Math.random() * events.length)];
-    
-    // Get a random civilization
-    const civs = await db.query('SELECT id FROM civilizations WHERE world_id = $1', [this.worldId]);
-    if (civs.rows.length === 0) return;
-    
-    const targetCiv = civs.rows[Math.floor(Math.random() * civs.rows.length)];
-    
-    await db.query(`
-      INSERT INTO events (world_id, type, scope, target_civ_id, start_tick, end_tick, is_active)
-      VALUES ($1, $2, 'civilization', $3, $4, $5, true)
-    `, [this.worldId, eventType, targetCiv.id, this.currentTick, this.currentTick + TICKS_PER_YEAR * 10]);
-
-    this.io.emit('newEvent', {
-      type: eventType,
-      target: targetCiv.id,
+  // Puts a policy in force, replacing whatever the civilization was doing before
+  private enactPolicy(state: WorldState, civ: CivilizationState, key: string, forcedBy: string | null) {
+    const policy = POLICIES[key];
+    for (const event of state.events.values()) {
+      if (event.is_active && event.type === 'policy' && event.target_civ_id === civ.id) {
+        event.is_active = false;
+        event.end_tick = this.currentTick;
+        state.touchEvent(event);
+      }
+    }
+
+    const years = policyYears(policy);
+    console.log(`📜 ${civ.name} adopted ${policy.name}${forcedBy ? ' (alien meddling)' : ''}`);
+    this.startEvent(state, 'policy', { cell_id: civ.capital_cell_id, civ_id: civ.id },
+      { policy: key, name: policy.name, harmful: policy.harmful, forced_by: forcedBy },
+      this.currentTick + years * TICKS_PER_YEAR);
+    this.broadcast('policyEnacted', {
+      civilization_id: civ.id,
+      policy: key,
+      name: policy.name,
+      harmful: policy.harmful,
+      years,
+      forced: !!forcedBy,
       year: this.currentYear
     });
   }
 
   private async resolveExperiments() {
-    const pending = await db.query(
-      "SELECT * FROM experiments WHERE status = 'pending' AND world_id = $1",
-      [this.worldId]
-    );
+    const pending = await this.storage.experiments.listPending(this.worldId);
 
-    for (const exp of pending.rows) {
+    for (const exp of pending) {
       await this.executeExperiment(exp);
     }
   }
 
-  async executeExperiment(experiment: any) {
+  async executeExperiment(experiment: ExperimentRecord) {
     let result: any = { success: false };
     
     try {
@@ -553,15 +1769,12 @@ export class SimulationEngine {
           break;
       }
 
-      await db.query(
-        "UPDATE experiments SET status = 'resolved', result = $1, resolved_at = NOW() WHERE id = $2",
-        [JSON.stringify(result), experiment.id]
-      );
+      this.pendingWrites.push(tx => tx.experiments.resolve(experiment.id, 'resolved', result));
 
       // Update player reputation based on experiment outcome
       await this.updatePlayerReputation(experiment.player_id, experiment.category, result);
 
-      this.io.emit('experimentResolved', {
+      this.broadcast('experimentResolved', {
         experiment_id: experiment.id,
         player_id: experiment.player_id,
         type: experiment.type,
@@ -570,33 +1783,69 @@ export class SimulationEngine {
 
     } catch (error) {
       console.error('Experiment execution error:', error);
-      await db.query(
-        "UPDATE experiments SET status = 'failed', result = $1, resolved_at = NOW() WHERE id = $2",
-        [JSON.stringify({ error: 'Execution failed' }), experiment.id]
-      );
+      this.pendingWrites.push(tx => tx.experiments.resolve(experiment.id, 'failed', { error: 'Execution failed' }));
     }
   }
 
+  // Applies a change to every population in the experiment's target cell
+  private updateCellPopulations(cellId: string, apply: (pop: PopulationState) => void) {
+    if (!this.state) return;
+    for (const pop of this.state.populationsInCell(cellId)) {
+      apply(pop);
+      this.state.touchPopulation(pop);
+    }
+  }
+
+  // Sociopolitical experiments work on whichever civilization holds the most people in the target cell
+  private dominantPopulation(cellId: string): PopulationState | undefined {
+    return this.state!.populationsInCell(cellId)
+      .filter(p => p.population_size > 0)
+      .sort((a, b) => b.population_size - a.population_size)[0];
+  }
+
   private async executeBiologicalExperiment(exp: any) {
     switch (exp.type) {
-      case 'seed_species':
-        // Add a new species to a cell
-        const speciesId = exp.parameters.species_id;
-        await db.query(`
-          INSERT INTO cell_species (cell_id, species_id, population_density)
-          VALUES ($1, $2, 100)
-          ON CONFLICT (cell_id, species_id) DO UPDATE SET population_density = cell_species.population_density + 100
-        `, [exp.target_id, speciesId]);
-        return { success: true, message: 'Species introduced successfully' };
-
-      case 'pandemic':
-        // Reduce populations in target area
-        const lethality = exp.parameters.lethality || 0.1;
-        await db.query(`
-          UPDATE populations SET population_size = GREATEST(0, population_size * (1 - $1))
-          WHERE cell_id = $2
-        `, [lethality, exp.target_id]);
-        return { success: true, casualties: lethality * 100 + '% mortality' };
+      case 'seed_species': {
+        // Add a species to a cell; without a choice, one of the world's species at random
+        const known = [...this.state!.species.keys()].sort(compareIds);
+        if (known.length === 0) return { success: false, message: 'This world has no species' };
+        const speciesId = exp.parameters.species_id ?? this.rng.pick(known);
+        if (!this.state!.species.has(speciesId)) return { success: false, message: 'Unknown species' };
+        if (!this.state!.cellsById.has(exp.target_id)) return { success: false, message: 'Unknown cell' };
+
+        const density = this.state!.speciesInCell(exp.target_id).get(speciesId) ?? 0;
+        this.state!.setSpeciesDensity(exp.target_id, speciesId, density + 100);
+        return { success: true, message: `${this.state!.species.get(speciesId)!.name} introduced successfully` };
+      }
+
+      case 'rewild': {
+        // Lets the land go back to the wild at once, its yields restored
+        const cell = this.state!.cellsById.get(exp.target_id);
+        if (!cell || cell.biome === 'ocean') return { success: false, message: 'Nothing to rewild there' };
+        const from = cell.land_use;
+        const changed = setLandUse(this.state!, cell, 'wild');
+        if (!changed && depletion(cell) === 0) return { success: false, message: 'The land is already wild' };
+
+        cell.food_stock = cell.food_capacity;
+        cell.water_stock = cell.water_capacity;
+        this.state!.touchCell(cell);
+        if (changed) {
+          this.broadcast('landUse', {
+            year: this.currentYear,
+            cells: [{ id: cell.id, biome: cell.biome, land_use: cell.land_use, from }]
+          });
+        }
+        return { success: true, message: `The ${cell.biome} grows back` };
+      }
+
+      case 'pandemic': {
+        // A disease of the player's design, spreading from the target cell like any other
+        const traits = clampTraits(exp.parameters || {}, PANDEMIC_DEFAULTS);
+        const name = typeof exp.parameters?.name === 'string' ? exp.parameters.name.trim().slice(0, 50) : '';
+        const disease = this.releaseDisease(this.state!, traits, exp.target_id, exp.player_id, name || undefined);
+        if (!disease) return { success: false, message: 'Nobody lives there to infect' };
+        return { success: true, message: `The ${disease.name} breaks out`, disease_id: disease.id, ...traits };
+      }
 
       default:
         return { success: false, message: 'Unknown biological experiment' };
@@ -606,20 +1855,17 @@ export class SimulationEngine {
   private async executeTechnologicalExperiment(exp: any) {
     switch (exp.type) {
       case 'uplift':
-        await db.query(`
-          UPDATE populations SET 
-            tech_level = LEAST(9, tech_level + 1),
-            stability = GREATEST(0, stability - 10),
-            education = LEAST(100, education + 20)
-          WHERE cell_id = $1
-        `, [exp.target_id]);
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop.tech_level = Math.min(9, pop.tech_level + 1);
+          pop.stability = Math.max(0, pop.stability - 10);
+          pop.education = Math.min(100, pop.education + 20);
+        });
         return { success: true, message: 'Technology uplifted!' };
 
       case 'gift_knowledge':
-        await db.query(`
-          UPDATE populations SET education = LEAST(100, education + 30)
-          WHERE cell_id = $1
-        `, [exp.target_id]);
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop.education = Math.min(100, pop.education + 30);
+        });
         return { success: true, message: 'Knowledge gifted' };
 
       default:
@@ -629,23 +1875,70 @@ export class SimulationEngine {
 
   private async executeSociopoliticalExperiment(exp: any) {
     switch (exp.type) {
+      case 'policy_insanity': {
+        // Whoever rules the target cell suddenly finds a terrible idea irresistible
+        const target = this.dominantPopulation(exp.target_id);
+        const civ = target && this.state!.civilizations.get(target.civilization_id);
+        if (!civ) return { success: false, message: 'No civilization lives there' };
+
+        const requested = exp.parameters?.policy;
+        if (requested && !POLICIES[requested]?.harmful) {
+          return { success: false, message: `Unknown policy ${requested}` };
+        }
+        const pops = [...this.state!.populations.values()].filter(p => p.civilization_id === civ.id && p.population_size > 0);
+        const key = requested ?? choosePolicy(civilizationOutlook(pops), this.rng, true);
+        this.enactPolicy(this.state!, civ, key, exp.player_id);
+        return { success: true, message: `${civ.name} adopted ${POLICIES[key].name}` };
+      }
+
+      case 'sow_discord':
+      case 'broker_peace': {
+        const target = this.dominantPopulation(exp.target_id);
+        if (!target) return { success: false, message: 'No civilization lives there' };
+
+        const civId = target.civilization_id;
+        const relations = [...this.state!.relations.values()]
+          .filter(r => r.civ_a === civId || r.civ_b === civId)
+          .sort((x, y) => compareIds(x.civ_a, y.civ_a) || compareIds(x.civ_b, y.civ_b));
+        if (relations.length === 0) return { success: false, message: 'They have no neighbors to deal with' };
+
+        const shift = exp.type === 'sow_discord' ? -25 : 25;
+        for (const relation of relations) {
+          adjustOpinion(this.state!, relation, shift);
+          // Rivals who no longer hate each other lay down their arms
+          if (exp.type === 'broker_peace' && relation.at_war && relation.opinion > -30) {
+            this.recordDiplomacy(this.state!, endWar(this.state!, relation));
+          }
+        }
+        return {
+          success: true,
+          message: exp.type === 'sow_discord' ? 'Suspicion spreads among the neighbors' : 'Envoys carry words of peace'
+        };
+      }
+
       case 'ideology_nudge':
-        const axis = exp.parameters.axis || 'collectivism';
-        const direction = exp.parameters.direction || 5;
-        await db.query(`
-          UPDATE populations SET ideology_${axis} = GREATEST(0, LEAST(100, ideology_${axis} + $1))
-          WHERE cell_id = $2
-        `, [direction, exp.target_id]);
+        const axis = exp.parameters?.axis || 'collectivism';
+        // Parameters arrive as JSON and may hold the shift as a string; the columns are whole numbers
+        const direction = Math.round(Number(exp.parameters?.direction)) || 5;
+        if (!IDEOLOGY_AXES.includes(axis)) {
+          return { success: false, message: `Unknown ideology axis ${axis}` };
+        }
+        const field = `ideology_${axis}` as IdeologyField;
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop[field] = clamp(pop[field] + direction);
+        });
         return { success: true, message: `Ideology shifted toward ${axis}` };
 
-      case 'prophetic_vision':
-        await db.query(`
-          UPDATE populations SET 
-            ideology_tradition = GREATEST(0, LEAST(100, ideology_tradition + 15)),
-            stability = GREATEST(0, stability - 5)
-          WHERE cell_id = $1
-        `, [exp.target_id]);
-        return { success: true, message: 'Visions have been sent' };
+      case 'prophetic_vision': {
+        // Visions of peace or of conquest; either way the faithful cling to the old ways
+        const conquest = exp.parameters?.message === 'conquest';
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop.ideology_tradition = clamp(pop.ideology_tradition + 15);
+          pop.war_tendency = clamp(pop.war_tendency + (conquest ? 15 : -15));
+          pop.stability = Math.max(0, pop.stability - 5);
+        });
+        return { success: true, message: conquest ? 'Visions of conquest have been sent' : 'Visions of peace have been sent' };
+      }
 
       default:
         return { success: false, message: 'Unknown sociopolitical experiment' };
@@ -655,25 +1948,43 @@ export class SimulationEngine {
   private async executeCatastrophicExperiment(exp: any) {
     switch (exp.type) {
       case 'meteor':
-        await db.query(`
-          UPDATE populations SET 
-            population_size = GREATEST(0, population_size * 0.3),
-            stability = 0,
-            prosperity = 0
-          WHERE cell_id = $1
-        `, [exp.target_id]);
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop.population_size = Math.max(0, Math.floor(pop.population_size * 0.3));
+          pop.stability = 0;
+          pop.prosperity = 0;
+        });
         return { success: true, message: 'Impact successful. Destruction: catastrophic.' };
 
       case 'supervolcano':
         // Affects target and neighbors
-        await db.query(`
-          UPDATE populations SET 
-            population_size = GREATEST(0, population_size * 0.5),
-            prosperity = GREATEST(0, prosperity - 50)
-          WHERE cell_id = $1
-        `, [exp.target_id]);
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop.population_size = Math.max(0, Math.floor(pop.population_size * 0.5));
+          pop.prosperity = Math.max(0, pop.prosperity - 50);
+        });
         return { success: true, message: 'Volcanic winter initiated' };
 
+      case 'climate_event': {
+        // Heats or cools the whole world; biomes follow at the end of the year
+        const direction = exp.parameters.direction === 'cooling' ? -1 : 1;
+        const degrees = Math.max(0.5, Math.min(5, Number(exp.parameters.degrees) || 2));
+        const shift = shiftClimate(this.state!, direction * degrees, this.rng);
+        if (shift === 0) return { success: false, message: 'The climate cannot be pushed any further' };
+
+        this.state!.addEvent({
+          id: this.rng.uuid(),
+          type: 'climate_event',
+          scope: 'global',
+          target_cell_id: null,
+          target_civ_id: null,
+          data: { shift, temperature_anomaly: this.state!.climate.temperature_anomaly, by: exp.player_id },
+          start_tick: this.currentTick,
+          end_tick: null,
+          is_active: false
+        });
+        this.broadcast('climateEvent', { shift, temperature_anomaly: this.state!.climate.temperature_anomaly, year: this.currentYear });
+        return { success: true, message: `The world ${shift > 0 ? 'warms' : 'cools'} by ${Math.abs(shift)}°C` };
+      }
+
       default:
         return { success: false, message: 'Unknown catastrophic experiment' };
     }
@@ -682,21 +1993,17 @@ export class SimulationEngine {
   private async executePlayfulExperiment(exp: any) {
     switch (exp.type) {
       case 'crop_circles':
-        await db.query(`
-          UPDATE populations SET 
-            ideology_tradition = LEAST(100, ideology_tradition + 5),
-            stability = GREATEST(0, stability - 2)
-          WHERE cell_id = $1
-        `, [exp.target_id]);
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop.ideology_tradition = Math.min(100, pop.ideology_tradition + 5);
+          pop.stability = Math.max(0, pop.stability - 2);
+        });
         return { success: true, message: 'Mysterious patterns appeared. Locals are confused.' };
 
       case 'miracle':
-        await db.query(`
-          UPDATE populations SET 
-            prosperity = LEAST(100, prosperity + 10),
-            ideology_tradition = LEAST(100, ideology_tradition + 10)
-          WHERE cell_id = $1
-        `, [exp.target_id]);
+        this.updateCellPopulations(exp.target_id, pop => {
+          pop.prosperity = Math.min(100, pop.prosperity + 10);
+          pop.ideology_tradition = Math.min(100, pop.ideology_tradition + 10);
+        });
         return { success: true, message: 'A miracle occurred! Faith increased.' };
 
       default:
@@ -729,52 +2036,72 @@ export class SimulationEngine {
         break;
     }
 
-    await db.query(`
-      UPDATE players SET 
-        benevolence = benevolence + $1,
-        mischief = mischief + $2,
-        curiosity = curiosity + $3
-      WHERE id = $4
-    `, [benevolence, mischief, curiosity, playerId]);
+    this.pendingWrites.push(tx => tx.players.adjustReputation(playerId, { benevolence, mischief, curiosity }));
   }
 
-  private async createSnapshot() {
-    const stats = await this.getWorldStats();
-    
-    await db.query(`
-      INSERT INTO world_snapshots (world_id, tick, year, total_population, num_civilizations, avg_tech_level)
-      VALUES ($1, $2, $3, $4, $5, $6)
-    `, [this.worldId, this.currentTick, this.currentYear, stats.totalPopulation, stats.numCivilizations, stats.avgTechLevel]);
-  }
-
-  private async getWorldStats() {
-    const result = await db.query(`
-      SELECT 
-        SUM(p.population_size) as total_population,
-        COUNT(DISTINCT p.civilization_id) as num_civilizations,
-        AVG(p.tech_level) as avg_tech_level,
-        AVG(p.stability) as avg_stability,
-        AVG(p.prosperity) as avg_prosperity
-      FROM populations p
-      JOIN cells c ON p.cell_id = c.id
-      WHERE c.world_id = $1
-    `, [this.worldId]);
+  // Queued so it lands in the same transaction as the year-end tick
+  private createSnapshot() {
+    const stats = this.getWorldStats();
+    const worldId = this.worldId;
+    const snapshot = {
+      tick: this.currentTick,
+      year: this.currentYear,
+      total_population: stats.totalPopulation,
+      num_civilizations: stats.numCivilizations,
+      avg_tech_level: stats.avgTechLevel
+    };
+
+    this.pendingWrites.push(tx => tx.snapshots.create(worldId, snapshot));
+  }
+
+
+  getWorldStats() {
+    const pops = this.state ? [...this.state.populations.values()] : [];
+    const average = (field: keyof PopulationState) =>
+      pops.length > 0 ? pops.reduce((sum, p) => sum + (p[field] as number), 0) / pops.length : 0;
 
     return {
-      totalPopulation: result.rows[0].total_population || 0,
-      numCivilizations: result.rows[0].num_civilizations || 0,
-      avgTechLevel: parseFloat(result.rows[0].avg_tech_level) || 0,
-      avgStability: parseFloat(result.rows[0].avg_stability) || 0,
-      avgProsperity: parseFloat(result.rows[0].avg_prosperity) || 0
+      totalPopulation: pops.reduce((sum, p) => sum + p.population_size, 0),
+      numCivilizations: new Set(pops.map(p => p.civilization_id)).size,
+      avgTechLevel: average('tech_level'),
+      avgStability: average('stability'),
+      avgProsperity: average('prosperity')
     };
   }
 
+  // Same figures as getWorldStats, broken down per civilization
+  getCivilizationStats() {
+    const pops = this.state ? [...this.state.populations.values()] : [];
+    const civs = this.state ? [...this.state.civilizations.values()] : [];
+
+    return civs.map(civ => {
+      const civPops = pops.filter(p => p.civilization_id === civ.id);
+      const average = (field: keyof PopulationState) =>
+        civPops.length > 0 ? civPops.reduce((sum, p) => sum + (p[field] as number), 0) / civPops.length : 0;
+
+      return {
+        civilizationId: civ.id,
+        name: civ.name,
+        totalPopulation: civPops.reduce((sum, p) => sum + p.population_size, 0),
+        numPopulations: civPops.length,
+        avgTechLevel: average('tech_level'),
+        avgStability: average('stability'),
+        avgProsperity: average('prosperity')
+      };
+    });
+  }
+
   getState() {
     return {
       tick: this.currentTick,
       year: this.currentYear,
       worldId: this.worldId,
+      status: this.status,
       isRunning: this.isRunning
     };
   }
+
+  getSchedulerMetrics(): SchedulerMetrics {
+    return this.scheduler.getMetrics();
+  }
 }
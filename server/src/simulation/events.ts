@@ -0,0 +1,487 @@
+// The event registry. Every kind of event the simulation records is defined here: the scope
+// it targets, how long it lasts, what sets it off and what it does — when it starts, every
+// tick and every year while it is active, and when it ends. Most kinds are records of
+// something that already happened (a battle, a secession, a flood) and never active; the
+// rest run for a while, and some also bend the world's rules where they reach — food
+// yield, the odds of a breakthrough, the death rate. Those modifiers stack: a solar
+// minimum on top of a local disaster hits a harvest twice. The engine starts events
+// through their definitions, rolls for the ones that break out on their own once a year,
+// and checks every active event it loads against its definition.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, PopulationState, EventState, DiseaseState } from './state.js';
+import { Topology } from '../worldgen/topology.js';
+import { compareIds } from '../storage/types.js';
+import { POLICIES, policyPhase } from './policy.js';
+import { shiftClimate } from './climate.js';
+import { STAGNATION_YEARS } from './endstates.js';
+
+// cell: one cell; region: a cell and its neighbors; civilization: every cell it holds; global: the world
+export type EventScope = 'cell' | 'civilization' | 'region' | 'global';
+
+export interface EventTarget {
+  cell_id: string | null;
+  civ_id: string | null;
+}
+
+// What the engine lends an event's hooks
+export interface EventContext {
+  state: WorldState;
+  topology: Topology;
+  rng: SeededRandom;
+  tick: number;
+  year: number;
+  ticksPerYear: number;
+  broadcast(event: string, payload: any): void;
+  // Sets a disease loose in the cell, with the event standing for its outbreak
+  releaseDisease(cellId: string, event: EventState): DiseaseState | null;
+  // Ends the event early, running its end effects
+  end(event: EventState): void;
+}
+
+type EventHook = (ctx: EventContext, event: EventState) => void;
+
+// Multipliers an event puts on the rules wherever it reaches
+export interface Modifiers {
+  // People fed per unit of food
+  food_yield: number;
+  // Odds of a technological breakthrough
+  tech_leap: number;
+  death_rate: number;
+}
+
+export const NO_MODIFIERS: Modifiers = { food_yield: 1, tech_leap: 1, death_rate: 1 };
+
+export interface ActiveModifiers {
+  global: Modifiers;
+  // Populations a local event reaches as well, with the global modifiers folded in
+  populations: Map<string, Modifiers>;
+}
+
+export interface EventDefinition {
+  description: string;
+  scope: EventScope;
+  // Years it stays active; null if something else decides when it ends, 0 for records
+  duration: number | null;
+  // What sets it off
+  trigger: string;
+  // For events that break out on their own: the yearly chance and where, if anywhere, it strikes
+  random?: {
+    chance: number;
+    target(state: WorldState, rng: SeededRandom): EventTarget | null;
+  };
+  // While it is active
+  modifiers?: Partial<Modifiers>;
+  start?: EventHook;
+  tick?: EventHook;
+  year?: EventHook;
+  end?: EventHook;
+}
+
+// Stability and prosperity a civilization's people need on average for a golden age
+const GOLDEN_AGE_STABILITY = 60;
+const GOLDEN_AGE_PROSPERITY = 50;
+// Share of the people a natural disaster kills where it strikes, and in the cells around
+const DISASTER_DEATHS = 0.1;
+const DISASTER_REGION_DEATHS = 0.03;
+// Share of its mineral and energy capacity a discovery adds to a cell's stocks every year
+const DISCOVERY_YIELD = 0.1;
+// °C an ice age cools the world by as it sets in; the climate recovers on its own
+const ICE_AGE_COOLING = 3;
+// Stability a shake-up costs everyone, and the most it moves each of their ideology axes
+const SHAKE_UP_UNREST = 25;
+const SHAKE_UP_DRIFT = 15;
+const IDEOLOGY_FIELDS = ['ideology_collectivism', 'ideology_tradition', 'ideology_authoritarianism', 'ideology_xenophobia'] as const;
+
+function points(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+function livingPopulations(state: WorldState): PopulationState[] {
+  return [...state.populations.values()].filter(p => p.population_size > 0);
+}
+
+// A populated cell, the more people the likelier
+function crowdedCell(state: WorldState, rng: SeededRandom): string | null {
+  const people = new Map<string, number>();
+  for (const pop of livingPopulations(state)) {
+    people.set(pop.cell_id, (people.get(pop.cell_id) ?? 0) + pop.population_size);
+  }
+  const cells = [...people.keys()].sort(compareIds);
+  return cells.length > 0 ? rng.weightedPick(cells, id => people.get(id)!) : null;
+}
+
+function activeOfType(state: WorldState, type: string): EventState[] {
+  return [...state.events.values()].filter(e => e.is_active && e.type === type);
+}
+
+// The world as a target, unless an event of the type is already under way
+function worldwide(type: string) {
+  return (state: WorldState): EventTarget | null => activeOfType(state, type).length > 0 ? null : { cell_id: null, civ_id: null };
+}
+
+// Cells the event reaches
+export function eventCells(state: WorldState, topology: Topology, event: EventState): Set<string> {
+  switch (EVENT_TYPES[event.type]?.scope ?? event.scope) {
+    case 'cell':
+      return new Set(event.target_cell_id ? [event.target_cell_id] : []);
+    case 'region':
+      return new Set(event.target_cell_id ? [event.target_cell_id, ...topology.neighbors(event.target_cell_id)] : []);
+    case 'civilization':
+      return new Set(livingPopulations(state).filter(p => p.civilization_id === event.target_civ_id).map(p => p.cell_id));
+    default:
+      return new Set(state.cells.map(c => c.id));
+  }
+}
+
+// Whether the event reaches the population
+export function reaches(state: WorldState, topology: Topology, event: EventState, pop: PopulationState): boolean {
+  const scope = EVENT_TYPES[event.type]?.scope ?? event.scope;
+  if (scope === 'civilization') return pop.civilization_id === event.target_civ_id;
+  return eventCells(state, topology, event).has(pop.cell_id);
+}
+
+// Living populations the event reaches
+function reachedPopulations(state: WorldState, topology: Topology, event: EventState): PopulationState[] {
+  if (EVENT_TYPES[event.type]?.scope === 'civilization') {
+    return livingPopulations(state).filter(pop => pop.civilization_id === event.target_civ_id);
+  }
+  // Cell by cell in storage order (y, x), which keeps the populations in iteration order
+  const cells = [...eventCells(state, topology, event)]
+    .map(id => state.cellsById.get(id)!)
+    .filter(Boolean)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+  return cells.flatMap(cell => state.populationsInCell(cell.id).filter(pop => pop.population_size > 0));
+}
+
+function reached(ctx: EventContext, event: EventState): PopulationState[] {
+  return reachedPopulations(ctx.state, ctx.topology, event);
+}
+
+function combine(modifiers: Modifiers, more: Partial<Modifiers>): Modifiers {
+  return {
+    food_yield: modifiers.food_yield * (more.food_yield ?? 1),
+    tech_leap: modifiers.tech_leap * (more.tech_leap ?? 1),
+    death_rate: modifiers.death_rate * (more.death_rate ?? 1)
+  };
+}
+
+// Every active event's modifiers, combined where they overlap
+export function activeModifiers(state: WorldState, topology: Topology): ActiveModifiers {
+  let global = NO_MODIFIERS;
+  const local: EventState[] = [];
+  for (const event of state.events.values()) {
+    const definition = EVENT_TYPES[event.type];
+    if (!event.is_active || !definition?.modifiers) continue;
+    if (definition.scope === 'global') global = combine(global, definition.modifiers);
+    else local.push(event);
+  }
+
+  const populations = new Map<string, Modifiers>();
+  for (const event of local) {
+    for (const pop of reachedPopulations(state, topology, event)) {
+      populations.set(pop.id, combine(populations.get(pop.id) ?? global, EVENT_TYPES[event.type].modifiers!));
+    }
+  }
+  return { global, populations };
+}
+
+export function modifiersFor(active: ActiveModifiers, pop: PopulationState): Modifiers {
+  return active.populations.get(pop.id) ?? active.global;
+}
+
+// One year of a policy: whatever its current phase does to the civilization's people and land
+function applyPolicy(ctx: EventContext, event: EventState) {
+  const { state } = ctx;
+  const policy = POLICIES[event.data.policy];
+  const phase = policy && policyPhase(policy, Math.round((ctx.tick - event.start_tick) / ctx.ticksPerYear));
+  if (!phase) return;
+
+  const cells = new Set<string>();
+  for (const pop of reached(ctx, event)) {
+    pop.prosperity = points(pop.prosperity + (phase.prosperity ?? 0));
+    pop.stability = points(pop.stability + (phase.stability ?? 0));
+    pop.education = points(pop.education + (phase.education ?? 0));
+    state.touchPopulation(pop);
+    cells.add(pop.cell_id);
+  }
+
+  if (!phase.food) return;
+  for (const cellId of cells) {
+    const cell = state.cellsById.get(cellId)!;
+    // Good harvests can't push the land past what it gives at best
+    const stock = cell.food_stock * (1 + phase.food);
+    cell.food_stock = Math.round(Math.max(0, phase.food > 0 ? Math.min(cell.food_capacity, stock) : stock) * 100) / 100;
+    state.touchCell(cell);
+  }
+}
+
+// A record of something that happened; it does nothing and is never active
+function record(description: string, scope: EventScope, trigger: string): EventDefinition {
+  return { description, scope, duration: 0, trigger };
+}
+
+export const EVENT_TYPES: Record<string, EventDefinition> = {
+  golden_age: {
+    description: 'A civilization flourishes: more prosperity and learning every year',
+    scope: 'civilization',
+    duration: 10,
+    trigger: `A stable (${GOLDEN_AGE_STABILITY}+), prosperous (${GOLDEN_AGE_PROSPERITY}+) civilization, now and then`,
+    random: {
+      chance: 0.02,
+      target(state, rng) {
+        const underway = new Set(activeOfType(state, 'golden_age').map(e => e.target_civ_id));
+        const candidates = [...state.civilizations.values()]
+          .filter(civ => civ.status === 'active' && !underway.has(civ.id))
+          .filter(civ => {
+            const pops = livingPopulations(state).filter(p => p.civilization_id === civ.id);
+            const people = pops.reduce((sum, p) => sum + p.population_size, 0);
+            if (people === 0) return false;
+            const average = (field: 'stability' | 'prosperity') => pops.reduce((sum, p) => sum + p[field] * p.population_size, 0) / people;
+            return average('stability') >= GOLDEN_AGE_STABILITY && average('prosperity') >= GOLDEN_AGE_PROSPERITY;
+          })
+          .sort((a, b) => compareIds(a.id, b.id));
+        if (candidates.length === 0) return null;
+        const civ = rng.pick(candidates);
+        return { cell_id: civ.capital_cell_id, civ_id: civ.id };
+      }
+    },
+    modifiers: { tech_leap: 1.5 },
+    year(ctx, event) {
+      for (const pop of reached(ctx, event)) {
+        pop.prosperity = points(pop.prosperity + 1);
+        pop.education = points(pop.education + 1);
+        ctx.state.touchPopulation(pop);
+      }
+    }
+  },
+
+  famine: {
+    description: 'Hunger in a cell: people die, grow poorer and restless every year',
+    scope: 'cell',
+    duration: 2,
+    trigger: 'Food in a cell covers less than 60% of what its people need',
+    modifiers: { death_rate: 1.2 },
+    year(ctx, event) {
+      for (const pop of reached(ctx, event)) {
+        pop.population_size = Math.floor(pop.population_size * 0.99);
+        pop.prosperity = points(pop.prosperity - 1);
+        pop.stability = points(pop.stability - 1);
+        ctx.state.touchPopulation(pop);
+      }
+    }
+  },
+
+  plague: {
+    description: 'The outbreak of a disease, active until the disease has run its course',
+    scope: 'cell',
+    duration: null,
+    trigger: 'A disease emerges in a crowded cell, or aliens release one (pandemic)',
+    // The disease does its own killing; a plague from before diseases were tracked gets
+    // one of its own, or ends if there's nobody left to catch it
+    tick(ctx, event) {
+      if (event.data.disease_id) return;
+      if (!ctx.releaseDisease(event.target_cell_id!, event)) ctx.end(event);
+    }
+  },
+
+  policy: {
+    description: 'A policy in force, changing the civilization year by year as it goes through its phases',
+    scope: 'civilization',
+    duration: null,
+    trigger: 'A civilization without one adopts a policy to its liking, or aliens force one (policy_insanity)',
+    year: applyPolicy,
+    // A policy's last year still counts
+    end(ctx, event) {
+      applyPolicy(ctx, event);
+      ctx.broadcast('policyEnded', { civilization_id: event.target_civ_id, policy: event.data.policy, year: ctx.year });
+    }
+  },
+
+  resource_discovery: {
+    description: 'Rich deposits found in a cell: full mineral and energy stocks, topped up every year, and a boom',
+    scope: 'cell',
+    duration: 10,
+    trigger: 'Prospectors in a populated cell strike it rich, now and then',
+    random: {
+      chance: 0.03,
+      target(state, rng) {
+        const underway = new Set(activeOfType(state, 'resource_discovery').map(e => e.target_cell_id));
+        const cellId = crowdedCell(state, rng);
+        return cellId && !underway.has(cellId) ? { cell_id: cellId, civ_id: null } : null;
+      }
+    },
+    start(ctx, event) {
+      const cell = ctx.state.cellsById.get(event.target_cell_id!)!;
+      cell.mineral_stock = cell.mineral_capacity;
+      cell.energy_stock = cell.energy_capacity;
+      ctx.state.touchCell(cell);
+    },
+    year(ctx, event) {
+      const cell = ctx.state.cellsById.get(event.target_cell_id!)!;
+      cell.mineral_stock = Math.min(cell.mineral_capacity, Math.round((cell.mineral_stock + cell.mineral_capacity * DISCOVERY_YIELD) * 100) / 100);
+      cell.energy_stock = Math.min(cell.energy_capacity, Math.round((cell.energy_stock + cell.energy_capacity * DISCOVERY_YIELD) * 100) / 100);
+      ctx.state.touchCell(cell);
+      for (const pop of reached(ctx, event)) {
+        pop.prosperity = points(pop.prosperity + 2);
+        ctx.state.touchPopulation(pop);
+      }
+    }
+  },
+
+  natural_disaster: {
+    description: 'An earthquake, storm or flood strikes a cell and its neighbors: deaths, ruined harvests and infrastructure, and a year of recovery',
+    scope: 'region',
+    duration: 1,
+    trigger: 'Strikes populated land at random, now and then',
+    random: {
+      chance: 0.05,
+      target(state, rng) {
+        const cellId = crowdedCell(state, rng);
+        return cellId ? { cell_id: cellId, civ_id: null } : null;
+      }
+    },
+    modifiers: { food_yield: 0.8 },
+    start(ctx, event) {
+      const { state } = ctx;
+      for (const cellId of [...eventCells(state, ctx.topology, event)].sort(compareIds)) {
+        const epicenter = cellId === event.target_cell_id;
+        const cell = state.cellsById.get(cellId);
+        if (!cell || cell.biome === 'ocean') continue;
+        cell.food_stock = Math.round(cell.food_stock * (epicenter ? 0.5 : 0.8) * 100) / 100;
+        cell.infrastructure = Math.round(cell.infrastructure * (epicenter ? 0.5 : 0.9) * 100) / 100;
+        state.touchCell(cell);
+        for (const pop of state.populationsInCell(cellId)) {
+          if (pop.population_size <= 0) continue;
+          pop.population_size = Math.floor(pop.population_size * (1 - (epicenter ? DISASTER_DEATHS : DISASTER_REGION_DEATHS)));
+          pop.stability = points(pop.stability - (epicenter ? 10 : 5));
+          state.touchPopulation(pop);
+        }
+      }
+    },
+    year(ctx, event) {
+      for (const pop of reached(ctx, event)) {
+        pop.prosperity = points(pop.prosperity - 2);
+        ctx.state.touchPopulation(pop);
+      }
+    }
+  },
+
+  solar_minimum: {
+    description: 'The sun dims for a decade: harvests everywhere yield less',
+    scope: 'global',
+    duration: 10,
+    trigger: 'The sun\'s own cycle, now and then',
+    random: { chance: 0.01, target: worldwide('solar_minimum') },
+    modifiers: { food_yield: 0.85 }
+  },
+
+  cosmic_ray_spike: {
+    description: 'A burst of cosmic rays: mutations, strange ideas and unexpected breakthroughs',
+    scope: 'global',
+    duration: 5,
+    trigger: 'A distant supernova, now and then',
+    random: { chance: 0.01, target: worldwide('cosmic_ray_spike') },
+    modifiers: { tech_leap: 3, death_rate: 1.05 }
+  },
+
+  ice_age: {
+    description: `Glaciers advance: the world cools by ${ICE_AGE_COOLING}°C, harvests shrink and people die sooner`,
+    scope: 'global',
+    duration: 50,
+    trigger: 'Shifts in the planet\'s orbit, very rarely',
+    random: { chance: 0.002, target: worldwide('ice_age') },
+    modifiers: { food_yield: 0.9, death_rate: 1.3 },
+    start(ctx) {
+      shiftClimate(ctx.state, -ICE_AGE_COOLING, ctx.rng);
+    }
+  },
+
+  ascension: {
+    description: 'A civilization left the world behind; what it knew lingers, making breakthroughs likelier and lives longer everywhere',
+    scope: 'global',
+    duration: null,
+    trigger: 'A civilization\'s people reach Post-Singularity and it leaves the map',
+    modifiers: { tech_leap: 1.5, death_rate: 0.9 }
+  },
+
+  shake_up: {
+    description: 'A stagnant world is jolted awake: unrest, new ideas and a burst of invention',
+    scope: 'global',
+    duration: 10,
+    trigger: `Nothing much changes for ${STAGNATION_YEARS} years`,
+    modifiers: { tech_leap: 2 },
+    start(ctx) {
+      const pops = livingPopulations(ctx.state).sort((a, b) => compareIds(a.id, b.id));
+      for (const pop of pops) {
+        pop.stability = points(pop.stability - SHAKE_UP_UNREST);
+        for (const field of IDEOLOGY_FIELDS) {
+          pop[field] = points(pop[field] + Math.round((ctx.rng.next() * 2 - 1) * SHAKE_UP_DRIFT));
+        }
+        ctx.state.touchPopulation(pop);
+      }
+    }
+  },
+
+  flood: record('The sea took a cell; its people fled or drowned', 'cell', 'The sea rises over a low cell'),
+  desertification: record('Overworked grassland turned to desert', 'cell', 'Grassland harvested past exhaustion under heavy pressure'),
+  species_extinction: record('A species disappeared from its last cell', 'global', 'Predators, hunger or hunters wipe out a species'),
+  collapse: record('An industrial population lost a tech level', 'cell', 'Industry runs out of energy and minerals'),
+  conflict: record('Fighting in a cell', 'cell', 'Scarcity, crowding or war between the civilizations sharing a cell'),
+  diplomacy: record('A treaty signed or broken, or a war declared or ended', 'global', 'Civilizations weighing their opinion of each other, once a year'),
+  conquest: record('A cell changed hands in a war', 'cell', 'An attacker wins a battle decisively'),
+  capital_lost: record('A civilization lost its capital', 'civilization', 'Its capital falls to a conquest or dies out'),
+  civilization_extinct: record('A civilization died out', 'global', 'Its last population is gone'),
+  capital_relocated: record('A civilization moved its capital', 'civilization', 'A civilization without a capital settles on a new one'),
+  secession: record('A province broke away as a new civilization', 'civilization', 'Unhappy, estranged or remote provinces'),
+  assimilation: record('A minority was absorbed into its cell\'s majority', 'cell', 'Open, conformist majorities living beside a minority'),
+  displacement: record('A minority was driven out of its cell', 'cell', 'Xenophobic majorities living beside a minority'),
+  climate_event: record('Aliens heated or cooled the world', 'global', 'The climate_event experiment'),
+  stagnation: record('The world stagnated; a shake-up or a reset vote followed', 'global', `Nothing much changes for ${STAGNATION_YEARS} years`),
+  reset_vote: record('The players voted on resetting a stagnant world', 'global', 'A shake-up fails to end a stagnation')
+};
+
+// Where an event of the given scope needs a target: a cell, a civilization, or neither
+function missingTarget(scope: EventScope, event: EventState): string | null {
+  if ((scope === 'cell' || scope === 'region') && !event.target_cell_id) return 'no target cell';
+  if (scope === 'civilization' && !event.target_civ_id) return 'no target civilization';
+  return null;
+}
+
+// Checks an active event against its definition, as when it's loaded. An event whose
+// scope has since changed takes the definition's, with its civilization's capital standing
+// in for a cell it never had. Returns what's wrong with it, or null if it can go on.
+export function checkEvent(state: WorldState, event: EventState): string | null {
+  const definition = EVENT_TYPES[event.type];
+  if (!definition) return `unknown event type ${event.type}`;
+  if (definition.duration === 0) return 'records are never active';
+
+  if (event.scope !== definition.scope) {
+    const civ = event.target_civ_id ? state.civilizations.get(event.target_civ_id) : undefined;
+    if (!event.target_cell_id && civ?.capital_cell_id) event.target_cell_id = civ.capital_cell_id;
+    event.scope = definition.scope;
+    state.touchEvent(event);
+  }
+
+  const missing = missingTarget(definition.scope, event);
+  if (missing) return missing;
+  if (event.target_cell_id && !state.cellsById.has(event.target_cell_id)) return 'target cell does not exist';
+  if (definition.scope === 'civilization' && state.civilizations.get(event.target_civ_id!)?.status !== 'active') {
+    return 'target civilization is gone';
+  }
+  return null;
+}
+
+// The registry as the admin API lists it
+export function listEventTypes() {
+  return Object.entries(EVENT_TYPES).map(([type, definition]) => ({
+    type,
+    description: definition.description,
+    scope: definition.scope,
+    duration_years: definition.duration,
+    trigger: definition.trigger,
+    random_chance: definition.random?.chance ?? null,
+    modifiers: definition.modifiers ?? null,
+    effects: (['start', 'tick', 'year', 'end'] as const).filter(hook => definition[hook])
+  }));
+}
@@ -0,0 +1,136 @@
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { SimulationEngine, TICKS_PER_YEAR } from './engine.js';
+import { MemoryStorage } from '../storage/memory.js';
+import { generateWorld, WorldGenParams } from '../worldgen/generator.js';
+
+// Runs a world start to finish without a database or socket server and writes
+// yearly stats, e.g.:
+//   npm run sim:run -- --years 500 --seed 42 --format csv --out run-42.csv
+
+type WorldStats = ReturnType<SimulationEngine['getWorldStats']>;
+type CivilizationStats = ReturnType<SimulationEngine['getCivilizationStats']>;
+
+interface YearRecord {
+  year: number;
+  tick: number;
+  world: WorldStats;
+  civilizations: CivilizationStats;
+}
+
+const { values: args } = parseArgs({
+  options: {
+    years: { type: 'string', default: '100' },
+    seed: { type: 'string' },
+    continents: { type: 'string', default: '4' },
+    water: { type: 'string', default: '0.7' },
+    temperature: { type: 'string', default: '15' },
+    variety: { type: 'string', default: '1.0' },
+    grid: { type: 'string', default: 'latlon' },
+    format: { type: 'string', default: 'json' },
+    out: { type: 'string' }
+  }
+});
+
+function toCsv(records: YearRecord[]): string {
+  const header = [
+    'year', 'tick', 'scope', 'civilization_id', 'name', 'total_population', 'num_populations',
+    'num_civilizations', 'avg_tech_level', 'avg_stability', 'avg_prosperity'
+  ];
+  const lines = [header.join(',')];
+
+  for (const record of records) {
+    const { world } = record;
+    lines.push([
+      record.year, record.tick, 'world', '', '', world.totalPopulation, '',
+      world.numCivilizations, world.avgTechLevel, world.avgStability, world.avgProsperity
+    ].join(','));
+
+    for (const civ of record.civilizations) {
+      lines.push([
+        record.year, record.tick, 'civilization', civ.civilizationId, JSON.stringify(civ.name), civ.totalPopulation,
+        civ.numPopulations, '', civ.avgTechLevel, civ.avgStability, civ.avgProsperity
+      ].join(','));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+async function run() {
+  const years = Number(args.years);
+  const seed = args.seed ? Number(args.seed) : Math.floor(Math.random() * 1000000);
+  const format = args.format === 'csv' ? 'csv' : 'json';
+  const out = args.out || `simulation-${seed}.${format}`;
+
+  if (!Number.isInteger(years) || years < 1 || !Number.isInteger(seed)) {
+    console.error('❌ --years must be a positive integer and --seed an integer');
+    process.exit(1);
+  }
+
+  const params: WorldGenParams = {
+    continents: Number(args.continents),
+    waterCoverage: Number(args.water),
+    avgTemperature: Number(args.temperature),
+    biomeVariety: Number(args.variety),
+    grid: args.grid === 'geodesic' ? 'geodesic' : 'latlon',
+    seed
+  };
+
+  console.log(`🌍 Generating world with seed ${seed}...`);
+
+  try {
+    const storage = new MemoryStorage();
+    const world = await storage.worlds.create({ name: 'Headless World', seed });
+    await generateWorld(params, world.id, storage);
+
+    // Nobody is listening, so broadcasts go nowhere
+    const engine = new SimulationEngine(world.id, { emit: () => false }, storage, { logTicks: false });
+    await engine.loadWorld();
+
+    const capture = (): YearRecord => {
+      const state = engine.getState();
+      return {
+        year: state.year,
+        tick: state.tick,
+        world: engine.getWorldStats(),
+        civilizations: engine.getCivilizationStats()
+      };
+    };
+
+    console.log(`⏩ Simulating ${years} years...`);
+    const records = [capture()];
+    const started = Date.now();
+
+    for (let year = 1; year <= years; year++) {
+      for (let i = 0; i < TICKS_PER_YEAR; i++) {
+        // A rolled-back tick would leave the stats describing a world that never happened
+        if (!await engine.tick()) {
+          throw new Error(`Tick failed in year ${year}, the run is void`);
+        }
+      }
+      records.push(capture());
+      if (engine.getState().status === 'finished') {
+        console.log(`🏁 The world finished in year ${engine.getState().year}`);
+        break;
+      }
+    }
+
+    const last = records[records.length - 1].world;
+    console.log(`✅ Simulated ${records.length - 1} years in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+    console.log(`📊 Final: ${last.totalPopulation} population, ${last.numCivilizations} civilizations, avg tech ${last.avgTechLevel.toFixed(2)}`);
+
+    const output = format === 'csv'
+      ? toCsv(records)
+      : JSON.stringify({ seed, params, years: records }, null, 2);
+    await writeFile(out, output);
+
+    console.log(`💾 Wrote ${format.toUpperCase()} stats to ${out}`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Headless run failed:', error);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,140 @@
+// How outlooks change. Once a year every population drifts toward its neighbors (less so
+// when xenophobic) and reacts to the year it had: prosperity makes people open and liberal,
+// hardship closes ranks, famine breeds strongmen and tradition, heavy war losses leave
+// people weary of war while victories whet the appetite, and golden ages turn them
+// toward innovation. Alien meddling (ideology_nudge, prophetic_vision) comes on top.
+//
+// The axes in turn shape behavior: authoritarian rule runs things more efficiently at
+// the cost of stability, xenophobes turn migrants away and tradition slows new technology.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, PopulationState } from './state.js';
+import { Topology } from '../worldgen/topology.js';
+
+export const IDEOLOGY_FIELDS = ['ideology_collectivism', 'ideology_tradition', 'ideology_authoritarianism', 'ideology_xenophobia'] as const;
+
+// Everything that drifts: the four axes and the appetite for war
+const DRIFTING_FIELDS = [...IDEOLOGY_FIELDS, 'war_tendency'] as const;
+type DriftingField = typeof DRIFTING_FIELDS[number];
+
+// What a population went through this year
+export interface YearExperience {
+  // Share of its people lost in battles and skirmishes
+  warLosses: number;
+  // Cells it took from an enemy
+  conquests: number;
+  // Share of its food and water needs that went unmet
+  famine: number;
+}
+
+// Share of the gap to the neighbors' average closed per year by a fully open society
+const NEIGHBOR_PULL = 0.05;
+// Stability and prosperity of a golden age
+const GOLDEN_AGE_STABILITY = 70;
+const GOLDEN_AGE_PROSPERITY = 75;
+
+// Multiplier on resource efficiency: 0.9 for the most liberal, 1.1 for the most authoritarian
+export function governanceEfficiency(pop: PopulationState): number {
+  return 1 + (pop.ideology_authoritarianism - 50) / 500;
+}
+
+// Multiplier on the chance of a tech breakthrough: 1.5 for innovators, 0.5 for traditionalists
+export function innovation(pop: PopulationState): number {
+  return 1.5 - pop.ideology_tradition / 100;
+}
+
+// How willing the residents of a cell are to take in a civilization's migrants, 0-1.
+// Foreign residents turn them away in proportion to their share and xenophobia.
+export function welcome(state: WorldState, cellId: string, migrant: PopulationState): number {
+  const residents = state.populationsInCell(cellId).filter(p => p.population_size > 0);
+  const total = residents.reduce((sum, p) => sum + p.population_size, 0);
+  if (total === 0) return 1;
+  const hostility = residents
+    .filter(p => p.civilization_id !== migrant.civilization_id)
+    .reduce((sum, p) => sum + p.population_size / total * (p.ideology_xenophobia + migrant.ideology_xenophobia) / 200, 0);
+  return Math.max(0.05, 1 - hostility);
+}
+
+// One year of ideological drift for every living population
+export function runIdeologyYear(
+  state: WorldState,
+  topology: Topology,
+  experiences: Map<string, YearExperience>,
+  rng: SeededRandom
+) {
+  const byCell = new Map<string, PopulationState[]>();
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0) continue;
+    const pops = byCell.get(pop.cell_id) || [];
+    pops.push(pop);
+    byCell.set(pop.cell_id, pops);
+  }
+
+  // Everyone reacts to their neighbors as they were at the start of the year
+  const before = new Map([...state.populations.values()].map(p => [p.id, DRIFTING_FIELDS.map(field => p[field])]));
+
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0) continue;
+    const shift = new Map<DriftingField, number>(DRIFTING_FIELDS.map(field => [field, 0]));
+    const push = (field: DriftingField, amount: number) => shift.set(field, shift.get(field)! + amount);
+
+    // Neighbor influence, larger cells weighing more
+    const neighbors = [pop.cell_id, ...topology.neighbors(pop.cell_id)]
+      .flatMap(id => byCell.get(id) || [])
+      .filter(n => n !== pop);
+    const weight = neighbors.reduce((sum, n) => sum + topology.area(n.cell_id), 0);
+    if (weight > 0) {
+      const pull = NEIGHBOR_PULL * (1.2 - pop.ideology_xenophobia / 100);
+      DRIFTING_FIELDS.forEach((field, i) => {
+        const average = neighbors.reduce((sum, n) => sum + before.get(n.id)![i] * topology.area(n.cell_id), 0) / weight;
+        push(field, (average - pop[field]) * pull);
+      });
+    }
+
+    // Good times open people up, hard times close them down
+    const fortune = (pop.prosperity - 50) / 50;
+    push('ideology_authoritarianism', -fortune);
+    push('ideology_xenophobia', -fortune);
+    push('ideology_tradition', -fortune * 0.5);
+
+    const experience = experiences.get(pop.id);
+    if (experience) {
+      const losses = Math.min(1, experience.warLosses * 5);
+      push('ideology_authoritarianism', losses * 2);
+      push('ideology_xenophobia', losses);
+      push('war_tendency', -losses * 2 + Math.min(4, experience.conquests));
+
+      const famine = Math.min(1, experience.famine);
+      push('ideology_authoritarianism', famine * 2);
+      push('ideology_collectivism', famine * 1.5);
+      push('ideology_xenophobia', famine);
+      push('ideology_tradition', famine);
+      push('war_tendency', famine);
+    }
+
+    if (pop.stability >= GOLDEN_AGE_STABILITY && pop.prosperity >= GOLDEN_AGE_PROSPERITY) {
+      push('ideology_tradition', -2);
+      push('ideology_xenophobia', -1);
+      push('war_tendency', -1);
+    }
+
+    // Whole points only; rounding at random lets small yearly pushes add up
+    let changed = false;
+    for (const field of DRIFTING_FIELDS) {
+      const value = Math.max(0, Math.min(100, Math.floor(pop[field] + shift.get(field)! + rng.next())));
+      if (value !== pop[field]) {
+        pop[field] = value;
+        changed = true;
+      }
+    }
+
+    // Authoritarian rule wears on people; liberal rule earns their trust
+    const repression = Math.floor((pop.ideology_authoritarianism - 50) / 25 + rng.next());
+    if (repression !== 0) {
+      pop.stability = Math.max(0, Math.min(100, pop.stability - repression));
+      changed = true;
+    }
+
+    if (changed) state.touchPopulation(pop);
+  }
+}
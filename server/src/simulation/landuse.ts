@@ -0,0 +1,130 @@
+// What people make of the land. Once a year every cell's land use follows the pressure its
+// people put on it — their numbers against what the land gives, scaled by their
+// environmental impact and tech. Crowded forest and jungle are cleared and grassland
+// ploughed into farmland, grassland worked to exhaustion turns to desert, and dense,
+// built-up, industrial cells become cities. Land nobody lives on slowly goes back to the
+// wild: fields first, cities and deserts much later.
+//
+// A cell's natural_biome is what the climate gives it; its biome and capacities are that
+// biome as its land use has changed it.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, CellState } from './state.js';
+import { Topology } from '../worldgen/topology.js';
+import { biomeResources, ResourceCapacities } from '../worldgen/generator.js';
+import { PEOPLE_PER_UNIT, depletion } from './economy.js';
+
+export interface LandUseChange {
+  cell: CellState;
+  // Land use and biome before the change
+  from: string;
+  fromBiome: string;
+}
+
+// Natural biomes people clear or plough for fields, and those that fields there turn into
+const FARMABLE: Record<string, string> = { forest: 'grassland', jungle: 'grassland', grassland: 'grassland' };
+// Multipliers on the capacities of the (changed) biome under each land use
+const LAND_USE_YIELDS: Record<string, Partial<ResourceCapacities>> = {
+  farmland: { food_capacity: 1.5, energy_capacity: 0.5 },
+  urban: { food_capacity: 0.3, water_capacity: 0.8, mineral_capacity: 1.2, energy_capacity: 0.5 }
+};
+
+// Pressure (people weighted by impact, per head the untouched land feeds) past which wild
+// land gets farmed, grassland turns to desert once its harvest is also half gone, and cities grow
+const FARMING_PRESSURE = 0.5;
+const DESERTIFICATION_PRESSURE = 1;
+const OVERGRAZED = 0.5;
+const URBAN_PRESSURE = 2;
+const URBAN_INFRASTRUCTURE = 50;
+const URBAN_TECH = 5;
+// Yearly chances of each change once its conditions hold, and of abandoned land going wild
+const CHANGE_CHANCE: Record<string, number> = { farmland: 0.2, degraded: 0.1, urban: 0.1 };
+const REWILD_CHANCE: Record<string, number> = { farmland: 0.1, urban: 0.02, degraded: 0.03 };
+
+// The biome a natural biome becomes under the given land use
+export function landBiome(natural: string, landUse: string): string {
+  if (natural === 'ocean') return natural;
+  if (landUse === 'farmland') return FARMABLE[natural] ?? natural;
+  if (landUse === 'degraded') return 'desert';
+  return natural;
+}
+
+// Brings the cell's biome and capacities in line with its natural biome and land use; the
+// stocks can't outgrow what the land now holds. Returns whether anything changed.
+export function refreshLand(state: WorldState, cell: CellState): boolean {
+  const biome = landBiome(cell.natural_biome, cell.land_use);
+  const yields = LAND_USE_YIELDS[cell.land_use] ?? {};
+  const base = biomeResources(biome);
+  const capacities: ResourceCapacities = {
+    food_capacity: Math.round(base.food_capacity * (yields.food_capacity ?? 1)),
+    water_capacity: Math.round(base.water_capacity * (yields.water_capacity ?? 1)),
+    mineral_capacity: Math.round(base.mineral_capacity * (yields.mineral_capacity ?? 1)),
+    energy_capacity: Math.round(base.energy_capacity * (yields.energy_capacity ?? 1))
+  };
+  if (biome === cell.biome && (Object.keys(capacities) as (keyof ResourceCapacities)[]).every(key => cell[key] === capacities[key])) {
+    return false;
+  }
+
+  Object.assign(cell, { biome }, capacities);
+  cell.food_stock = Math.min(cell.food_stock, cell.food_capacity);
+  cell.water_stock = Math.min(cell.water_stock, cell.water_capacity);
+  cell.mineral_stock = Math.min(cell.mineral_stock, cell.mineral_capacity);
+  cell.energy_stock = Math.min(cell.energy_stock, cell.energy_capacity);
+  state.touchCell(cell);
+  state.touchTerrain(cell);
+  return true;
+}
+
+// Puts the land to a new use; false if it already was
+export function setLandUse(state: WorldState, cell: CellState, landUse: string): boolean {
+  if (cell.land_use === landUse) return false;
+  cell.land_use = landUse;
+  refreshLand(state, cell);
+  state.touchTerrain(cell);
+  return true;
+}
+
+// The land use the cell's people push it toward this year, if any
+function pressed(cell: CellState, pressure: number, techLevel: number): string | null {
+  if (cell.land_use === 'wild' && FARMABLE[cell.natural_biome] && pressure >= FARMING_PRESSURE) return 'farmland';
+  if (cell.land_use !== 'degraded' && cell.biome === 'grassland' &&
+    pressure >= DESERTIFICATION_PRESSURE && depletion(cell) >= OVERGRAZED) return 'degraded';
+  if (cell.land_use !== 'urban' && cell.land_use !== 'degraded' && pressure >= URBAN_PRESSURE &&
+    cell.infrastructure >= URBAN_INFRASTRUCTURE && techLevel >= URBAN_TECH) return 'urban';
+  return null;
+}
+
+// One year of land use in every cell
+export function runLandUseYear(state: WorldState, topology: Topology, rng: SeededRandom): LandUseChange[] {
+  const pressure = new Map<string, number>();
+  const techLevel = new Map<string, number>();
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0) continue;
+    const load = pop.population_size * pop.environmental_impact * (1 + pop.tech_level * 0.1);
+    pressure.set(pop.cell_id, (pressure.get(pop.cell_id) ?? 0) + load);
+    techLevel.set(pop.cell_id, Math.max(techLevel.get(pop.cell_id) ?? 0, pop.tech_level));
+  }
+
+  const changes: LandUseChange[] = [];
+  for (const cell of state.cells) {
+    if (cell.natural_biome === 'ocean') continue;
+    const load = pressure.get(cell.id);
+    let next: string | null = null;
+
+    if (load === undefined) {
+      const chance = REWILD_CHANCE[cell.land_use];
+      if (chance && rng.next() < chance) next = 'wild';
+    } else {
+      const untouched = biomeResources(cell.natural_biome).food_capacity * PEOPLE_PER_UNIT * topology.area(cell.id);
+      next = pressed(cell, untouched > 0 ? load / untouched : Infinity, techLevel.get(cell.id)!);
+      if (next && rng.next() >= CHANGE_CHANCE[next]) next = null;
+    }
+
+    if (!next) continue;
+    const from = cell.land_use;
+    const fromBiome = cell.biome;
+    setLandUse(state, cell, next);
+    changes.push({ cell, from, fromBiome });
+  }
+  return changes;
+}
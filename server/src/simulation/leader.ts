@@ -0,0 +1,39 @@
+import { Pool } from 'pg';
+
+// Only one process may run the engine for the database. Whoever holds this
+// session-level advisory lock is the leader; everyone else waits as a standby.
+const LEADER_LOCK_KEY = 74152201;
+const RETRY_MS = 5000;
+
+// Resolves once this process holds the lock. The connection holding it stays
+// checked out for the life of the process.
+export async function acquireLeadership(pool: Pool): Promise<void> {
+  let waiting = false;
+
+  for (;;) {
+    try {
+      const client = await pool.connect();
+      const result = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [LEADER_LOCK_KEY]);
+
+      if (result.rows[0].locked) {
+        client.on('error', error => {
+          // The lock went with the connection; another process may be leading already
+          console.error('❌ Lost simulation leader lock:', error);
+          process.exit(1);
+        });
+        console.log('👑 Acquired simulation leader lock');
+        return;
+      }
+
+      client.release();
+      if (!waiting) {
+        console.log('⏳ Another process is running the simulation; waiting as standby');
+        waiting = true;
+      }
+    } catch (error) {
+      console.error('Leader lock error:', error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, RETRY_MS));
+  }
+}
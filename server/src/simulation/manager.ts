@@ -0,0 +1,82 @@
+import { SimulationEngine, SimulationBroadcaster } from './engine.js';
+import { SchedulerMetrics } from './scheduler.js';
+import { Storage } from '../storage/types.js';
+import { postgresStorage } from '../storage/postgres.js';
+
+// Runs one engine per running world, each on its own schedule
+export class SimulationManager {
+  private engines = new Map<string, SimulationEngine>();
+
+  constructor(
+    private broadcasterFor: (worldId: string) => SimulationBroadcaster,
+    private storage: Storage = postgresStorage
+  ) {}
+
+  async start() {
+    await this.reload();
+  }
+
+  async stop() {
+    for (const engine of this.engines.values()) {
+      await engine.stop();
+    }
+    this.engines.clear();
+  }
+
+  // Brings the engines in line with the database: starts engines for worlds that are now
+  // running, stops ones whose world was removed or finished, and reloads the rest.
+  // With a worldId only that world is reloaded (or started/stopped).
+  async reload(worldId?: string) {
+    try {
+      const running = await this.storage.worlds.listRunning();
+      const runningIds = new Set(running.map(w => w.id));
+
+      for (const [id, engine] of this.engines) {
+        if (worldId && id !== worldId) continue;
+        if (runningIds.has(id)) {
+          await engine.reload();
+        } else {
+          // Only write back if the world still exists
+          await engine.stop(!!(await this.storage.worlds.findById(id)));
+          this.engines.delete(id);
+        }
+      }
+
+      for (const world of running) {
+        if (worldId && world.id !== worldId) continue;
+        if (this.engines.has(world.id)) continue;
+        // A finished world is no longer running, so reloading it stops and drops its engine
+        const engine = new SimulationEngine(world.id, this.broadcasterFor(world.id), this.storage, {
+          onFinished: () => this.reload(world.id)
+        });
+        this.engines.set(world.id, engine);
+        await engine.start();
+      }
+
+      if (this.engines.size === 0) {
+        console.log('No active world found. Initialize database first.');
+      }
+    } catch (error: any) {
+      // Database tables may not exist yet - this is OK, user needs to initialize
+      if (error.code === '42P01') {
+        console.log('⚠️ Database tables not found. Please initialize the database via /db-init.html');
+      } else {
+        console.error('Simulation reload error:', error);
+      }
+    }
+  }
+
+  // Runs work that rewrites a world's rows while its engine, if it has one, sits between ticks
+  async rewrite<T>(worldId: string, work: () => Promise<T>): Promise<T> {
+    const engine = this.engines.get(worldId);
+    return engine ? engine.rewrite(work) : work();
+  }
+
+  getSchedulerMetrics(): Record<string, SchedulerMetrics> {
+    const metrics: Record<string, SchedulerMetrics> = {};
+    for (const [id, engine] of this.engines) {
+      metrics[id] = engine.getSchedulerMetrics();
+    }
+    return metrics;
+  }
+}
@@ -0,0 +1,140 @@
+// Policies civilizations adopt. Every so often a civilization without a policy in force
+// picks one, weighted by its outlook: innovators invest in schools, collectivist strongmen
+// order steel quotas. A policy runs for years in phases — steel quotas boom first and
+// starve the countryside later, education costs money before it pays off — each phase
+// shifting prosperity, stability, education and the food its cells yield every year.
+// Policies in force are events of type 'policy' targeting the civilization.
+
+import { SeededRandom } from './rng.js';
+import { PopulationState } from './state.js';
+import { IDEOLOGY_FIELDS } from './ideology.js';
+
+// A civilization's population-weighted outlook
+export type Outlook = Pick<PopulationState, typeof IDEOLOGY_FIELDS[number] | 'education'>;
+
+export interface PolicyPhase {
+  years: number;
+  // Yearly changes to every population of the civilization
+  prosperity?: number;
+  stability?: number;
+  education?: number;
+  // Yearly share gained or lost by the food stocks of every cell it holds
+  food?: number;
+}
+
+export interface Policy {
+  name: string;
+  // Bad policies are the ones aliens can force with policy_insanity
+  harmful: boolean;
+  phases: PolicyPhase[];
+  // How much a civilization with this (population-weighted) outlook likes the idea
+  appeal(outlook: Outlook): number;
+}
+
+export const POLICIES: Record<string, Policy> = {
+  education_investment: {
+    name: 'Education Investment',
+    harmful: false,
+    phases: [
+      { years: 3, prosperity: -1, education: 1 },
+      { years: 10, prosperity: 1, education: 2, stability: 1 }
+    ],
+    appeal: o => (100 - o.ideology_tradition) + o.education
+  },
+  irrigation_works: {
+    name: 'Irrigation Works',
+    harmful: false,
+    phases: [
+      { years: 3, prosperity: -1 },
+      { years: 15, food: 0.05, prosperity: 1 }
+    ],
+    appeal: o => o.ideology_collectivism + o.education / 2
+  },
+  open_markets: {
+    name: 'Open Markets',
+    harmful: false,
+    phases: [
+      { years: 2, stability: -2, prosperity: 1 },
+      { years: 8, prosperity: 2 }
+    ],
+    appeal: o => (100 - o.ideology_collectivism) + (100 - o.ideology_xenophobia)
+  },
+  public_granaries: {
+    name: 'Public Granaries',
+    harmful: false,
+    phases: [
+      { years: 10, stability: 1, food: 0.02 }
+    ],
+    appeal: o => o.ideology_collectivism + o.ideology_tradition / 2
+  },
+  steel_quotas: {
+    name: 'Steel Quotas',
+    harmful: true,
+    phases: [
+      { years: 2, prosperity: 2, stability: 1 },
+      { years: 3, prosperity: -2, food: -0.1 },
+      { years: 3, prosperity: -3, stability: -4, food: -0.15 }
+    ],
+    appeal: o => (o.ideology_authoritarianism + o.ideology_collectivism) / 2 - o.education / 2
+  },
+  everyone_farms: {
+    name: 'Everyone Must Farm',
+    harmful: true,
+    phases: [
+      { years: 2, food: 0.1, stability: 1 },
+      { years: 4, food: -0.2, prosperity: -3, education: -2, stability: -3 }
+    ],
+    appeal: o => (o.ideology_authoritarianism + o.ideology_tradition) / 2 - o.education / 2
+  },
+  great_purge: {
+    name: 'Great Purge',
+    harmful: true,
+    phases: [
+      { years: 1, stability: 3 },
+      { years: 4, education: -3, prosperity: -2, stability: -2 }
+    ],
+    appeal: o => (o.ideology_authoritarianism + o.ideology_xenophobia) / 2 - 30
+  },
+  closed_borders: {
+    name: 'Closed Borders',
+    harmful: true,
+    phases: [
+      { years: 3, stability: 1 },
+      { years: 5, prosperity: -2, education: -1 }
+    ],
+    appeal: o => o.ideology_xenophobia - 20
+  }
+};
+
+export function policyYears(policy: Policy): number {
+  return policy.phases.reduce((sum, phase) => sum + phase.years, 0);
+}
+
+// The phase in force in the given year of the policy (1 = the first year after it was
+// adopted); null once it has run its course
+export function policyPhase(policy: Policy, year: number): PolicyPhase | null {
+  let elapsed = 0;
+  for (const phase of policy.phases) {
+    elapsed += phase.years;
+    if (year <= elapsed) return phase;
+  }
+  return null;
+}
+
+export function civilizationOutlook(pops: PopulationState[]): Outlook {
+  const people = pops.reduce((sum, p) => sum + p.population_size, 0) || 1;
+  const average = (field: keyof Outlook) => pops.reduce((sum, p) => sum + p[field] * p.population_size, 0) / people;
+  return {
+    ideology_collectivism: average('ideology_collectivism'),
+    ideology_tradition: average('ideology_tradition'),
+    ideology_authoritarianism: average('ideology_authoritarianism'),
+    ideology_xenophobia: average('ideology_xenophobia'),
+    education: average('education')
+  };
+}
+
+// Picks a policy the way a civilization with this outlook would; harmfulOnly for alien meddling
+export function choosePolicy(outlook: Outlook, rng: SeededRandom, harmfulOnly = false): string {
+  const keys = Object.keys(POLICIES).filter(key => !harmfulOnly || POLICIES[key].harmful);
+  return rng.weightedPick(keys, key => Math.max(1, POLICIES[key].appeal(outlook)));
+}
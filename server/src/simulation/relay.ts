@@ -0,0 +1,128 @@
+import { Pool, PoolClient } from 'pg';
+import { Server as SocketServer } from 'socket.io';
+import { SimulationBroadcaster } from './engine.js';
+import { SchedulerMetrics } from './scheduler.js';
+
+// The engine runs in one process (the simulation worker) while every web instance holds
+// its own socket connections. Broadcasts travel between them over Postgres LISTEN/NOTIFY
+// and end up in the world's socket room.
+
+const EVENTS_CHANNEL = 'simulation_events';
+const CONTROL_CHANNEL = 'simulation_control';
+// NOTIFY payloads are capped at 8000 bytes; bigger broadcasts are parked in a table
+const MAX_NOTIFY_BYTES = 7500;
+const RECONNECT_MS = 5000;
+
+export function worldRoom(worldId: string): string {
+  return `world:${worldId}`;
+}
+
+// Keeps a dedicated connection LISTENing on channel, reconnecting whenever it drops
+async function listen(pool: Pool, channel: string, handler: (payload: string) => void) {
+  let client: PoolClient | null = null;
+
+  const retry = () => {
+    setTimeout(() => listen(pool, channel, handler), RECONNECT_MS);
+  };
+
+  try {
+    client = await pool.connect();
+    const listening = client;
+    listening.on('notification', message => {
+      if (message.channel === channel && message.payload !== undefined) handler(message.payload);
+    });
+    listening.on('error', error => {
+      console.error(`LISTEN ${channel} connection lost:`, error);
+      listening.release(error);
+      retry();
+    });
+    await listening.query(`LISTEN ${channel}`);
+  } catch (error) {
+    console.error(`LISTEN ${channel} error:`, error);
+    client?.release(true);
+    retry();
+  }
+}
+
+// Engine side: publishes one world's broadcasts for the web instances to pick up
+export class NotifyBroadcaster implements SimulationBroadcaster {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private pool: Pool, private worldId: string) {}
+
+  emit(event: string, payload: any) {
+    // Chained so listeners receive broadcasts in the order they were made
+    this.queue = this.queue
+      .then(() => this.publish(event, payload))
+      .catch(error => console.error('Broadcast error:', error));
+    return true;
+  }
+
+  private async publish(event: string, payload: any) {
+    const message = JSON.stringify({ worldId: this.worldId, event, payload });
+    if (Buffer.byteLength(message) <= MAX_NOTIFY_BYTES) {
+      await this.pool.query('SELECT pg_notify($1, $2)', [EVENTS_CHANNEL, message]);
+      return;
+    }
+
+    const result = await this.pool.query(
+      'INSERT INTO simulation_broadcasts (world_id, event, payload) VALUES ($1, $2, $3) RETURNING id',
+      [this.worldId, event, JSON.stringify(payload)]
+    );
+    await this.pool.query('SELECT pg_notify($1, $2)', [EVENTS_CHANNEL, JSON.stringify({ id: result.rows[0].id })]);
+    // Every listener has long fetched these by now
+    await this.pool.query("DELETE FROM simulation_broadcasts WHERE created_at < NOW() - INTERVAL '10 minutes'");
+  }
+}
+
+// Web side: forwards the engine's broadcasts to this instance's socket clients
+export class SimulationRelay {
+  private queue: Promise<void> = Promise.resolve();
+  private lastMetrics: Record<string, SchedulerMetrics> = {};
+
+  constructor(private pool: Pool, private io: SocketServer) {}
+
+  start() {
+    return listen(this.pool, EVENTS_CHANNEL, raw => {
+      this.queue = this.queue.then(() => this.relay(raw));
+    });
+  }
+
+  // Latest tick timing reported by the worker, per world
+  getSchedulerMetrics(): Record<string, SchedulerMetrics> {
+    return this.lastMetrics;
+  }
+
+  private async relay(raw: string) {
+    try {
+      let message = JSON.parse(raw);
+      if (message.id !== undefined) {
+        const result = await this.pool.query(
+          'SELECT world_id AS "worldId", event, payload FROM simulation_broadcasts WHERE id = $1',
+          [message.id]
+        );
+        if (!result.rows[0]) return;
+        message = result.rows[0];
+      }
+
+      if (message.event === 'simulationSpeed') {
+        this.lastMetrics[message.worldId] = message.payload;
+      }
+      this.io.to(worldRoom(message.worldId)).emit(message.event, message.payload);
+    } catch (error) {
+      console.error('Simulation relay error:', error);
+    }
+  }
+}
+
+// Asks whichever process runs the engines to reload one world (or all of them) from the database
+export async function requestReload(pool: Pool, worldId?: string) {
+  await pool.query('SELECT pg_notify($1, $2)', [CONTROL_CHANNEL, worldId ? `reload:${worldId}` : 'reload']);
+}
+
+export function onReloadRequest(pool: Pool, handler: (worldId?: string) => void) {
+  return listen(pool, CONTROL_CHANNEL, payload => {
+    if (payload === 'reload') handler();
+    else if (payload.startsWith('reload:')) handler(payload.slice('reload:'.length));
+  });
+}
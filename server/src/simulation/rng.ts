@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Seedable pseudo-random number generator (mulberry32).
+// The entire generator state is one 32-bit integer, so it can be stored on the
+// world row every tick and a run resumed exactly where it left off.
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Returns a float in [0, 1), like Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Returns an integer in [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // Picks with probability proportional to weight(item); falls back to a uniform pick
+  weightedPick<T>(items: T[], weight: (item: T) => number): T {
+    const weights = items.map(weight);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) return this.pick(items);
+
+    let roll = this.next() * total;
+    for (let i = 0; i < items.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return items[i];
+    }
+    return items[items.length - 1];
+  }
+
+  // Version 4 UUID built from this stream, so ids of rows created during a run
+  // (and therefore the order they are loaded back in) are reproducible too
+  uuid(): string {
+    const bytes = new Uint8Array(16);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = this.int(256);
+    }
+    return uuidv4({ random: bytes });
+  }
+
+  getState(): number {
+    return this.state;
+  }
+}
@@ -0,0 +1,170 @@
+// Drives the engine's ticks on a timer without ever running two at once.
+// Each run is timed; when ticks fall behind the wall clock the catch-up policy decides
+// what happens to the missed ones:
+//   skip     - drop them and stay on the original cadence (world time falls behind)
+//   compress - run up to MAX_BURST of them back-to-back to catch up again
+//   slow     - stretch the interval to fit how long ticks actually take
+
+export type CatchUpPolicy = 'skip' | 'compress' | 'slow';
+
+export interface SchedulerMetrics {
+  policy: CatchUpPolicy;
+  intervalMs: number;
+  lastTickMs: number;
+  avgTickMs: number;
+  lagMs: number;
+  skippedTicks: number;
+  // World time relative to wall-clock time; 1 means on schedule
+  speed: number;
+}
+
+const MAX_BURST = 5;
+// Runs the speed estimate is averaged over
+const SPEED_WINDOW = 30;
+
+export class TickScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  // Whether start() was called (and stop() not since), whether exclusive work is holding
+  // the ticks off, and whether runs are actually being scheduled
+  private wanted = false;
+  private paused = false;
+  private running = false;
+  private inFlight: Promise<void> | null = null;
+  // Settles once the exclusive work queued last has finished
+  private exclusiveDone: Promise<void> = Promise.resolve();
+  private nextDue = 0;
+  private lastTickMs = 0;
+  private avgTickMs = 0;
+  private lagMs = 0;
+  private skippedTicks = 0;
+  private history: { at: number; ticks: number }[] = [];
+
+  constructor(
+    private runTicks: (count: number) => Promise<void>,
+    private intervalMs: number,
+    private policy: CatchUpPolicy
+  ) {}
+
+  start() {
+    this.wanted = true;
+    this.resume();
+  }
+
+  private resume() {
+    if (this.running || !this.wanted || this.paused) return;
+    this.running = true;
+    this.nextDue = Date.now() + this.intervalMs;
+    this.history = [];
+    this.schedule(this.intervalMs);
+  }
+
+  // Takes effect from the next scheduled run
+  setIntervalMs(intervalMs: number) {
+    this.intervalMs = intervalMs;
+  }
+
+  // Resolves once any tick in progress, and any exclusive work, has finished
+  async stop() {
+    this.wanted = false;
+    await this.halt();
+    await this.exclusiveDone;
+  }
+
+  // Runs work outside the ticks: waits for a tick in progress to finish and holds off the
+  // next one until the work is done. Work queued by several callers runs one at a time.
+  async exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const previous = this.exclusiveDone;
+    let done!: () => void;
+    this.exclusiveDone = new Promise(resolve => { done = resolve; });
+    await previous;
+
+    this.paused = true;
+    try {
+      await this.halt();
+      return await work();
+    } finally {
+      this.paused = false;
+      this.resume();
+      done();
+    }
+  }
+
+  private async halt() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.inFlight;
+  }
+
+  getMetrics(): SchedulerMetrics {
+    return {
+      policy: this.policy,
+      intervalMs: this.intervalMs,
+      lastTickMs: Math.round(this.lastTickMs),
+      avgTickMs: Math.round(this.avgTickMs),
+      lagMs: Math.round(this.lagMs),
+      skippedTicks: this.skippedTicks,
+      speed: Math.round(this.speed() * 100) / 100
+    };
+  }
+
+  private schedule(delay: number) {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.inFlight = this.run().finally(() => {
+        this.inFlight = null;
+      });
+    }, Math.max(0, delay));
+  }
+
+  private async run() {
+    const started = Date.now();
+    this.lagMs = Math.max(0, started - this.nextDue);
+    const missed = Math.floor(this.lagMs / this.intervalMs);
+
+    let count = 1;
+    if (missed > 0) {
+      if (this.policy === 'compress') {
+        count = Math.min(MAX_BURST, 1 + missed);
+        this.skippedTicks += 1 + missed - count;
+      } else if (this.policy === 'skip') {
+        this.skippedTicks += missed;
+      }
+    }
+
+    try {
+      await this.runTicks(count);
+    } catch (error) {
+      console.error('Scheduled tick error:', error);
+    }
+
+    const finished = Date.now();
+    this.lastTickMs = (finished - started) / count;
+    this.avgTickMs = this.avgTickMs === 0 ? this.lastTickMs : this.avgTickMs * 0.9 + this.lastTickMs * 0.1;
+    this.history.push({ at: finished, ticks: count });
+    if (this.history.length > SPEED_WINDOW) this.history.shift();
+
+    if (this.policy === 'slow') {
+      // Leave some headroom over the measured tick time
+      const interval = Math.max(this.intervalMs, this.avgTickMs * 1.2);
+      this.nextDue = started + interval;
+    } else {
+      this.nextDue += this.intervalMs * (missed + 1);
+      // Anything still overdue is for the next run's policy to deal with
+    }
+
+    this.schedule(this.nextDue - Date.now());
+  }
+
+  private speed(): number {
+    if (this.history.length < 2) return 1;
+    const first = this.history[0];
+    const last = this.history[this.history.length - 1];
+    const ticks = this.history.slice(1).reduce((sum, h) => sum + h.ticks, 0);
+    const elapsed = last.at - first.at;
+    return elapsed > 0 ? Math.min(1, (ticks * this.intervalMs) / elapsed) : 1;
+  }
+}
@@ -0,0 +1,162 @@
+// Breakaway provinces. Once a year every province of a civilization weighs how unhappy it
+// is, how far its outlook has drifted from the rest and how far it lies from the capital.
+// Past a point it breaks away with its discontented neighbors as a new civilization,
+// peacefully or — under an authoritarian parent or with warlike rebels — as a civil war.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, PopulationState, CivilizationState } from './state.js';
+import { Topology } from '../worldgen/topology.js';
+import { compareIds } from '../storage/types.js';
+import { IDEOLOGY_FIELDS } from './ideology.js';
+
+export interface Secession {
+  parent: CivilizationState;
+  civilization: CivilizationState;
+  // Populations that left, the largest first
+  populations: PopulationState[];
+  civilWar: boolean;
+}
+
+// Yearly chance per point of separatist pressure past the threshold of 1
+const SECESSION_RATE = 0.05;
+// Stability below which a province starts to resent its rulers
+const CONTENT_STABILITY = 50;
+// Ideology distance (0-100) and hops from the capital worth one point of pressure each
+const DIVERGENCE_SCALE = 50;
+const REMOTENESS_SCALE = 20;
+// Stability a peaceful split restores, and a civil war costs
+const INDEPENDENCE_RELIEF = 15;
+const CIVIL_WAR_UNREST = 10;
+
+const NAME_PREFIXES = ['Free', 'New', 'Northern', 'Southern', 'Eastern', 'Western', 'United', 'Upper', 'Lower', 'Greater'];
+const NAME_ROOTS = ['Kar', 'Vel', 'Om', 'Thal', 'Zer', 'Ish', 'Dor', 'Ael', 'Mar', 'Quin', 'Sol', 'Bren', 'Ul', 'Yth'];
+const NAME_MIDDLES = ['', 'a', 'e', 'o', 'an', 'en', 'ir', 'us'];
+const NAME_SUFFIXES = ['ians', 'ites', 'ese', 'ans', 'ari', 'oni'];
+
+// "Free Terrans" or something new altogether, never a name already taken
+function civilizationName(state: WorldState, parent: CivilizationState, rng: SeededRandom): string {
+  const taken = new Set([...state.civilizations.values()].map(c => c.name));
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const name = rng.next() < 0.4
+      ? `${rng.pick(NAME_PREFIXES)} ${parent.name}`
+      : rng.pick(NAME_ROOTS) + rng.pick(NAME_MIDDLES) + rng.pick(NAME_SUFFIXES);
+    if (!taken.has(name)) return name;
+  }
+  let n = 2;
+  while (taken.has(`${parent.name} ${n}`)) n++;
+  return `${parent.name} ${n}`;
+}
+
+// A saturated color of random hue, as #rrggbb
+function civilizationColor(rng: SeededRandom): string {
+  const hue = rng.next() * 360;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = 0.55 - 0.45 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+// Steps from the capital to every cell reachable over the grid
+function hopsFrom(topology: Topology, start: string): Map<string, number> {
+  const hops = new Map([[start, 0]]);
+  let frontier = [start];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of topology.neighbors(id)) {
+        if (hops.has(neighbor)) continue;
+        hops.set(neighbor, hops.get(id)! + 1);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+  return hops;
+}
+
+function ideologyDistance(pop: PopulationState, mean: number[]): number {
+  return IDEOLOGY_FIELDS.reduce((sum, field, i) => sum + Math.abs(pop[field] - mean[i]), 0) / IDEOLOGY_FIELDS.length;
+}
+
+// One year of separatism. At most one province per civilization breaks away; the new
+// civilizations are already in the state, their people moved over and, for civil wars,
+// at war with their parent.
+export function runSecessionYear(state: WorldState, topology: Topology, rng: SeededRandom, year: number): Secession[] {
+  const living = new Map<string, PopulationState[]>();
+  for (const pop of state.populations.values()) {
+    if (pop.population_size <= 0) continue;
+    const existing = living.get(pop.civilization_id) || [];
+    existing.push(pop);
+    living.set(pop.civilization_id, existing);
+  }
+
+  const secessions: Secession[] = [];
+  const civs = [...state.civilizations.values()]
+    .filter(c => c.status === 'active' && c.capital_cell_id)
+    .sort((a, b) => compareIds(a.id, b.id));
+
+  for (const parent of civs) {
+    const pops = living.get(parent.id) || [];
+    if (pops.length < 2) continue;
+
+    const people = pops.reduce((sum, p) => sum + p.population_size, 0);
+    const mean = IDEOLOGY_FIELDS.map(field => pops.reduce((sum, p) => sum + p[field] * p.population_size, 0) / people);
+    const hops = hopsFrom(topology, parent.capital_cell_id!);
+
+    for (const province of pops) {
+      if (province.cell_id === parent.capital_cell_id) continue;
+      const pressure = Math.max(0, CONTENT_STABILITY - province.stability) / CONTENT_STABILITY +
+        ideologyDistance(province, mean) / DIVERGENCE_SCALE +
+        (hops.get(province.cell_id) ?? REMOTENESS_SCALE) / REMOTENESS_SCALE;
+      if (pressure <= 1 || rng.next() >= (pressure - 1) * SECESSION_RATE) continue;
+
+      // Discontented provinces next door go along; the capital never does
+      const nearby = new Set(topology.neighbors(province.cell_id));
+      const rebels = [province, ...pops.filter(p =>
+        p !== province && nearby.has(p.cell_id) && p.cell_id !== parent.capital_cell_id && p.stability < CONTENT_STABILITY
+      )].sort((a, b) => b.population_size - a.population_size || compareIds(a.id, b.id));
+
+      const rebelPeople = rebels.reduce((sum, p) => sum + p.population_size, 0);
+      const zeal = rebels.reduce((sum, p) => sum + p.war_tendency * p.population_size, 0) / rebelPeople;
+      const civilWar = rng.next() < (mean[2] + zeal) / 200;
+
+      const civilization: CivilizationState = {
+        id: rng.uuid(),
+        name: civilizationName(state, parent, rng),
+        color: civilizationColor(rng),
+        capital_cell_id: rebels[0].cell_id,
+        founded_year: year,
+        status: 'active',
+        end_year: null,
+        parent_id: parent.id
+      };
+      state.addCivilization(civilization);
+
+      for (const pop of rebels) {
+        pop.civilization_id = civilization.id;
+        pop.stability = civilWar
+          ? Math.max(0, pop.stability - CIVIL_WAR_UNREST)
+          : Math.min(100, pop.stability + INDEPENDENCE_RELIEF);
+        state.touchPopulation(pop);
+      }
+
+      const relation = state.relation(parent.id, civilization.id);
+      if (civilWar) {
+        relation.at_war = true;
+        relation.war_started_year = year;
+        relation.wars_fought = 1;
+        relation.opinion = -60;
+      } else {
+        relation.opinion = -10;
+      }
+      state.touchRelation(relation);
+
+      secessions.push({ parent, civilization, populations: rebels, civilWar });
+      break;
+    }
+  }
+
+  return secessions;
+}
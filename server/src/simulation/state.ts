@@ -0,0 +1,401 @@
+// In-memory model of a running world.
+// The engine mutates this every tick and only the rows touched since the last
+// flush are written back through the storage layer.
+
+import {
+  CellRecord,
+  PopulationRecord,
+  CivilizationRecord,
+  EventRecord,
+  SpeciesRecord,
+  CellSpeciesRecord,
+  RelationRecord,
+  TradeRouteRecord,
+  DiseaseRecord,
+  InfectionRecord,
+  WorldClimate,
+  compareIds
+} from '../storage/types.js';
+
+export type CellState = CellRecord;
+export type PopulationState = PopulationRecord;
+export type CivilizationState = CivilizationRecord;
+export type EventState = EventRecord;
+export type SpeciesState = SpeciesRecord;
+export type RelationState = RelationRecord;
+export type TradeRouteState = TradeRouteRecord;
+export type DiseaseState = DiseaseRecord;
+export type InfectionState = Pick<InfectionRecord, 'infected' | 'recovered'>;
+
+export interface WorldChanges {
+  cells: CellState[];
+  // Cells whose temperature, moisture or biome changed
+  terrainCells: CellState[];
+  // Set when the world's climate changed
+  climate: WorldClimate | null;
+  populations: PopulationState[];
+  civilizations: CivilizationState[];
+  events: EventState[];
+  relations: RelationState[];
+  tradeRoutes: TradeRouteState[];
+  // Ids of routes that were cut
+  removedTradeRoutes: string[];
+  cellSpecies: CellSpeciesRecord[];
+  // Species that died out in a cell
+  removedCellSpecies: Pick<CellSpeciesRecord, 'cell_id' | 'species_id'>[];
+  diseases: DiseaseState[];
+  infections: InfectionRecord[];
+  // Populations rid of a disease, immunity and all
+  removedInfections: Pick<InfectionRecord, 'population_id' | 'disease_id'>[];
+}
+
+export class WorldState {
+  readonly cells: CellState[];
+  readonly cellsById: Map<string, CellState>;
+  readonly populations: Map<string, PopulationState>;
+  // Cell id -> populations living there, by id
+  private readonly populationsByCell = new Map<string, Set<PopulationState>>();
+  readonly civilizations: Map<string, CivilizationState>;
+  readonly events: Map<string, EventState>;
+  // Keyed by `${civ_a}:${civ_b}`, see relation()
+  readonly relations: Map<string, RelationState>;
+  readonly tradeRoutes: Map<string, TradeRouteState>;
+  readonly species: Map<string, SpeciesState>;
+  // Cell id -> species id -> population density
+  readonly cellSpecies = new Map<string, Map<string, number>>();
+  // Diseases still going around, by id
+  readonly diseases: Map<string, DiseaseState>;
+  // Population id -> disease id -> infected and recovered
+  readonly infections = new Map<string, Map<string, InfectionState>>();
+  readonly climate: WorldClimate;
+
+  private dirtyCells = new Set<string>();
+  private dirtyTerrain = new Set<string>();
+  private climateChanged = false;
+  private dirtyPopulations = new Set<string>();
+  private dirtyCivilizations = new Set<string>();
+  private dirtyEvents = new Set<string>();
+  private dirtyRelations = new Set<string>();
+  private dirtyTradeRoutes = new Set<string>();
+  // `${cell_id}:${species_id}`
+  private dirtyCellSpecies = new Set<string>();
+  private dirtyDiseases = new Set<string>();
+  // `${population_id}:${disease_id}`
+  private dirtyInfections = new Set<string>();
+  // Touched since the last takeTouched(), for the per-tick client delta
+  private touchedPopulations = new Set<string>();
+
+  constructor(
+    cells: CellState[],
+    populations: PopulationState[],
+    civilizations: CivilizationState[],
+    events: EventState[],
+    relations: RelationState[],
+    tradeRoutes: TradeRouteState[],
+    species: SpeciesState[],
+    cellSpecies: CellSpeciesRecord[],
+    diseases: DiseaseState[],
+    infections: InfectionRecord[],
+    climate: WorldClimate
+  ) {
+    this.cells = cells;
+    this.cellsById = new Map(cells.map(c => [c.id, c]));
+    this.populations = new Map(populations.map(p => [p.id, p]));
+    for (const pop of populations) this.indexPopulation(pop);
+    this.civilizations = new Map(civilizations.map(c => [c.id, c]));
+    this.events = new Map(events.map(e => [e.id, e]));
+    this.relations = new Map(relations.map(r => [`${r.civ_a}:${r.civ_b}`, r]));
+    this.tradeRoutes = new Map(tradeRoutes.map(r => [r.id, r]));
+    this.species = new Map(species.map(s => [s.id, s]));
+    this.diseases = new Map(diseases.map(d => [d.id, d]));
+    for (const row of infections) {
+      const here = this.infections.get(row.population_id) || new Map<string, InfectionState>();
+      here.set(row.disease_id, { infected: row.infected, recovered: row.recovered });
+      this.infections.set(row.population_id, here);
+    }
+    this.climate = climate;
+    for (const row of cellSpecies) {
+      const here = this.cellSpecies.get(row.cell_id) || new Map<string, number>();
+      here.set(row.species_id, row.population_density);
+      this.cellSpecies.set(row.cell_id, here);
+    }
+  }
+
+  populationsInCell(cellId: string): PopulationState[] {
+    return [...this.populationsByCell.get(cellId) || []];
+  }
+
+  // Keeps each cell's populations in id order, as they come out of storage
+  private indexPopulation(pop: PopulationState) {
+    const here = this.populationsByCell.get(pop.cell_id);
+    if (!here) {
+      this.populationsByCell.set(pop.cell_id, new Set([pop]));
+    } else if ([...here].every(p => compareIds(p.id, pop.id) < 0)) {
+      here.add(pop);
+    } else {
+      this.populationsByCell.set(pop.cell_id, new Set([...here, pop].sort((a, b) => compareIds(a.id, b.id))));
+    }
+  }
+
+  // Call after changing a cell's resources
+  touchCell(cell: CellState) {
+    this.dirtyCells.add(cell.id);
+  }
+
+  // Call after changing a cell's temperature, moisture or biome
+  touchTerrain(cell: CellState) {
+    this.dirtyTerrain.add(cell.id);
+  }
+
+  // Call after changing the world's climate
+  touchClimate() {
+    this.climateChanged = true;
+  }
+
+  addCivilization(civ: CivilizationState) {
+    this.civilizations.set(civ.id, civ);
+    this.dirtyCivilizations.add(civ.id);
+    this.sortCivilizations();
+  }
+
+  // Call after changing a civilization's capital or status
+  touchCivilization(civ: CivilizationState) {
+    this.dirtyCivilizations.add(civ.id);
+  }
+
+  // Standing between two civilizations, in either order; null if they have never met
+  findRelation(civA: string, civB: string): RelationState | null {
+    const [a, b] = compareIds(civA, civB) < 0 ? [civA, civB] : [civB, civA];
+    return this.relations.get(`${a}:${b}`) ?? null;
+  }
+
+  // Like findRelation, but two civilizations meeting for the first time start out neutral
+  relation(civA: string, civB: string): RelationState {
+    const existing = this.findRelation(civA, civB);
+    if (existing) return existing;
+    const [a, b] = compareIds(civA, civB) < 0 ? [civA, civB] : [civB, civA];
+    const relation: RelationState = {
+      civ_a: a,
+      civ_b: b,
+      opinion: 0,
+      treaties: [],
+      at_war: false,
+      war_started_year: null,
+      wars_fought: 0
+    };
+    this.relations.set(`${a}:${b}`, relation);
+    this.dirtyRelations.add(`${a}:${b}`);
+    return relation;
+  }
+
+  touchRelation(relation: RelationState) {
+    this.dirtyRelations.add(`${relation.civ_a}:${relation.civ_b}`);
+  }
+
+  addTradeRoute(route: TradeRouteState) {
+    this.tradeRoutes.set(route.id, route);
+    this.dirtyTradeRoutes.add(route.id);
+    this.sortTradeRoutes();
+  }
+
+  touchTradeRoute(route: TradeRouteState) {
+    this.dirtyTradeRoutes.add(route.id);
+  }
+
+  removeTradeRoute(route: TradeRouteState) {
+    this.tradeRoutes.delete(route.id);
+    this.dirtyTradeRoutes.add(route.id);
+  }
+
+  // Species living in a cell and their densities
+  speciesInCell(cellId: string): Map<string, number> {
+    return this.cellSpecies.get(cellId) || new Map();
+  }
+
+  // A density of zero or less removes the species from the cell
+  setSpeciesDensity(cellId: string, speciesId: string, density: number) {
+    let here = this.cellSpecies.get(cellId);
+    if (density <= 0) {
+      if (!here?.has(speciesId)) return;
+      here.delete(speciesId);
+      if (here.size === 0) this.cellSpecies.delete(cellId);
+    } else {
+      if (!here) {
+        here = new Map();
+        this.cellSpecies.set(cellId, here);
+      }
+      here.set(speciesId, Math.floor(density));
+    }
+    this.dirtyCellSpecies.add(`${cellId}:${speciesId}`);
+  }
+
+  addDisease(disease: DiseaseState) {
+    this.diseases.set(disease.id, disease);
+    this.dirtyDiseases.add(disease.id);
+    const sorted = [...this.diseases.values()].sort((a, b) => compareIds(a.id, b.id));
+    this.diseases.clear();
+    for (const d of sorted) this.diseases.set(d.id, d);
+  }
+
+  touchDisease(disease: DiseaseState) {
+    this.dirtyDiseases.add(disease.id);
+  }
+
+  // How a disease stands in a population; nobody infected or immune if it never got there
+  infection(populationId: string, diseaseId: string): InfectionState {
+    return this.infections.get(populationId)?.get(diseaseId) ?? { infected: 0, recovered: 0 };
+  }
+
+  // Nobody infected or immune removes the disease from the population
+  setInfection(populationId: string, diseaseId: string, infected: number, recovered: number) {
+    let here = this.infections.get(populationId);
+    if (infected <= 0 && recovered <= 0) {
+      if (!here?.has(diseaseId)) return;
+      here.delete(diseaseId);
+      if (here.size === 0) this.infections.delete(populationId);
+    } else {
+      if (!here) {
+        here = new Map();
+        this.infections.set(populationId, here);
+      }
+      here.set(diseaseId, { infected: Math.max(0, infected), recovered: Math.max(0, recovered) });
+    }
+    this.dirtyInfections.add(`${populationId}:${diseaseId}`);
+  }
+
+  addPopulation(pop: PopulationState) {
+    this.populations.set(pop.id, pop);
+    this.indexPopulation(pop);
+    this.dirtyPopulations.add(pop.id);
+    this.touchedPopulations.add(pop.id);
+    this.sortPopulations();
+  }
+
+  // Call after mutating a population so the next flush writes it
+  touchPopulation(pop: PopulationState) {
+    this.dirtyPopulations.add(pop.id);
+    this.touchedPopulations.add(pop.id);
+  }
+
+  addEvent(event: EventState) {
+    this.events.set(event.id, event);
+    this.dirtyEvents.add(event.id);
+    this.sortEvents();
+  }
+
+  touchEvent(event: EventState) {
+    this.dirtyEvents.add(event.id);
+  }
+
+  // Iteration order has to match the order storage loads rows in (cell y, x, then id),
+  // otherwise a world reloaded mid-run would consume random numbers in a different order
+  private sortPopulations() {
+    const sorted = [...this.populations.values()].sort((a, b) => {
+      const cellA = this.cellsById.get(a.cell_id);
+      const cellB = this.cellsById.get(b.cell_id);
+      return (cellA?.y ?? 0) - (cellB?.y ?? 0) || (cellA?.x ?? 0) - (cellB?.x ?? 0) || compareIds(a.id, b.id);
+    });
+    this.populations.clear();
+    for (const pop of sorted) this.populations.set(pop.id, pop);
+  }
+
+  private sortCivilizations() {
+    const sorted = [...this.civilizations.values()].sort((a, b) => compareIds(a.id, b.id));
+    this.civilizations.clear();
+    for (const civ of sorted) this.civilizations.set(civ.id, civ);
+  }
+
+  private sortTradeRoutes() {
+    const sorted = [...this.tradeRoutes.values()].sort((a, b) => compareIds(a.id, b.id));
+    this.tradeRoutes.clear();
+    for (const route of sorted) this.tradeRoutes.set(route.id, route);
+  }
+
+  private sortEvents() {
+    const sorted = [...this.events.values()].sort((a, b) => a.start_tick - b.start_tick || compareIds(a.id, b.id));
+    this.events.clear();
+    for (const event of sorted) this.events.set(event.id, event);
+  }
+
+  // Populations touched since the previous call, independent of flushing
+  takeTouched(): PopulationState[] {
+    const touched = [...this.touchedPopulations].map(id => this.populations.get(id)!).filter(Boolean);
+    this.touchedPopulations.clear();
+    return touched;
+  }
+
+  // Hands out everything changed since the previous call and resets tracking
+  takeChanges(): WorldChanges {
+    // The dead lose whatever they were carrying along with them
+    const dead = [...this.dirtyPopulations].map(id => this.populations.get(id)!).filter(p => p && p.population_size <= 0);
+    for (const pop of dead) {
+      for (const diseaseId of [...this.infections.get(pop.id)?.keys() || []]) {
+        this.setInfection(pop.id, diseaseId, 0, 0);
+      }
+    }
+
+    const changes: WorldChanges = {
+      cells: [...this.dirtyCells].map(id => this.cellsById.get(id)!).filter(Boolean),
+      terrainCells: [...this.dirtyTerrain].map(id => this.cellsById.get(id)!).filter(Boolean),
+      climate: this.climateChanged ? { ...this.climate } : null,
+      populations: [...this.dirtyPopulations].map(id => this.populations.get(id)!).filter(Boolean),
+      civilizations: [...this.dirtyCivilizations].map(id => this.civilizations.get(id)!).filter(Boolean),
+      events: [...this.dirtyEvents].map(id => this.events.get(id)!).filter(Boolean),
+      relations: [...this.dirtyRelations].map(key => this.relations.get(key)!).filter(Boolean),
+      tradeRoutes: [...this.dirtyTradeRoutes].map(id => this.tradeRoutes.get(id)!).filter(Boolean),
+      removedTradeRoutes: [...this.dirtyTradeRoutes].filter(id => !this.tradeRoutes.has(id)),
+      cellSpecies: [],
+      removedCellSpecies: [],
+      diseases: [...this.dirtyDiseases].map(id => this.diseases.get(id)!).filter(Boolean),
+      infections: [],
+      removedInfections: []
+    };
+    for (const key of this.dirtyCellSpecies) {
+      const [cell_id, species_id] = key.split(':');
+      const density = this.cellSpecies.get(cell_id)?.get(species_id);
+      if (density !== undefined) {
+        changes.cellSpecies.push({ cell_id, species_id, population_density: density });
+      } else {
+        changes.removedCellSpecies.push({ cell_id, species_id });
+      }
+    }
+    for (const key of this.dirtyInfections) {
+      const [population_id, disease_id] = key.split(':');
+      const infection = this.infections.get(population_id)?.get(disease_id);
+      if (infection) {
+        changes.infections.push({ population_id, disease_id, ...infection });
+      } else {
+        changes.removedInfections.push({ population_id, disease_id });
+      }
+    }
+    this.dirtyCells.clear();
+    this.dirtyTerrain.clear();
+    this.climateChanged = false;
+    this.dirtyPopulations.clear();
+    this.dirtyCivilizations.clear();
+    this.dirtyEvents.clear();
+    this.dirtyRelations.clear();
+    this.dirtyTradeRoutes.clear();
+    this.dirtyCellSpecies.clear();
+    this.dirtyDiseases.clear();
+    this.dirtyInfections.clear();
+
+    // Inactive events are only kept around until they have been persisted
+    for (const event of changes.events) {
+      if (!event.is_active) this.events.delete(event.id);
+    }
+    // and so are diseases that have died out
+    for (const disease of changes.diseases) {
+      if (disease.status !== 'active') this.diseases.delete(disease.id);
+    }
+    // and populations nobody is left in; storage keeps their last row but never loads it again
+    for (const pop of dead) {
+      this.populations.delete(pop.id);
+      const here = this.populationsByCell.get(pop.cell_id);
+      here?.delete(pop);
+      if (here?.size === 0) this.populationsByCell.delete(pop.cell_id);
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,222 @@
+// Trade between populations. Once a year every population may open a route to another
+// within reach — farther with better technology — of its own civilization or, under a
+// trade agreement or alliance and never in war, of another. Along a route food flows from
+// the end with a surplus to the end going short, both ends grow more prosperous, and
+// knowledge and ideas travel with the merchants. Wars, disasters and unrest cut routes.
+
+import { SeededRandom } from './rng.js';
+import { WorldState, PopulationState, TradeRouteState } from './state.js';
+import { Topology } from '../worldgen/topology.js';
+import { PEOPLE_PER_UNIT, foodYield } from './economy.js';
+import { wildFood } from './ecology.js';
+import { hasTreaty } from './diplomacy.js';
+import { IDEOLOGY_FIELDS, governanceEfficiency } from './ideology.js';
+import { reaches } from './events.js';
+
+export type CutReason = 'war' | 'embargo' | 'disaster' | 'unrest' | 'abandoned';
+
+export interface RouteCut {
+  route: TradeRouteState;
+  reason: CutReason;
+}
+
+export interface TradeYear {
+  established: TradeRouteState[];
+  cut: RouteCut[];
+}
+
+// Routes a population can keep up, and people it takes to open one
+const MAX_ROUTES = 3;
+const MIN_TRADERS = 200;
+// Yearly chance a population with room for another route opens one
+const ROUTE_CHANCE = 0.1;
+// Stability below which trade falters, and the yearly chance unrest then cuts a route
+const TRADE_STABILITY = 25;
+const UNREST_CUT_CHANCE = 0.3;
+// Events that can cut a route through an end they strike, and the chance they do.
+// Famine isn't one: that is when a route is needed most.
+const DISRUPTIONS = ['natural_disaster', 'plague'];
+const DISASTER_CUT_CHANCE = 0.5;
+// Share of an exporter's surplus a route carries, and its capacity in people fed per tech level
+const EXPORT_SHARE = 0.5;
+const ROUTE_CAPACITY = 1000;
+// Prosperity each route brings both ends per year
+const TRADE_PROSPERITY = 1;
+// Ideology gap (0-100) past which merchants' ideas rub off, and the yearly chance per axis they do
+const IDEA_GAP = 10;
+const IDEA_CHANCE = 0.25;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Steps the population's merchants can travel over the grid
+function reach(pop: PopulationState): number {
+  return 1 + Math.floor(pop.tech_level / 3);
+}
+
+// Cells within the given number of steps, the start excluded
+function cellsWithin(topology: Topology, start: string, steps: number): Set<string> {
+  const seen = new Set([start]);
+  let frontier = [start];
+  for (let step = 0; step < steps; step++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of topology.neighbors(id)) {
+        if (seen.has(neighbor)) continue;
+        seen.add(neighbor);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+  seen.delete(start);
+  return seen;
+}
+
+// Whether the two populations' civilizations let them trade; 'war' or 'embargo' if not
+function barrier(state: WorldState, a: PopulationState, b: PopulationState): CutReason | null {
+  if (a.civilization_id === b.civilization_id) return null;
+  const relation = state.findRelation(a.civilization_id, b.civilization_id);
+  if (relation?.at_war) return 'war';
+  return hasTreaty(relation, 'trade') || hasTreaty(relation, 'alliance') ? null : 'embargo';
+}
+
+// People one unit of food stock in the population's cell feeds, the way it farms
+function fedPerUnit(topology: Topology, pop: PopulationState): number {
+  return foodYield(pop.tech_level, pop.resource_efficiency * governanceEfficiency(pop)) * PEOPLE_PER_UNIT * topology.area(pop.cell_id);
+}
+
+// People the food in the population's cell feeds beyond (or short of) everyone living there
+function foodBalance(state: WorldState, topology: Topology, people: Map<string, number>, pop: PopulationState): number {
+  const cell = state.cellsById.get(pop.cell_id)!;
+  return (cell.food_stock + wildFood(state, cell.id)) * fedPerUnit(topology, pop) - (people.get(cell.id) ?? 0);
+}
+
+// Moves food from the end with a surplus to the end going short; returns the people it feeds
+function ship(state: WorldState, topology: Topology, people: Map<string, number>, a: PopulationState, b: PopulationState): number {
+  const balanceA = foodBalance(state, topology, people, a);
+  const balanceB = foodBalance(state, topology, people, b);
+  const [from, to, surplus, shortfall] = balanceA >= balanceB ? [a, b, balanceA, -balanceB] : [b, a, balanceB, -balanceA];
+  const capacity = ROUTE_CAPACITY * (1 + Math.min(a.tech_level, b.tech_level));
+  const fed = Math.floor(Math.min(surplus * EXPORT_SHARE, shortfall, capacity));
+  if (fed <= 0) return 0;
+
+  // The harvest shrinks by what was sold at one end and grows by what was bought at the other
+  const origin = state.cellsById.get(from.cell_id)!;
+  const destination = state.cellsById.get(to.cell_id)!;
+  origin.food_stock = round2(Math.max(0, origin.food_stock - fed / fedPerUnit(topology, from)));
+  destination.food_stock = round2(destination.food_stock + fed / fedPerUnit(topology, to));
+  state.touchCell(origin);
+  state.touchCell(destination);
+  return fed;
+}
+
+// Prosperity for both ends, and knowledge and ideas passed along
+function exchange(state: WorldState, a: PopulationState, b: PopulationState, rng: SeededRandom) {
+  for (const [pop, partner] of [[a, b], [b, a]]) {
+    pop.prosperity = Math.min(100, pop.prosperity + TRADE_PROSPERITY);
+    if (partner.tech_level > pop.tech_level && rng.next() < 0.1 * (partner.tech_level - pop.tech_level)) {
+      pop.education += 1;
+    }
+    for (const field of IDEOLOGY_FIELDS) {
+      const gap = partner[field] - pop[field];
+      if (Math.abs(gap) >= IDEA_GAP && rng.next() < IDEA_CHANCE) pop[field] += Math.sign(gap);
+    }
+    state.touchPopulation(pop);
+  }
+}
+
+// Whether a disruptive event reached the population since the given tick
+function struck(state: WorldState, topology: Topology, pop: PopulationState, since: number): boolean {
+  return [...state.events.values()].some(e => e.is_active && DISRUPTIONS.includes(e.type) && e.start_tick > since &&
+    reaches(state, topology, e, pop));
+}
+
+// Why the route can't go on this year, if anything
+function disruption(
+  state: WorldState,
+  topology: Topology,
+  a: PopulationState | undefined,
+  b: PopulationState | undefined,
+  rng: SeededRandom,
+  yearStart: number
+): CutReason | null {
+  if (!a || !b || a.population_size <= 0 || b.population_size <= 0) return 'abandoned';
+  const blocked = barrier(state, a, b);
+  if (blocked) return blocked;
+
+  if ((struck(state, topology, a, yearStart) || struck(state, topology, b, yearStart)) && rng.next() < DISASTER_CUT_CHANCE) return 'disaster';
+
+  if (Math.min(a.stability, b.stability) < TRADE_STABILITY && rng.next() < UNREST_CUT_CHANCE) return 'unrest';
+  return null;
+}
+
+// One year of trade: routes that can't go on are cut, the rest carry their goods, and
+// populations with room for more look for new partners. New routes first carry next year.
+// yearStart is the tick the year began on; disasters since then can cut routes.
+export function runTradeYear(state: WorldState, topology: Topology, rng: SeededRandom, year: number, yearStart: number): TradeYear {
+  const people = new Map<string, number>();
+  const byCell = new Map<string, PopulationState[]>();
+  for (const pop of state.populations.values()) {
+    people.set(pop.cell_id, (people.get(pop.cell_id) ?? 0) + pop.population_size);
+    if (pop.population_size <= 0) continue;
+    const pops = byCell.get(pop.cell_id) || [];
+    pops.push(pop);
+    byCell.set(pop.cell_id, pops);
+  }
+
+  const cut: RouteCut[] = [];
+  const routeCount = new Map<string, number>();
+  const linked = new Set<string>();
+
+  for (const route of [...state.tradeRoutes.values()]) {
+    const a = state.populations.get(route.pop_a);
+    const b = state.populations.get(route.pop_b);
+    const reason = disruption(state, topology, a, b, rng, yearStart);
+    if (reason) {
+      state.removeTradeRoute(route);
+      cut.push({ route, reason });
+      continue;
+    }
+
+    const volume = ship(state, topology, people, a!, b!);
+    if (volume !== route.volume) {
+      route.volume = volume;
+      state.touchTradeRoute(route);
+    }
+    exchange(state, a!, b!, rng);
+
+    routeCount.set(route.pop_a, (routeCount.get(route.pop_a) ?? 0) + 1);
+    routeCount.set(route.pop_b, (routeCount.get(route.pop_b) ?? 0) + 1);
+    linked.add(`${route.pop_a}:${route.pop_b}`);
+    linked.add(`${route.pop_b}:${route.pop_a}`);
+  }
+
+  const canTrade = (pop: PopulationState) => pop.population_size >= MIN_TRADERS &&
+    pop.stability >= TRADE_STABILITY && (routeCount.get(pop.id) ?? 0) < MAX_ROUTES;
+
+  const established: TradeRouteState[] = [];
+  for (const pop of state.populations.values()) {
+    if (!canTrade(pop) || rng.next() >= ROUTE_CHANCE) continue;
+
+    const partners = [...cellsWithin(topology, pop.cell_id, reach(pop))]
+      .flatMap(id => byCell.get(id) || [])
+      .filter(other => canTrade(other) && !linked.has(`${pop.id}:${other.id}`) && !barrier(state, pop, other));
+    if (partners.length === 0) continue;
+
+    // Merchants go where the food situation differs most: that's where the deals are
+    const balance = foodBalance(state, topology, people, pop);
+    const partner = rng.weightedPick(partners, other =>
+      1 + Math.abs(balance - foodBalance(state, topology, people, other)) / ROUTE_CAPACITY
+    );
+
+    const route: TradeRouteState = { id: rng.uuid(), pop_a: pop.id, pop_b: partner.id, established_year: year, volume: 0 };
+    state.addTradeRoute(route);
+    established.push(route);
+
+    for (const id of [pop.id, partner.id]) routeCount.set(id, (routeCount.get(id) ?? 0) + 1);
+    linked.add(`${pop.id}:${partner.id}`);
+    linked.add(`${partner.id}:${pop.id}`);
+  }
+
+  return { established, cut };
+}
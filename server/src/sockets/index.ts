@@ -1,6 +1,8 @@
 import { Server as SocketServer, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { db } from '../db/connection.js';
+import { worldRoom } from '../simulation/relay.js';
+import { LIVE_WORLD_STATUSES } from '../storage/types.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'aliens-in-space-secret-change-in-production';
 
@@ -127,6 +129,16 @@ export function setupSocketHandlers(io: SocketServer) {
       }
     });
 
+    // Choose which world to orbit; simulation broadcasts only reach that world's room
+    socket.on('joinWorld', (worldId: string) => {
+      if (socket.data.worldId) {
+        socket.leave(worldRoom(socket.data.worldId));
+      }
+      socket.data.worldId = worldId;
+      socket.join(worldRoom(worldId));
+      socket.emit('joinedWorld', { worldId });
+    });
+
     // Join a region channel for regional chat
     socket.on('joinRegion', (cellId: string) => {
       socket.join(`region:${cellId}`);
@@ -150,11 +162,13 @@ export function setupSocketHandlers(io: SocketServer) {
           SELECT p.*, civ.name as civilization_name, civ.color as civilization_color
           FROM populations p
           LEFT JOIN civilizations civ ON p.civilization_id = civ.id
-          WHERE p.cell_id = $1
+          WHERE p.cell_id = $1 AND p.population_size > 0
+          ORDER BY p.population_size DESC
         `, [cellId]);
 
         socket.emit('cellSelected', {
           cell: cell.rows[0],
+          populations: population.rows,
           population: population.rows[0] || null
         });
       } catch (error) {
@@ -164,6 +178,7 @@ export function setupSocketHandlers(io: SocketServer) {
 
     // Handle experiment submission via socket (real-time)
     socket.on('submitExperiment', async (data: {
+      world_id?: string;
       category: string;
       type: string;
       target_type: string;
@@ -174,9 +189,17 @@ export function setupSocketHandlers(io: SocketServer) {
 
       try {
         // Validate and process (simplified - full validation in REST endpoint)
-        const world = await db.query("SELECT id FROM worlds WHERE status = 'running' LIMIT 1");
+        const worldId = data.world_id || socket.data.worldId;
+        if (!worldId) {
+          socket.emit('experimentError', { message: 'No world selected' });
+          return;
+        }
+        const world = await db.query(
+          'SELECT id FROM worlds WHERE id::text = $1 AND status = ANY($2)',
+          [worldId, LIVE_WORLD_STATUSES]
+        );
         if (world.rows.length === 0) {
-          socket.emit('experimentError', { message: 'No active world' });
+          socket.emit('experimentError', { message: 'World not found or not running' });
           return;
         }
 
@@ -188,8 +211,8 @@ export function setupSocketHandlers(io: SocketServer) {
 
         socket.emit('experimentSubmitted', result.rows[0]);
 
-        // Broadcast to all that an experiment was submitted
-        io.emit('newExperiment', {
+        // Broadcast to everyone orbiting that world that an experiment was submitted
+        io.to(worldRoom(world.rows[0].id)).emit('newExperiment', {
           player: socket.user.username,
           type: data.type,
           category: data.category,
@@ -0,0 +1,490 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Storage,
+  WorldRecord,
+  WorldClimate,
+  CellRecord,
+  PopulationRecord,
+  CivilizationRecord,
+  EventRecord,
+  ExperimentRecord,
+  SnapshotRecord,
+  SpeciesRecord,
+  CellSpeciesRecord,
+  RelationRecord,
+  TradeRouteRecord,
+  DiseaseRecord,
+  InfectionRecord,
+  NewWorld,
+  ResetVoteTally,
+  LIVE_WORLD_STATUSES,
+  compareIds
+} from './types.js';
+import { WorldDelta } from '../simulation/delta.js';
+import { PostMortem } from '../simulation/endstates.js';
+
+// Everything lives in plain maps; records are copied on the way in and out so
+// callers can't mutate stored rows behind the store's back, just like with Postgres.
+const copy = <T>(value: T): T => structuredClone(value);
+
+export class MemoryStorage implements Storage {
+  private worldRows = new Map<string, WorldRecord>();
+  private cellRows = new Map<string, CellRecord & { world_id: string }>();
+  private populationRows = new Map<string, PopulationRecord>();
+  private civilizationRows = new Map<string, CivilizationRecord & { world_id: string }>();
+  // Keyed by `${civ_a}:${civ_b}`
+  private relationRows = new Map<string, RelationRecord & { world_id: string }>();
+  private tradeRouteRows = new Map<string, TradeRouteRecord & { world_id: string }>();
+  private eventRows = new Map<string, EventRecord & { world_id: string }>();
+  private experimentRows = new Map<string, ExperimentRecord & { created: number; result?: any }>();
+  private snapshotRows: (SnapshotRecord & { world_id: string })[] = [];
+  private deltaRows: (WorldDelta & { world_id: string })[] = [];
+  private speciesRows = new Map<string, SpeciesRecord & { world_id: string }>();
+  // Keyed by `${cell_id}:${species_id}`
+  private cellSpecies = new Map<string, CellSpeciesRecord>();
+  private diseaseRows = new Map<string, DiseaseRecord & { world_id: string }>();
+  // Keyed by `${population_id}:${disease_id}`
+  private infectionRows = new Map<string, InfectionRecord>();
+  private reputations = new Map<string, { benevolence: number; mischief: number; curiosity: number }>();
+  // Keyed by `${world_id}:${player_id}`
+  private resetVotes = new Map<string, { world_id: string; in_favor: boolean }>();
+  // Insertion counter standing in for created_at ordering
+  private sequence = 0;
+
+  // Copies every table up front and puts them back if work throws
+  async transaction<T>(work: (tx: Storage) => Promise<T>): Promise<T> {
+    const backup = copy({
+      worldRows: this.worldRows,
+      cellRows: this.cellRows,
+      populationRows: this.populationRows,
+      civilizationRows: this.civilizationRows,
+      relationRows: this.relationRows,
+      tradeRouteRows: this.tradeRouteRows,
+      eventRows: this.eventRows,
+      experimentRows: this.experimentRows,
+      snapshotRows: this.snapshotRows,
+      deltaRows: this.deltaRows,
+      speciesRows: this.speciesRows,
+      cellSpecies: this.cellSpecies,
+      diseaseRows: this.diseaseRows,
+      infectionRows: this.infectionRows,
+      reputations: this.reputations,
+      resetVotes: this.resetVotes
+    });
+
+    try {
+      return await work(this);
+    } catch (error) {
+      Object.assign(this, backup);
+      throw error;
+    }
+  }
+
+  worlds = {
+    listRunning: async (): Promise<WorldRecord[]> => {
+      return [...this.worldRows.values()]
+        .filter(w => LIVE_WORLD_STATUSES.includes(w.status))
+        .map(world => copy(world));
+    },
+
+    findById: async (id: string): Promise<WorldRecord | null> => {
+      const world = this.worldRows.get(id);
+      return world ? copy(world) : null;
+    },
+
+    create: async (world: NewWorld): Promise<WorldRecord> => {
+      const record: WorldRecord = {
+        id: uuidv4(),
+        name: world.name,
+        seed: world.seed,
+        current_tick: 0,
+        current_year: 0,
+        status: 'running',
+        status_year: 0,
+        rng_state: null,
+        tick_interval_ms: world.tick_interval_ms ?? null,
+        base_temperature: null,
+        temperature_anomaly: 0,
+        sea_level: 0,
+        post_mortem: null
+      };
+      this.worldRows.set(record.id, record);
+      return copy(record);
+    },
+
+    saveProgress: async (id: string, fromTick: number, tick: number, year: number, rngState: number | null): Promise<boolean> => {
+      const world = this.worldRows.get(id);
+      if (!world || world.current_tick !== fromTick) return false;
+      world.current_tick = tick;
+      world.current_year = year;
+      world.rng_state = rngState;
+      return true;
+    },
+
+    saveClimate: async (id: string, climate: WorldClimate) => {
+      const world = this.worldRows.get(id);
+      if (!world) return;
+      // Rounded like the DECIMAL columns
+      world.base_temperature = climate.base_temperature !== null ? Math.round(climate.base_temperature * 100) / 100 : null;
+      world.temperature_anomaly = Math.round(climate.temperature_anomaly * 100) / 100;
+      world.sea_level = Math.round(climate.sea_level * 100) / 100;
+    },
+
+    saveStatus: async (id: string, status: string, year: number) => {
+      const world = this.worldRows.get(id);
+      if (!world) return;
+      world.status = status;
+      world.status_year = year;
+    },
+
+    savePostMortem: async (id: string, postMortem: PostMortem) => {
+      const world = this.worldRows.get(id);
+      if (world) world.post_mortem = copy(postMortem);
+    },
+
+    castResetVote: async (id: string, playerId: string, inFavor: boolean) => {
+      this.resetVotes.set(`${id}:${playerId}`, { world_id: id, in_favor: inFavor });
+    },
+
+    tallyResetVotes: async (id: string): Promise<ResetVoteTally> => {
+      const votes = [...this.resetVotes.values()].filter(v => v.world_id === id);
+      return { in_favor: votes.filter(v => v.in_favor).length, against: votes.filter(v => !v.in_favor).length };
+    },
+
+    clearResetVotes: async (id: string) => {
+      for (const [key, vote] of this.resetVotes) {
+        if (vote.world_id === id) this.resetVotes.delete(key);
+      }
+    },
+
+    restart: async (id: string, seed: number) => {
+      const world = this.worldRows.get(id);
+      if (!world) return;
+      Object.assign(world, {
+        current_tick: 0, current_year: 0, seed, rng_state: null, status: 'running', status_year: 0, post_mortem: null
+      });
+      this.deltaRows = this.deltaRows.filter(d => d.world_id !== id);
+      this.snapshotRows = this.snapshotRows.filter(s => s.world_id !== id);
+      await this.worlds.clearResetVotes(id);
+      for (const rows of [this.eventRows, this.diseaseRows, this.civilizationRows, this.relationRows, this.tradeRouteRows, this.speciesRows]) {
+        for (const [key, row] of rows) {
+          if (row.world_id === id) rows.delete(key);
+        }
+      }
+      for (const [key, infection] of this.infectionRows) {
+        if (!this.diseaseRows.has(infection.disease_id)) this.infectionRows.delete(key);
+      }
+      // Takes the populations and the wildlife with the cells
+      await this.cells.replaceForWorld(id, []);
+    }
+  };
+
+  cells = {
+    listByWorld: async (worldId: string): Promise<CellRecord[]> => {
+      return [...this.cellRows.values()]
+        .filter(c => c.world_id === worldId)
+        .sort((a, b) => a.y - b.y || a.x - b.x)
+        .map(({ world_id, ...cell }) => copy(cell));
+    },
+
+    replaceForWorld: async (worldId: string, cells: CellRecord[]) => {
+      for (const [id, cell] of this.cellRows) {
+        if (cell.world_id !== worldId) continue;
+        this.cellRows.delete(id);
+        // Mirrors ON DELETE CASCADE
+        for (const [popId, pop] of this.populationRows) {
+          if (pop.cell_id !== id) continue;
+          this.populationRows.delete(popId);
+          for (const [routeId, route] of this.tradeRouteRows) {
+            if (route.pop_a === popId || route.pop_b === popId) this.tradeRouteRows.delete(routeId);
+          }
+          for (const [key, infection] of this.infectionRows) {
+            if (infection.population_id === popId) this.infectionRows.delete(key);
+          }
+        }
+        for (const [key, row] of this.cellSpecies) {
+          if (row.cell_id === id) this.cellSpecies.delete(key);
+        }
+      }
+      for (const cell of cells) {
+        this.cellRows.set(cell.id, { ...copy(cell), world_id: worldId });
+      }
+    },
+
+    updateResources: async (cells: CellRecord[]) => {
+      for (const cell of cells) {
+        const row = this.cellRows.get(cell.id);
+        if (!row) continue;
+        // Rounded like the DECIMAL columns
+        row.food_stock = Math.round(cell.food_stock * 100) / 100;
+        row.water_stock = Math.round(cell.water_stock * 100) / 100;
+        row.mineral_stock = Math.round(cell.mineral_stock * 100) / 100;
+        row.energy_stock = Math.round(cell.energy_stock * 100) / 100;
+        row.infrastructure = Math.round(cell.infrastructure * 100) / 100;
+      }
+    },
+
+    updateTerrain: async (cells: CellRecord[]) => {
+      for (const cell of cells) {
+        const row = this.cellRows.get(cell.id);
+        if (!row) continue;
+        row.biome = cell.biome;
+        row.natural_biome = cell.natural_biome;
+        row.land_use = cell.land_use;
+        row.temperature = Math.round(cell.temperature);
+        row.moisture = Math.round(cell.moisture);
+        row.food_capacity = cell.food_capacity;
+        row.water_capacity = cell.water_capacity;
+        row.mineral_capacity = cell.mineral_capacity;
+        row.energy_capacity = cell.energy_capacity;
+      }
+    }
+  };
+
+  populations = {
+    listByWorld: async (worldId: string): Promise<PopulationRecord[]> => {
+      const rows: { pop: PopulationRecord; cell: CellRecord }[] = [];
+      for (const pop of this.populationRows.values()) {
+        const cell = this.cellRows.get(pop.cell_id);
+        if (cell && cell.world_id === worldId && pop.population_size > 0) rows.push({ pop, cell });
+      }
+      rows.sort((a, b) =>
+        a.cell.y - b.cell.y ||
+        a.cell.x - b.cell.x ||
+        compareIds(a.pop.id, b.pop.id)
+      );
+      return rows.map(({ pop }) => copy(pop));
+    },
+
+    highestTechLevel: async (worldId: string): Promise<number> => {
+      let highest = 0;
+      for (const pop of this.populationRows.values()) {
+        if (this.cellRows.get(pop.cell_id)?.world_id === worldId) highest = Math.max(highest, pop.tech_level);
+      }
+      return highest;
+    },
+
+    upsertMany: async (pops: PopulationRecord[]) => {
+      for (const pop of pops) {
+        this.populationRows.set(pop.id, copy(pop));
+      }
+    }
+  };
+
+  civilizations = {
+    listByWorld: async (worldId: string): Promise<CivilizationRecord[]> => {
+      return [...this.civilizationRows.values()]
+        .filter(c => c.world_id === worldId)
+        .sort((a, b) => compareIds(a.id, b.id))
+        .map(({ world_id, ...civ }) => copy(civ));
+    },
+
+    create: async (worldId: string, civ: CivilizationRecord) => {
+      this.civilizationRows.set(civ.id, { ...copy(civ), world_id: worldId });
+    },
+
+    upsertMany: async (worldId: string, civs: CivilizationRecord[]) => {
+      for (const civ of civs) {
+        this.civilizationRows.set(civ.id, { ...copy(civ), world_id: worldId });
+      }
+    }
+  };
+
+  relations = {
+    listByWorld: async (worldId: string): Promise<RelationRecord[]> => {
+      return [...this.relationRows.values()]
+        .filter(r => r.world_id === worldId)
+        .sort((a, b) => compareIds(a.civ_a, b.civ_a) || compareIds(a.civ_b, b.civ_b))
+        .map(({ world_id, ...relation }) => copy(relation));
+    },
+
+    upsertMany: async (worldId: string, relations: RelationRecord[]) => {
+      for (const relation of relations) {
+        this.relationRows.set(`${relation.civ_a}:${relation.civ_b}`, { ...copy(relation), world_id: worldId });
+      }
+    }
+  };
+
+  tradeRoutes = {
+    listByWorld: async (worldId: string): Promise<TradeRouteRecord[]> => {
+      return [...this.tradeRouteRows.values()]
+        .filter(r => r.world_id === worldId)
+        .sort((a, b) => compareIds(a.id, b.id))
+        .map(({ world_id, ...route }) => copy(route));
+    },
+
+    upsertMany: async (worldId: string, routes: TradeRouteRecord[]) => {
+      for (const route of routes) {
+        this.tradeRouteRows.set(route.id, { ...copy(route), world_id: worldId });
+      }
+    },
+
+    removeMany: async (ids: string[]) => {
+      for (const id of ids) {
+        this.tradeRouteRows.delete(id);
+      }
+    }
+  };
+
+  events = {
+    listActive: async (worldId: string): Promise<EventRecord[]> => {
+      return [...this.eventRows.values()]
+        .filter(e => e.world_id === worldId && e.is_active)
+        .sort((a, b) => a.start_tick - b.start_tick || compareIds(a.id, b.id))
+        .map(({ world_id, ...event }) => copy(event));
+    },
+
+    upsertMany: async (worldId: string, events: EventRecord[]) => {
+      for (const event of events) {
+        this.eventRows.set(event.id, { ...copy(event), world_id: worldId });
+      }
+    }
+  };
+
+  experiments = {
+    listPending: async (worldId: string): Promise<ExperimentRecord[]> => {
+      return [...this.experimentRows.values()]
+        .filter(e => e.world_id === worldId && e.status === 'pending')
+        .sort((a, b) => a.created - b.created)
+        .map(({ created, result, ...exp }) => copy(exp));
+    },
+
+    resolve: async (id: string, status: 'resolved' | 'failed', result: any) => {
+      const exp = this.experimentRows.get(id);
+      if (!exp) return;
+      exp.status = status;
+      exp.result = copy(result);
+    }
+  };
+
+  snapshots = {
+    create: async (worldId: string, snapshot: SnapshotRecord) => {
+      this.snapshotRows.push({ ...copy(snapshot), world_id: worldId });
+    },
+
+    listRecent: async (worldId: string, limit: number): Promise<SnapshotRecord[]> => {
+      return this.snapshotRows
+        .filter(s => s.world_id === worldId)
+        .slice(-limit)
+        .map(({ world_id, ...snapshot }) => copy(snapshot));
+    }
+  };
+
+  deltas = {
+    append: async (worldId: string, delta: WorldDelta) => {
+      this.deltaRows = this.deltaRows.filter(d => d.world_id !== worldId || d.tick !== delta.tick);
+      this.deltaRows.push({ ...copy(delta), world_id: worldId });
+      this.deltaRows.sort((a, b) => a.tick - b.tick);
+    },
+
+    listSince: async (worldId: string, tick: number): Promise<WorldDelta[]> => {
+      return this.deltaRows
+        .filter(d => d.world_id === worldId && d.tick > tick)
+        .map(({ world_id, ...delta }) => copy(delta));
+    },
+
+    prune: async (worldId: string, beforeTick: number) => {
+      this.deltaRows = this.deltaRows.filter(d => d.world_id !== worldId || d.tick >= beforeTick);
+    }
+  };
+
+  species = {
+    listByWorld: async (worldId: string): Promise<SpeciesRecord[]> => {
+      return [...this.speciesRows.values()]
+        .filter(s => s.world_id === worldId)
+        .sort((a, b) => compareIds(a.id, b.id))
+        .map(({ world_id, ...species }) => copy(species));
+    },
+
+    replaceForWorld: async (worldId: string, species: SpeciesRecord[]) => {
+      for (const [id, row] of this.speciesRows) {
+        if (row.world_id !== worldId) continue;
+        this.speciesRows.delete(id);
+        for (const [key, cellRow] of this.cellSpecies) {
+          if (cellRow.species_id === id) this.cellSpecies.delete(key);
+        }
+      }
+      for (const s of species) {
+        this.speciesRows.set(s.id, { ...copy(s), world_id: worldId });
+      }
+    },
+
+    listInCells: async (worldId: string): Promise<CellSpeciesRecord[]> => {
+      const rows: { row: CellSpeciesRecord; cell: CellRecord }[] = [];
+      for (const row of this.cellSpecies.values()) {
+        const cell = this.cellRows.get(row.cell_id);
+        if (cell && cell.world_id === worldId) rows.push({ row, cell });
+      }
+      rows.sort((a, b) =>
+        a.cell.y - b.cell.y ||
+        a.cell.x - b.cell.x ||
+        compareIds(a.row.species_id, b.row.species_id)
+      );
+      return rows.map(({ row }) => copy(row));
+    },
+
+    upsertInCells: async (rows: CellSpeciesRecord[]) => {
+      for (const row of rows) {
+        this.cellSpecies.set(`${row.cell_id}:${row.species_id}`, { ...copy(row), population_density: Math.floor(row.population_density) });
+      }
+    },
+
+    removeFromCells: async (rows: Pick<CellSpeciesRecord, 'cell_id' | 'species_id'>[]) => {
+      for (const row of rows) {
+        this.cellSpecies.delete(`${row.cell_id}:${row.species_id}`);
+      }
+    }
+  };
+
+  diseases = {
+    listActive: async (worldId: string): Promise<DiseaseRecord[]> => {
+      return [...this.diseaseRows.values()]
+        .filter(d => d.world_id === worldId && d.status === 'active')
+        .sort((a, b) => compareIds(a.id, b.id))
+        .map(({ world_id, ...disease }) => copy(disease));
+    },
+
+    upsertMany: async (worldId: string, diseases: DiseaseRecord[]) => {
+      for (const disease of diseases) {
+        this.diseaseRows.set(disease.id, { ...copy(disease), world_id: worldId });
+      }
+    },
+
+    listInfections: async (worldId: string): Promise<InfectionRecord[]> => {
+      return [...this.infectionRows.values()]
+        .filter(i => this.diseaseRows.get(i.disease_id)?.world_id === worldId)
+        .sort((a, b) => compareIds(a.population_id, b.population_id) || compareIds(a.disease_id, b.disease_id))
+        .map(copy);
+    },
+
+    upsertInfections: async (rows: InfectionRecord[]) => {
+      for (const row of rows) {
+        this.infectionRows.set(`${row.population_id}:${row.disease_id}`, copy(row));
+      }
+    },
+
+    removeInfections: async (rows: Pick<InfectionRecord, 'population_id' | 'disease_id'>[]) => {
+      for (const row of rows) {
+        this.infectionRows.delete(`${row.population_id}:${row.disease_id}`);
+      }
+    }
+  };
+
+  players = {
+    adjustReputation: async (playerId: string, delta: { benevolence: number; mischief: number; curiosity: number }) => {
+      const current = this.reputations.get(playerId) || { benevolence: 0, mischief: 0, curiosity: 0 };
+      this.reputations.set(playerId, {
+        benevolence: current.benevolence + delta.benevolence,
+        mischief: current.mischief + delta.mischief,
+        curiosity: current.curiosity + delta.curiosity
+      });
+    }
+  };
+
+  // Queues an experiment the way the REST route would, for scripted scenarios
+  submitExperiment(experiment: Omit<ExperimentRecord, 'id' | 'status'>): string {
+    const id = uuidv4();
+    this.experimentRows.set(id, { ...copy(experiment), id, status: 'pending', created: this.sequence++ });
+    return id;
+  }
+}
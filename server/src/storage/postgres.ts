@@ -0,0 +1,811 @@
+import { Pool, PoolClient } from 'pg';
+import { db } from '../db/connection.js';
+import {
+  Storage,
+  WorldRecord,
+  WorldClimate,
+  CellRecord,
+  PopulationRecord,
+  CivilizationRecord,
+  EventRecord,
+  ExperimentRecord,
+  SnapshotRecord,
+  SpeciesRecord,
+  CellSpeciesRecord,
+  RelationRecord,
+  TradeRouteRecord,
+  DiseaseRecord,
+  InfectionRecord,
+  NewWorld,
+  ResetVoteTally,
+  LIVE_WORLD_STATUSES
+} from './types.js';
+import { WorldDelta } from '../simulation/delta.js';
+import { PostMortem } from '../simulation/endstates.js';
+
+// Postgres hands BIGINT and DECIMAL columns back as strings
+function toWorld(row: any): WorldRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    seed: row.seed,
+    current_tick: Number(row.current_tick),
+    current_year: row.current_year,
+    status: row.status,
+    status_year: row.status_year ?? 0,
+    rng_state: row.rng_state !== null ? Number(row.rng_state) : null,
+    tick_interval_ms: row.tick_interval_ms,
+    base_temperature: row.base_temperature !== null ? Number(row.base_temperature) : null,
+    temperature_anomaly: Number(row.temperature_anomaly ?? 0),
+    sea_level: Number(row.sea_level ?? 0),
+    post_mortem: row.post_mortem ?? null
+  };
+}
+
+function toCell(row: any): CellRecord {
+  return {
+    id: row.id,
+    x: row.x,
+    y: row.y,
+    lat: Number(row.lat),
+    lon: Number(row.lon),
+    biome: row.biome,
+    // Rows written before land use existed are as the climate made them
+    natural_biome: row.natural_biome ?? row.biome,
+    land_use: row.land_use ?? 'wild',
+    elevation: row.elevation ?? 0,
+    temperature: row.temperature,
+    moisture: row.moisture,
+    food_capacity: row.food_capacity,
+    water_capacity: row.water_capacity,
+    mineral_capacity: row.mineral_capacity,
+    energy_capacity: row.energy_capacity,
+    // Rows written before stocks existed start out full
+    food_stock: row.food_stock !== null ? Number(row.food_stock) : row.food_capacity,
+    water_stock: row.water_stock !== null ? Number(row.water_stock) : row.water_capacity,
+    mineral_stock: row.mineral_stock !== null ? Number(row.mineral_stock) : row.mineral_capacity,
+    energy_stock: row.energy_stock !== null ? Number(row.energy_stock) : row.energy_capacity,
+    infrastructure: Number(row.infrastructure ?? 0)
+  };
+}
+
+function toPopulation(row: any): PopulationRecord {
+  return {
+    id: row.id,
+    cell_id: row.cell_id,
+    civilization_id: row.civilization_id,
+    population_size: Number(row.population_size),
+    tech_level: Number(row.tech_level),
+    stability: Number(row.stability),
+    prosperity: Number(row.prosperity),
+    education: Number(row.education),
+    birth_rate: Number(row.birth_rate),
+    death_rate: Number(row.death_rate),
+    ideology_collectivism: Number(row.ideology_collectivism),
+    ideology_tradition: Number(row.ideology_tradition),
+    ideology_authoritarianism: Number(row.ideology_authoritarianism),
+    ideology_xenophobia: Number(row.ideology_xenophobia),
+    war_tendency: Number(row.war_tendency),
+    resource_efficiency: Number(row.resource_efficiency),
+    environmental_impact: Number(row.environmental_impact)
+  };
+}
+
+function toEvent(row: any): EventRecord {
+  return {
+    id: row.id,
+    type: row.type,
+    scope: row.scope,
+    target_cell_id: row.target_cell_id,
+    target_civ_id: row.target_civ_id,
+    data: row.data || {},
+    start_tick: Number(row.start_tick),
+    end_tick: row.end_tick !== null ? Number(row.end_tick) : null,
+    is_active: row.is_active
+  };
+}
+
+function toDisease(row: any): DiseaseRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    transmissibility: Number(row.transmissibility),
+    lethality: Number(row.lethality),
+    duration: row.duration,
+    immunity: row.immunity,
+    origin_cell_id: row.origin_cell_id,
+    introduced_by: row.introduced_by,
+    emerged_year: row.emerged_year,
+    status: row.status,
+    end_year: row.end_year,
+    cases: Number(row.cases),
+    deaths: Number(row.deaths)
+  };
+}
+
+function toSnapshot(row: any): SnapshotRecord {
+  return {
+    tick: Number(row.tick),
+    year: row.year,
+    total_population: Number(row.total_population),
+    num_civilizations: row.num_civilizations,
+    avg_tech_level: Number(row.avg_tech_level)
+  };
+}
+
+export class PostgresStorage implements Storage {
+  // Either the shared pool, or a single client with an open transaction
+  constructor(private pool: Pool | PoolClient, private inTransaction = false) {}
+
+  async transaction<T>(work: (tx: Storage) => Promise<T>): Promise<T> {
+    if (this.inTransaction) return work(this);
+
+    const client = await (this.pool as Pool).connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(new PostgresStorage(client, true));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  worlds = {
+    listRunning: async (): Promise<WorldRecord[]> => {
+      const result = await this.pool.query(
+        'SELECT * FROM worlds WHERE status = ANY($1) ORDER BY created_at, id',
+        [LIVE_WORLD_STATUSES]
+      );
+      return result.rows.map(toWorld);
+    },
+
+    findById: async (id: string): Promise<WorldRecord | null> => {
+      const result = await this.pool.query('SELECT * FROM worlds WHERE id = $1', [id]);
+      return result.rows[0] ? toWorld(result.rows[0]) : null;
+    },
+
+    create: async (world: NewWorld): Promise<WorldRecord> => {
+      const result = await this.pool.query(
+        'INSERT INTO worlds (name, seed, tick_interval_ms) VALUES ($1, $2, $3) RETURNING *',
+        [world.name, world.seed, world.tick_interval_ms ?? null]
+      );
+      return toWorld(result.rows[0]);
+    },
+
+    saveProgress: async (id: string, fromTick: number, tick: number, year: number, rngState: number | null): Promise<boolean> => {
+      const result = await this.pool.query(
+        'UPDATE worlds SET current_tick = $1, current_year = $2, rng_state = $3 WHERE id = $4 AND current_tick = $5',
+        [tick, year, rngState, id, fromTick]
+      );
+      return result.rowCount === 1;
+    },
+
+    saveClimate: async (id: string, climate: WorldClimate) => {
+      await this.pool.query(
+        'UPDATE worlds SET base_temperature = $1, temperature_anomaly = $2, sea_level = $3 WHERE id = $4',
+        [climate.base_temperature, climate.temperature_anomaly, climate.sea_level, id]
+      );
+    },
+
+    saveStatus: async (id: string, status: string, year: number) => {
+      await this.pool.query('UPDATE worlds SET status = $1, status_year = $2 WHERE id = $3', [status, year, id]);
+    },
+
+    savePostMortem: async (id: string, postMortem: PostMortem) => {
+      await this.pool.query('UPDATE worlds SET post_mortem = $1 WHERE id = $2', [JSON.stringify(postMortem), id]);
+    },
+
+    castResetVote: async (id: string, playerId: string, inFavor: boolean) => {
+      await this.pool.query(`
+        INSERT INTO reset_votes (world_id, player_id, in_favor)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (world_id, player_id) DO UPDATE SET in_favor = EXCLUDED.in_favor, created_at = NOW()
+      `, [id, playerId, inFavor]);
+    },
+
+    tallyResetVotes: async (id: string): Promise<ResetVoteTally> => {
+      const result = await this.pool.query(`
+        SELECT COUNT(*) FILTER (WHERE in_favor) AS in_favor, COUNT(*) FILTER (WHERE NOT in_favor) AS against
+        FROM reset_votes
+        WHERE world_id = $1
+      `, [id]);
+      return { in_favor: Number(result.rows[0].in_favor), against: Number(result.rows[0].against) };
+    },
+
+    clearResetVotes: async (id: string) => {
+      await this.pool.query('DELETE FROM reset_votes WHERE world_id = $1', [id]);
+    },
+
+    restart: async (id: string, seed: number) => {
+      await this.pool.query(`
+        UPDATE worlds SET current_tick = 0, current_year = 0, seed = $1, rng_state = NULL,
+                          status = 'running', status_year = 0, post_mortem = NULL
+        WHERE id = $2
+      `, [seed, id]);
+      // Deltas, snapshots and votes describe the old world's ticks
+      await this.pool.query('DELETE FROM world_deltas WHERE world_id = $1', [id]);
+      await this.pool.query('DELETE FROM world_snapshots WHERE world_id = $1', [id]);
+      await this.pool.query('DELETE FROM reset_votes WHERE world_id = $1', [id]);
+      // Events point at cells and civilizations without cascading, so they go first
+      await this.pool.query('DELETE FROM events WHERE world_id = $1', [id]);
+      await this.pool.query('DELETE FROM diseases WHERE world_id = $1', [id]);
+      // Cascades to populations, their routes and infections, and the wildlife in each cell
+      await this.pool.query('DELETE FROM cells WHERE world_id = $1', [id]);
+      await this.pool.query('DELETE FROM civilizations WHERE world_id = $1', [id]);
+      await this.pool.query('DELETE FROM species WHERE world_id = $1', [id]);
+    }
+  };
+
+  cells = {
+    listByWorld: async (worldId: string): Promise<CellRecord[]> => {
+      const result = await this.pool.query(`
+        SELECT id, x, y, lat, lon, biome, natural_biome, land_use, elevation, temperature, moisture,
+               food_capacity, water_capacity, mineral_capacity, energy_capacity,
+               food_stock, water_stock, mineral_stock, energy_stock, infrastructure
+        FROM cells
+        WHERE world_id = $1
+        ORDER BY y, x
+      `, [worldId]);
+      return result.rows.map(toCell);
+    },
+
+    replaceForWorld: async (worldId: string, cells: CellRecord[]) => {
+      await this.pool.query('DELETE FROM cells WHERE world_id = $1', [worldId]);
+      await this.pool.query(`
+        INSERT INTO cells (
+          id, world_id, x, y, lat, lon, biome, food_capacity, temperature, moisture,
+          water_capacity, mineral_capacity, energy_capacity,
+          food_stock, water_stock, mineral_stock, energy_stock, infrastructure, elevation, natural_biome, land_use
+        )
+        SELECT c.id, $1, c.x, c.y, c.lat, c.lon, c.biome, c.food_capacity, c.temperature, c.moisture,
+               c.water_capacity, c.mineral_capacity, c.energy_capacity,
+               c.food_stock, c.water_stock, c.mineral_stock, c.energy_stock, c.infrastructure, c.elevation, c.natural_biome, c.land_use
+        FROM unnest(
+          $2::uuid[], $3::int[], $4::int[], $5::decimal[], $6::decimal[], $7::varchar[], $8::int[], $9::int[], $10::int[],
+          $11::int[], $12::int[], $13::int[], $14::decimal[], $15::decimal[], $16::decimal[], $17::decimal[], $18::decimal[],
+          $19::int[], $20::varchar[], $21::varchar[]
+        ) AS c(
+          id, x, y, lat, lon, biome, food_capacity, temperature, moisture,
+          water_capacity, mineral_capacity, energy_capacity,
+          food_stock, water_stock, mineral_stock, energy_stock, infrastructure, elevation, natural_biome, land_use
+        )
+      `, [
+        worldId,
+        cells.map(c => c.id),
+        cells.map(c => c.x),
+        cells.map(c => c.y),
+        cells.map(c => c.lat),
+        cells.map(c => c.lon),
+        cells.map(c => c.biome),
+        cells.map(c => c.food_capacity),
+        cells.map(c => c.temperature),
+        cells.map(c => c.moisture),
+        cells.map(c => c.water_capacity),
+        cells.map(c => c.mineral_capacity),
+        cells.map(c => c.energy_capacity),
+        cells.map(c => c.food_stock),
+        cells.map(c => c.water_stock),
+        cells.map(c => c.mineral_stock),
+        cells.map(c => c.energy_stock),
+        cells.map(c => c.infrastructure),
+        cells.map(c => c.elevation),
+        cells.map(c => c.natural_biome),
+        cells.map(c => c.land_use)
+      ]);
+    },
+
+    updateResources: async (cells: CellRecord[]) => {
+      if (cells.length === 0) return;
+      await this.pool.query(`
+        UPDATE cells SET
+          food_stock = r.food_stock,
+          water_stock = r.water_stock,
+          mineral_stock = r.mineral_stock,
+          energy_stock = r.energy_stock,
+          infrastructure = r.infrastructure
+        FROM unnest($1::uuid[], $2::decimal[], $3::decimal[], $4::decimal[], $5::decimal[], $6::decimal[])
+          AS r(id, food_stock, water_stock, mineral_stock, energy_stock, infrastructure)
+        WHERE cells.id = r.id
+      `, [
+        cells.map(c => c.id),
+        cells.map(c => Math.round(c.food_stock * 100) / 100),
+        cells.map(c => Math.round(c.water_stock * 100) / 100),
+        cells.map(c => Math.round(c.mineral_stock * 100) / 100),
+        cells.map(c => Math.round(c.energy_stock * 100) / 100),
+        cells.map(c => Math.round(c.infrastructure * 100) / 100)
+      ]);
+    },
+
+    updateTerrain: async (cells: CellRecord[]) => {
+      if (cells.length === 0) return;
+      await this.pool.query(`
+        UPDATE cells SET
+          biome = r.biome,
+          natural_biome = r.natural_biome,
+          land_use = r.land_use,
+          temperature = r.temperature,
+          moisture = r.moisture,
+          food_capacity = r.food_capacity,
+          water_capacity = r.water_capacity,
+          mineral_capacity = r.mineral_capacity,
+          energy_capacity = r.energy_capacity
+        FROM unnest($1::uuid[], $2::varchar[], $3::varchar[], $4::varchar[], $5::int[], $6::int[], $7::int[], $8::int[], $9::int[], $10::int[])
+          AS r(id, biome, natural_biome, land_use, temperature, moisture, food_capacity, water_capacity, mineral_capacity, energy_capacity)
+        WHERE cells.id = r.id
+      `, [
+        cells.map(c => c.id),
+        cells.map(c => c.biome),
+        cells.map(c => c.natural_biome),
+        cells.map(c => c.land_use),
+        cells.map(c => c.temperature),
+        cells.map(c => c.moisture),
+        cells.map(c => c.food_capacity),
+        cells.map(c => c.water_capacity),
+        cells.map(c => c.mineral_capacity),
+        cells.map(c => c.energy_capacity)
+      ]);
+    }
+  };
+
+  populations = {
+    listByWorld: async (worldId: string): Promise<PopulationRecord[]> => {
+      const result = await this.pool.query(`
+        SELECT p.*
+        FROM populations p
+        JOIN cells c ON p.cell_id = c.id
+        WHERE c.world_id = $1 AND p.population_size > 0
+        ORDER BY c.y, c.x, p.id
+      `, [worldId]);
+      return result.rows.map(toPopulation);
+    },
+
+    highestTechLevel: async (worldId: string): Promise<number> => {
+      const result = await this.pool.query(`
+        SELECT COALESCE(MAX(p.tech_level), 0) AS tech_level
+        FROM populations p
+        JOIN cells c ON p.cell_id = c.id
+        WHERE c.world_id = $1
+      `, [worldId]);
+      return Number(result.rows[0].tech_level);
+    },
+
+    // One multi-row upsert for the whole batch
+    upsertMany: async (pops: PopulationRecord[]) => {
+      if (pops.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO populations (
+          id, cell_id, civilization_id, population_size, tech_level, stability, prosperity, education,
+          birth_rate, death_rate, ideology_collectivism, ideology_tradition, ideology_authoritarianism,
+          ideology_xenophobia, war_tendency, resource_efficiency, environmental_impact
+        )
+        SELECT * FROM unnest(
+          $1::uuid[], $2::uuid[], $3::uuid[], $4::bigint[], $5::int[], $6::int[], $7::int[], $8::int[],
+          $9::decimal[], $10::decimal[], $11::int[], $12::int[], $13::int[],
+          $14::int[], $15::int[], $16::decimal[], $17::decimal[]
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          cell_id = EXCLUDED.cell_id,
+          civilization_id = EXCLUDED.civilization_id,
+          population_size = EXCLUDED.population_size,
+          tech_level = EXCLUDED.tech_level,
+          stability = EXCLUDED.stability,
+          prosperity = EXCLUDED.prosperity,
+          education = EXCLUDED.education,
+          birth_rate = EXCLUDED.birth_rate,
+          death_rate = EXCLUDED.death_rate,
+          ideology_collectivism = EXCLUDED.ideology_collectivism,
+          ideology_tradition = EXCLUDED.ideology_tradition,
+          ideology_authoritarianism = EXCLUDED.ideology_authoritarianism,
+          ideology_xenophobia = EXCLUDED.ideology_xenophobia,
+          war_tendency = EXCLUDED.war_tendency,
+          resource_efficiency = EXCLUDED.resource_efficiency,
+          environmental_impact = EXCLUDED.environmental_impact,
+          updated_at = NOW()
+      `, [
+        pops.map(p => p.id),
+        pops.map(p => p.cell_id),
+        pops.map(p => p.civilization_id),
+        pops.map(p => Math.floor(p.population_size)),
+        pops.map(p => p.tech_level),
+        pops.map(p => Math.floor(p.stability)),
+        pops.map(p => Math.floor(p.prosperity)),
+        pops.map(p => Math.floor(p.education)),
+        pops.map(p => p.birth_rate),
+        pops.map(p => p.death_rate),
+        pops.map(p => Math.round(p.ideology_collectivism)),
+        pops.map(p => Math.round(p.ideology_tradition)),
+        pops.map(p => Math.round(p.ideology_authoritarianism)),
+        pops.map(p => Math.round(p.ideology_xenophobia)),
+        pops.map(p => Math.round(p.war_tendency)),
+        pops.map(p => p.resource_efficiency),
+        pops.map(p => p.environmental_impact)
+      ]);
+    }
+  };
+
+  civilizations = {
+    listByWorld: async (worldId: string): Promise<CivilizationRecord[]> => {
+      const result = await this.pool.query(
+        'SELECT id, name, color, capital_cell_id, founded_year, status, end_year, parent_id FROM civilizations WHERE world_id = $1 ORDER BY id',
+        [worldId]
+      );
+      return result.rows;
+    },
+
+    create: async (worldId: string, civ: CivilizationRecord) => {
+      await this.pool.query(`
+        INSERT INTO civilizations (id, world_id, name, color, capital_cell_id, founded_year, status, end_year, parent_id)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `, [civ.id, worldId, civ.name, civ.color, civ.capital_cell_id, civ.founded_year, civ.status, civ.end_year, civ.parent_id]);
+    },
+
+    upsertMany: async (worldId: string, civs: CivilizationRecord[]) => {
+      if (civs.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO civilizations (id, world_id, name, color, capital_cell_id, founded_year, status, end_year, parent_id)
+        SELECT c.id, $1, c.name, c.color, c.capital_cell_id, c.founded_year, c.status, c.end_year, c.parent_id
+        FROM unnest($2::uuid[], $3::text[], $4::text[], $5::uuid[], $6::int[], $7::text[], $8::int[], $9::uuid[])
+          AS c(id, name, color, capital_cell_id, founded_year, status, end_year, parent_id)
+        ON CONFLICT (id) DO UPDATE SET
+          name = EXCLUDED.name,
+          color = EXCLUDED.color,
+          capital_cell_id = EXCLUDED.capital_cell_id,
+          status = EXCLUDED.status,
+          end_year = EXCLUDED.end_year
+      `, [
+        worldId,
+        civs.map(c => c.id),
+        civs.map(c => c.name),
+        civs.map(c => c.color),
+        civs.map(c => c.capital_cell_id),
+        civs.map(c => c.founded_year),
+        civs.map(c => c.status),
+        civs.map(c => c.end_year),
+        civs.map(c => c.parent_id)
+      ]);
+    }
+  };
+
+  relations = {
+    listByWorld: async (worldId: string): Promise<RelationRecord[]> => {
+      const result = await this.pool.query(`
+        SELECT civ_a, civ_b, opinion, treaties, at_war, war_started_year, wars_fought
+        FROM civilization_relations
+        WHERE world_id = $1
+        ORDER BY civ_a, civ_b
+      `, [worldId]);
+      return result.rows;
+    },
+
+    upsertMany: async (worldId: string, relations: RelationRecord[]) => {
+      if (relations.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO civilization_relations (world_id, civ_a, civ_b, opinion, treaties, at_war, war_started_year, wars_fought)
+        SELECT $1, r.civ_a, r.civ_b, r.opinion, r.treaties, r.at_war, r.war_started_year, r.wars_fought
+        FROM unnest($2::uuid[], $3::uuid[], $4::int[], $5::jsonb[], $6::boolean[], $7::int[], $8::int[])
+          AS r(civ_a, civ_b, opinion, treaties, at_war, war_started_year, wars_fought)
+        ON CONFLICT (civ_a, civ_b) DO UPDATE SET
+          opinion = EXCLUDED.opinion,
+          treaties = EXCLUDED.treaties,
+          at_war = EXCLUDED.at_war,
+          war_started_year = EXCLUDED.war_started_year,
+          wars_fought = EXCLUDED.wars_fought
+      `, [
+        worldId,
+        relations.map(r => r.civ_a),
+        relations.map(r => r.civ_b),
+        relations.map(r => Math.round(r.opinion)),
+        relations.map(r => JSON.stringify(r.treaties)),
+        relations.map(r => r.at_war),
+        relations.map(r => r.war_started_year),
+        relations.map(r => r.wars_fought)
+      ]);
+    }
+  };
+
+  tradeRoutes = {
+    listByWorld: async (worldId: string): Promise<TradeRouteRecord[]> => {
+      const result = await this.pool.query(`
+        SELECT id, pop_a, pop_b, established_year, volume
+        FROM trade_routes
+        WHERE world_id = $1
+        ORDER BY id
+      `, [worldId]);
+      return result.rows;
+    },
+
+    upsertMany: async (worldId: string, routes: TradeRouteRecord[]) => {
+      if (routes.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO trade_routes (world_id, id, pop_a, pop_b, established_year, volume)
+        SELECT $1, r.id, r.pop_a, r.pop_b, r.established_year, r.volume
+        FROM unnest($2::uuid[], $3::uuid[], $4::uuid[], $5::int[], $6::int[])
+          AS r(id, pop_a, pop_b, established_year, volume)
+        ON CONFLICT (id) DO UPDATE SET volume = EXCLUDED.volume
+      `, [
+        worldId,
+        routes.map(r => r.id),
+        routes.map(r => r.pop_a),
+        routes.map(r => r.pop_b),
+        routes.map(r => r.established_year),
+        routes.map(r => Math.round(r.volume))
+      ]);
+    },
+
+    removeMany: async (ids: string[]) => {
+      if (ids.length === 0) return;
+      await this.pool.query('DELETE FROM trade_routes WHERE id = ANY($1::uuid[])', [ids]);
+    }
+  };
+
+  events = {
+    listActive: async (worldId: string): Promise<EventRecord[]> => {
+      const result = await this.pool.query(
+        'SELECT * FROM events WHERE world_id = $1 AND is_active = true ORDER BY start_tick, id',
+        [worldId]
+      );
+      return result.rows.map(toEvent);
+    },
+
+    upsertMany: async (worldId: string, events: EventRecord[]) => {
+      if (events.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO events (id, world_id, type, scope, target_cell_id, target_civ_id, data, start_tick, end_tick, is_active)
+        SELECT e.id, $1, e.type, e.scope, e.target_cell_id, e.target_civ_id, e.data, e.start_tick, e.end_tick, e.is_active
+        FROM unnest(
+          $2::uuid[], $3::varchar[], $4::varchar[], $5::uuid[], $6::uuid[], $7::jsonb[], $8::bigint[], $9::bigint[], $10::boolean[]
+        ) AS e(id, type, scope, target_cell_id, target_civ_id, data, start_tick, end_tick, is_active)
+        ON CONFLICT (id) DO UPDATE SET
+          data = EXCLUDED.data,
+          end_tick = EXCLUDED.end_tick,
+          is_active = EXCLUDED.is_active
+      `, [
+        worldId,
+        events.map(e => e.id),
+        events.map(e => e.type),
+        events.map(e => e.scope),
+        events.map(e => e.target_cell_id),
+        events.map(e => e.target_civ_id),
+        events.map(e => JSON.stringify(e.data)),
+        events.map(e => e.start_tick),
+        events.map(e => e.end_tick),
+        events.map(e => e.is_active)
+      ]);
+    }
+  };
+
+  experiments = {
+    listPending: async (worldId: string): Promise<ExperimentRecord[]> => {
+      const result = await this.pool.query(
+        "SELECT * FROM experiments WHERE status = 'pending' AND world_id = $1 ORDER BY created_at, id",
+        [worldId]
+      );
+      return result.rows;
+    },
+
+    resolve: async (id: string, status: 'resolved' | 'failed', result: any) => {
+      await this.pool.query(
+        'UPDATE experiments SET status = $1, result = $2, resolved_at = NOW() WHERE id = $3',
+        [status, JSON.stringify(result), id]
+      );
+    }
+  };
+
+  snapshots = {
+    create: async (worldId: string, snapshot: SnapshotRecord) => {
+      await this.pool.query(`
+        INSERT INTO world_snapshots (world_id, tick, year, total_population, num_civilizations, avg_tech_level)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [worldId, snapshot.tick, snapshot.year, snapshot.total_population, snapshot.num_civilizations, snapshot.avg_tech_level]);
+    },
+
+    listRecent: async (worldId: string, limit: number): Promise<SnapshotRecord[]> => {
+      const result = await this.pool.query(`
+        SELECT tick, year, total_population, num_civilizations, avg_tech_level
+        FROM world_snapshots
+        WHERE world_id = $1
+        ORDER BY tick DESC
+        LIMIT $2
+      `, [worldId, limit]);
+      return result.rows.map(toSnapshot).reverse();
+    }
+  };
+
+  deltas = {
+    append: async (worldId: string, delta: WorldDelta) => {
+      await this.pool.query(`
+        INSERT INTO world_deltas (world_id, tick, payload)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (world_id, tick) DO UPDATE SET payload = EXCLUDED.payload
+      `, [worldId, delta.tick, JSON.stringify(delta)]);
+    },
+
+    listSince: async (worldId: string, tick: number): Promise<WorldDelta[]> => {
+      const result = await this.pool.query(
+        'SELECT payload FROM world_deltas WHERE world_id = $1 AND tick > $2 ORDER BY tick',
+        [worldId, tick]
+      );
+      return result.rows.map(row => row.payload);
+    },
+
+    prune: async (worldId: string, beforeTick: number) => {
+      await this.pool.query('DELETE FROM world_deltas WHERE world_id = $1 AND tick < $2', [worldId, beforeTick]);
+    }
+  };
+
+  species = {
+    listByWorld: async (worldId: string): Promise<SpeciesRecord[]> => {
+      const result = await this.pool.query(
+        'SELECT id, name, trophic_level, reproduction_rate, lifespan, habitat_preferences FROM species WHERE world_id = $1 ORDER BY id',
+        [worldId]
+      );
+      return result.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        trophic_level: row.trophic_level,
+        reproduction_rate: Number(row.reproduction_rate),
+        lifespan: row.lifespan,
+        habitat_preferences: row.habitat_preferences ?? []
+      }));
+    },
+
+    replaceForWorld: async (worldId: string, species: SpeciesRecord[]) => {
+      await this.pool.query('DELETE FROM species WHERE world_id = $1', [worldId]);
+      if (species.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO species (id, world_id, name, trophic_level, reproduction_rate, lifespan, habitat_preferences, is_native)
+        SELECT s.id, $1, s.name, s.trophic_level, s.reproduction_rate, s.lifespan, s.habitat_preferences, true
+        FROM unnest($2::uuid[], $3::varchar[], $4::varchar[], $5::decimal[], $6::int[], $7::jsonb[])
+          AS s(id, name, trophic_level, reproduction_rate, lifespan, habitat_preferences)
+      `, [
+        worldId,
+        species.map(s => s.id),
+        species.map(s => s.name),
+        species.map(s => s.trophic_level),
+        species.map(s => s.reproduction_rate),
+        species.map(s => s.lifespan),
+        species.map(s => JSON.stringify(s.habitat_preferences))
+      ]);
+    },
+
+    listInCells: async (worldId: string): Promise<CellSpeciesRecord[]> => {
+      const result = await this.pool.query(`
+        SELECT cs.cell_id, cs.species_id, cs.population_density
+        FROM cell_species cs
+        JOIN cells c ON cs.cell_id = c.id
+        WHERE c.world_id = $1
+        ORDER BY c.y, c.x, cs.species_id
+      `, [worldId]);
+      return result.rows;
+    },
+
+    upsertInCells: async (rows: CellSpeciesRecord[]) => {
+      if (rows.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO cell_species (cell_id, species_id, population_density)
+        SELECT * FROM unnest($1::uuid[], $2::uuid[], $3::int[])
+        ON CONFLICT (cell_id, species_id) DO UPDATE SET population_density = EXCLUDED.population_density
+      `, [
+        rows.map(r => r.cell_id),
+        rows.map(r => r.species_id),
+        rows.map(r => Math.floor(r.population_density))
+      ]);
+    },
+
+    removeFromCells: async (rows: Pick<CellSpeciesRecord, 'cell_id' | 'species_id'>[]) => {
+      if (rows.length === 0) return;
+      await this.pool.query(`
+        DELETE FROM cell_species cs
+        USING unnest($1::uuid[], $2::uuid[]) AS r(cell_id, species_id)
+        WHERE cs.cell_id = r.cell_id AND cs.species_id = r.species_id
+      `, [rows.map(r => r.cell_id), rows.map(r => r.species_id)]);
+    }
+  };
+
+  diseases = {
+    listActive: async (worldId: string): Promise<DiseaseRecord[]> => {
+      const result = await this.pool.query(
+        "SELECT * FROM diseases WHERE world_id = $1 AND status = 'active' ORDER BY id",
+        [worldId]
+      );
+      return result.rows.map(toDisease);
+    },
+
+    upsertMany: async (worldId: string, diseases: DiseaseRecord[]) => {
+      if (diseases.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO diseases (
+          world_id, id, name, transmissibility, lethality, duration, immunity,
+          origin_cell_id, introduced_by, emerged_year, status, end_year, cases, deaths
+        )
+        SELECT $1, d.*
+        FROM unnest(
+          $2::uuid[], $3::varchar[], $4::decimal[], $5::decimal[], $6::int[], $7::int[],
+          $8::uuid[], $9::uuid[], $10::int[], $11::varchar[], $12::int[], $13::bigint[], $14::bigint[]
+        ) AS d(
+          id, name, transmissibility, lethality, duration, immunity,
+          origin_cell_id, introduced_by, emerged_year, status, end_year, cases, deaths
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          status = EXCLUDED.status,
+          end_year = EXCLUDED.end_year,
+          cases = EXCLUDED.cases,
+          deaths = EXCLUDED.deaths
+      `, [
+        worldId,
+        diseases.map(d => d.id),
+        diseases.map(d => d.name),
+        diseases.map(d => d.transmissibility),
+        diseases.map(d => d.lethality),
+        diseases.map(d => d.duration),
+        diseases.map(d => d.immunity),
+        diseases.map(d => d.origin_cell_id),
+        diseases.map(d => d.introduced_by),
+        diseases.map(d => d.emerged_year),
+        diseases.map(d => d.status),
+        diseases.map(d => d.end_year),
+        diseases.map(d => d.cases),
+        diseases.map(d => d.deaths)
+      ]);
+    },
+
+    listInfections: async (worldId: string): Promise<InfectionRecord[]> => {
+      const result = await this.pool.query(`
+        SELECT i.population_id, i.disease_id, i.infected, i.recovered
+        FROM population_infections i
+        JOIN diseases d ON i.disease_id = d.id
+        WHERE d.world_id = $1
+        ORDER BY i.population_id, i.disease_id
+      `, [worldId]);
+      return result.rows.map(row => ({
+        population_id: row.population_id,
+        disease_id: row.disease_id,
+        infected: Number(row.infected),
+        recovered: Number(row.recovered)
+      }));
+    },
+
+    upsertInfections: async (rows: InfectionRecord[]) => {
+      if (rows.length === 0) return;
+      await this.pool.query(`
+        INSERT INTO population_infections (population_id, disease_id, infected, recovered)
+        SELECT * FROM unnest($1::uuid[], $2::uuid[], $3::bigint[], $4::bigint[])
+        ON CONFLICT (population_id, disease_id) DO UPDATE SET
+          infected = EXCLUDED.infected,
+          recovered = EXCLUDED.recovered
+      `, [
+        rows.map(r => r.population_id),
+        rows.map(r => r.disease_id),
+        rows.map(r => r.infected),
+        rows.map(r => r.recovered)
+      ]);
+    },
+
+    removeInfections: async (rows: Pick<InfectionRecord, 'population_id' | 'disease_id'>[]) => {
+      if (rows.length === 0) return;
+      await this.pool.query(`
+        DELETE FROM population_infections i
+        USING unnest($1::uuid[], $2::uuid[]) AS r(population_id, disease_id)
+        WHERE i.population_id = r.population_id AND i.disease_id = r.disease_id
+      `, [rows.map(r => r.population_id), rows.map(r => r.disease_id)]);
+    }
+  };
+
+  players = {
+    adjustReputation: async (playerId: string, delta: { benevolence: number; mischief: number; curiosity: number }) => {
+      await this.pool.query(`
+        UPDATE players SET
+          benevolence = benevolence + $1,
+          mischief = mischief + $2,
+          curiosity = curiosity + $3
+        WHERE id = $4
+      `, [delta.benevolence, delta.mischief, delta.curiosity, playerId]);
+    }
+  };
+}
+
+export const postgresStorage = new PostgresStorage(db);
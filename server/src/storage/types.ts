@@ -0,0 +1,362 @@
+// Storage interfaces for world data.
+// The simulation engine and world generator only talk to these, so they can run
+// against Postgres (postgres.ts) or entirely in-process (memory.ts).
+
+import type { WorldDelta } from '../simulation/delta.js';
+import type { PostMortem } from '../simulation/endstates.js';
+
+export interface WorldRecord {
+  id: string;
+  name: string;
+  seed: number;
+  current_tick: number;
+  current_year: number;
+  // One of LIVE_WORLD_STATUSES, or 'finished'
+  status: string;
+  // Year the world took on its current status
+  status_year: number;
+  rng_state: number | null;
+  // Per-world tick rate; null uses the server default
+  tick_interval_ms: number | null;
+  // Average temperature (°C) the world was generated with; null for worlds generated before it was kept
+  base_temperature: number | null;
+  // How far the climate has drifted from it (°C), and how far the seas have risen (elevation points)
+  temperature_anomaly: number;
+  sea_level: number;
+  // What became of the world, once it has finished
+  post_mortem: PostMortem | null;
+}
+
+// Statuses of a world the engine keeps ticking: running as usual, running after a
+// civilization ascended, stagnant with a shake-up under way, or stagnant with a reset vote open
+export const LIVE_WORLD_STATUSES = ['running', 'ascended', 'stagnant', 'voting'];
+
+export interface ResetVoteTally {
+  in_favor: number;
+  against: number;
+}
+
+export type WorldClimate = Pick<WorldRecord, 'base_temperature' | 'temperature_anomaly' | 'sea_level'>;
+
+export interface CellRecord {
+  id: string;
+  x: number;
+  y: number;
+  lat: number;
+  lon: number;
+  biome: string;
+  // The biome the climate gives the land; biome differs where people have cleared or ruined it
+  natural_biome: string;
+  // 'wild', 'farmland', 'urban' or 'degraded'
+  land_use: string;
+  // 0-100; below 35 (plus however far the seas have risen) is ocean
+  elevation: number;
+  // °C, and 0-150 (100 = 1.0 in determineBiome terms)
+  temperature: number;
+  moisture: number;
+  // What the land yields per year when healthy (food, water) or holds untouched (minerals, energy)
+  food_capacity: number;
+  water_capacity: number;
+  mineral_capacity: number;
+  energy_capacity: number;
+  // Current stocks, depleted by populations and regrowing toward capacity
+  food_stock: number;
+  water_stock: number;
+  mineral_stock: number;
+  energy_stock: number;
+  // 0-100, built from minerals and energy, decays without upkeep
+  infrastructure: number;
+}
+
+export interface PopulationRecord {
+  id: string;
+  cell_id: string;
+  civilization_id: string;
+  population_size: number;
+  tech_level: number;
+  stability: number;
+  prosperity: number;
+  education: number;
+  birth_rate: number;
+  death_rate: number;
+  ideology_collectivism: number;
+  ideology_tradition: number;
+  ideology_authoritarianism: number;
+  ideology_xenophobia: number;
+  war_tendency: number;
+  resource_efficiency: number;
+  environmental_impact: number;
+}
+
+// Column defaults from the populations table, for rows created outside the database
+export const POPULATION_DEFAULTS: Omit<PopulationRecord, 'id' | 'cell_id' | 'civilization_id'> = {
+  population_size: 0,
+  tech_level: 0,
+  stability: 50,
+  prosperity: 50,
+  education: 0,
+  birth_rate: 0.02,
+  death_rate: 0.015,
+  ideology_collectivism: 50,
+  ideology_tradition: 50,
+  ideology_authoritarianism: 50,
+  ideology_xenophobia: 50,
+  war_tendency: 30,
+  resource_efficiency: 1,
+  environmental_impact: 1
+};
+
+export interface CivilizationRecord {
+  id: string;
+  name: string;
+  color: string;
+  capital_cell_id: string | null;
+  founded_year: number;
+  // 'active', 'extinct' or 'ascended'
+  status: string;
+  // Year the last of its people died, were absorbed or ascended
+  end_year: number | null;
+  // The civilization it broke away from
+  parent_id: string | null;
+}
+
+// Diplomatic standing between two civilizations, stored once per pair with civ_a < civ_b
+export interface RelationRecord {
+  civ_a: string;
+  civ_b: string;
+  // -100 (bitter enemies) to 100 (close friends)
+  opinion: number;
+  // Any of 'non_aggression', 'alliance', 'trade'
+  treaties: string[];
+  at_war: boolean;
+  war_started_year: number | null;
+  wars_fought: number;
+}
+
+// A trade route between two populations, in different cells
+export interface TradeRouteRecord {
+  id: string;
+  pop_a: string;
+  pop_b: string;
+  established_year: number;
+  // People fed by the food it carried last year
+  volume: number;
+}
+
+export interface EventRecord {
+  id: string;
+  type: string;
+  scope: string;
+  target_cell_id: string | null;
+  target_civ_id: string | null;
+  data: Record<string, any>;
+  start_tick: number;
+  end_tick: number | null;
+  is_active: boolean;
+}
+
+export interface SpeciesRecord {
+  id: string;
+  name: string;
+  // producer, herbivore, omnivore or predator
+  trophic_level: string;
+  reproduction_rate: number;
+  lifespan: number;
+  // Biomes the species thrives in; empty means it isn't picky
+  habitat_preferences: string[];
+}
+
+export interface CellSpeciesRecord {
+  cell_id: string;
+  species_id: string;
+  population_density: number;
+}
+
+export interface DiseaseRecord {
+  id: string;
+  name: string;
+  // Chance per tick that someone infected passes it on to a person they meet, 0-1
+  transmissibility: number;
+  // Share of cases that end in death, 0-1
+  lethality: number;
+  // Ticks a case lasts
+  duration: number;
+  // Years survivors stay immune; 0 means they can catch it again straight away
+  immunity: number;
+  origin_cell_id: string | null;
+  // Player who released it; null for diseases that emerged on their own
+  introduced_by: string | null;
+  emerged_year: number;
+  // 'active' while anyone is infected, then 'ended'
+  status: string;
+  end_year: number | null;
+  // Running totals
+  cases: number;
+  deaths: number;
+}
+
+// Infected and recovered counts of one disease in one population; everyone else is susceptible
+export interface InfectionRecord {
+  population_id: string;
+  disease_id: string;
+  infected: number;
+  // Survivors still immune
+  recovered: number;
+}
+
+export interface ExperimentRecord {
+  id: string;
+  player_id: string;
+  world_id: string;
+  type: string;
+  category: string;
+  target_type: string;
+  target_id: string | null;
+  parameters: Record<string, any>;
+  cost: number;
+  status: string;
+}
+
+export interface SnapshotRecord {
+  tick: number;
+  year: number;
+  total_population: number;
+  num_civilizations: number;
+  avg_tech_level: number;
+}
+
+// Byte-wise like Postgres' uuid ordering, not locale-aware
+export function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export interface NewWorld {
+  name: string;
+  seed: number;
+  tick_interval_ms?: number | null;
+}
+
+export interface WorldRepository {
+  // Worlds with a live status, oldest first
+  listRunning(): Promise<WorldRecord[]>;
+  findById(id: string): Promise<WorldRecord | null>;
+  create(world: NewWorld): Promise<WorldRecord>;
+  // Only moves the world on from fromTick; false if it is no longer there, because something
+  // outside the engine reset or regenerated the world in the meantime
+  saveProgress(id: string, fromTick: number, tick: number, year: number, rngState: number | null): Promise<boolean>;
+  saveClimate(id: string, climate: WorldClimate): Promise<void>;
+  saveStatus(id: string, status: string, year: number): Promise<void>;
+  savePostMortem(id: string, postMortem: PostMortem): Promise<void>;
+  // One vote per player; voting again changes it
+  castResetVote(id: string, playerId: string, inFavor: boolean): Promise<void>;
+  tallyResetVotes(id: string): Promise<ResetVoteTally>;
+  clearResetVotes(id: string): Promise<void>;
+  // Wipes the map, everyone on it and the history, and starts the world over at tick 0
+  // with a new seed; generateWorld fills it in again
+  restart(id: string, seed: number): Promise<void>;
+}
+
+export interface CellRepository {
+  // Ordered by y, x
+  listByWorld(worldId: string): Promise<CellRecord[]>;
+  replaceForWorld(worldId: string, cells: CellRecord[]): Promise<void>;
+  // Writes back stocks and infrastructure only
+  updateResources(cells: CellRecord[]): Promise<void>;
+  // Writes back temperature, moisture, biome, land use and the capacities that come with them
+  updateTerrain(cells: CellRecord[]): Promise<void>;
+}
+
+export interface PopulationRepository {
+  // Living populations only, ordered by cell (y, x) then id so iteration is reproducible
+  listByWorld(worldId: string): Promise<PopulationRecord[]>;
+  upsertMany(populations: PopulationRecord[]): Promise<void>;
+  // Highest tech level any population reached, the dead included
+  highestTechLevel(worldId: string): Promise<number>;
+}
+
+export interface CivilizationRepository {
+  listByWorld(worldId: string): Promise<CivilizationRecord[]>;
+  create(worldId: string, civ: CivilizationRecord): Promise<void>;
+  upsertMany(worldId: string, civs: CivilizationRecord[]): Promise<void>;
+}
+
+export interface RelationRepository {
+  // Ordered by civ_a, civ_b
+  listByWorld(worldId: string): Promise<RelationRecord[]>;
+  upsertMany(worldId: string, relations: RelationRecord[]): Promise<void>;
+}
+
+export interface TradeRouteRepository {
+  // Ordered by id
+  listByWorld(worldId: string): Promise<TradeRouteRecord[]>;
+  upsertMany(worldId: string, routes: TradeRouteRecord[]): Promise<void>;
+  removeMany(ids: string[]): Promise<void>;
+}
+
+export interface EventRepository {
+  listActive(worldId: string): Promise<EventRecord[]>;
+  upsertMany(worldId: string, events: EventRecord[]): Promise<void>;
+}
+
+export interface ExperimentRepository {
+  // Oldest first
+  listPending(worldId: string): Promise<ExperimentRecord[]>;
+  resolve(id: string, status: 'resolved' | 'failed', result: any): Promise<void>;
+}
+
+export interface SnapshotRepository {
+  create(worldId: string, snapshot: SnapshotRecord): Promise<void>;
+  listRecent(worldId: string, limit: number): Promise<SnapshotRecord[]>;
+}
+
+export interface DeltaRepository {
+  append(worldId: string, delta: WorldDelta): Promise<void>;
+  // Ordered by tick
+  listSince(worldId: string, tick: number): Promise<WorldDelta[]>;
+  prune(worldId: string, beforeTick: number): Promise<void>;
+}
+
+export interface SpeciesRepository {
+  // Ordered by id
+  listByWorld(worldId: string): Promise<SpeciesRecord[]>;
+  // Drops the world's species (and with them every cell's) before inserting
+  replaceForWorld(worldId: string, species: SpeciesRecord[]): Promise<void>;
+  // Ordered by cell (y, x) then species id
+  listInCells(worldId: string): Promise<CellSpeciesRecord[]>;
+  upsertInCells(rows: CellSpeciesRecord[]): Promise<void>;
+  removeFromCells(rows: Pick<CellSpeciesRecord, 'cell_id' | 'species_id'>[]): Promise<void>;
+}
+
+export interface DiseaseRepository {
+  // Ordered by id
+  listActive(worldId: string): Promise<DiseaseRecord[]>;
+  upsertMany(worldId: string, diseases: DiseaseRecord[]): Promise<void>;
+  // Ordered by population id then disease id
+  listInfections(worldId: string): Promise<InfectionRecord[]>;
+  upsertInfections(rows: InfectionRecord[]): Promise<void>;
+  removeInfections(rows: Pick<InfectionRecord, 'population_id' | 'disease_id'>[]): Promise<void>;
+}
+
+export interface PlayerRepository {
+  adjustReputation(playerId: string, delta: { benevolence: number; mischief: number; curiosity: number }): Promise<void>;
+}
+
+export interface Storage {
+  worlds: WorldRepository;
+  cells: CellRepository;
+  populations: PopulationRepository;
+  civilizations: CivilizationRepository;
+  relations: RelationRepository;
+  tradeRoutes: TradeRouteRepository;
+  events: EventRepository;
+  experiments: ExperimentRepository;
+  snapshots: SnapshotRepository;
+  deltas: DeltaRepository;
+  species: SpeciesRepository;
+  diseases: DiseaseRepository;
+  players: PlayerRepository;
+
+  // Runs work against a storage bound to one transaction: everything it writes
+  // is committed together, or nothing is if it throws. Nested calls join the outer one.
+  transaction<T>(work: (tx: Storage) => Promise<T>): Promise<T>;
+}
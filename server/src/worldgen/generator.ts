@@ -1,11 +1,15 @@
-import { db } from '../db/connection.js';
 import { debugLog } from '../utils/debugLogger.js';
+import { SeededRandom } from '../simulation/rng.js';
+import { GridType, geodesicPoints } from './topology.js';
+import { Storage, CellRecord, CellSpeciesRecord, SpeciesRecord, POPULATION_DEFAULTS } from '../storage/types.js';
+import { postgresStorage } from '../storage/postgres.js';
 
 export interface WorldGenParams {
   continents: number;        // 1-7
   waterCoverage: number;     // 0.3-0.9 (30%-90%)
   avgTemperature: number;    // -20 to 40 celsius
   biomeVariety: number;      // 0.5-1.5 (multiplier for biome diversity)
+  grid?: GridType;           // 'latlon' (default) or 'geodesic'
   seed?: number;
 }
 
@@ -38,8 +42,49 @@ function octaveNoise(x: number, y: number, octaves: number, seed: number): numbe
   return value / maxValue;
 }
 
-// Determine biome based on elevation, temperature, and moisture
-function determineBiome(
+export type ResourceCapacities = Pick<CellRecord, 'food_capacity' | 'water_capacity' | 'mineral_capacity' | 'energy_capacity'>;
+
+// Yearly food and fresh water yield, and mineral and energy (wood, coal, oil) deposits per biome
+const BIOME_RESOURCES: Record<string, ResourceCapacities> = {
+  ocean:     { food_capacity: 50,  water_capacity: 10,  mineral_capacity: 10,  energy_capacity: 20 },
+  desert:    { food_capacity: 30,  water_capacity: 20,  mineral_capacity: 80,  energy_capacity: 60 },
+  arctic:    { food_capacity: 20,  water_capacity: 60,  mineral_capacity: 60,  energy_capacity: 30 },
+  tundra:    { food_capacity: 40,  water_capacity: 80,  mineral_capacity: 60,  energy_capacity: 50 },
+  mountain:  { food_capacity: 35,  water_capacity: 100, mineral_capacity: 200, energy_capacity: 80 },
+  alpine:    { food_capacity: 30,  water_capacity: 80,  mineral_capacity: 150, energy_capacity: 40 },
+  wetland:   { food_capacity: 90,  water_capacity: 150, mineral_capacity: 30,  energy_capacity: 60 },
+  jungle:    { food_capacity: 100, water_capacity: 150, mineral_capacity: 40,  energy_capacity: 130 },
+  forest:    { food_capacity: 80,  water_capacity: 120, mineral_capacity: 50,  energy_capacity: 120 },
+  grassland: { food_capacity: 70,  water_capacity: 100, mineral_capacity: 50,  energy_capacity: 40 }
+};
+
+export function biomeResources(biome: string): ResourceCapacities {
+  return BIOME_RESOURCES[biome] ?? { food_capacity: 50, water_capacity: 100, mineral_capacity: 50, energy_capacity: 50 };
+}
+
+// Native wildlife, with the biomes each one lives in and the density it starts at
+const NATIVE_SPECIES: (Omit<SpeciesRecord, 'id'> & { density: [number, number] })[] = [
+  { name: 'Grass', trophic_level: 'producer', reproduction_rate: 0.3, lifespan: 1, density: [300, 800],
+    habitat_preferences: ['grassland', 'tundra', 'desert', 'alpine', 'wetland'] },
+  { name: 'Trees', trophic_level: 'producer', reproduction_rate: 0.05, lifespan: 100, density: [400, 900],
+    habitat_preferences: ['forest', 'jungle', 'wetland', 'mountain'] },
+  { name: 'Plankton', trophic_level: 'producer', reproduction_rate: 0.6, lifespan: 1, density: [400, 900],
+    habitat_preferences: ['ocean'] },
+  { name: 'Rabbits', trophic_level: 'herbivore', reproduction_rate: 0.4, lifespan: 5, density: [50, 200],
+    habitat_preferences: ['grassland', 'forest', 'tundra', 'desert'] },
+  { name: 'Deer', trophic_level: 'herbivore', reproduction_rate: 0.15, lifespan: 15, density: [50, 150],
+    habitat_preferences: ['forest', 'grassland', 'jungle', 'alpine'] },
+  { name: 'Fish', trophic_level: 'omnivore', reproduction_rate: 0.5, lifespan: 3, density: [100, 400],
+    habitat_preferences: ['ocean'] },
+  { name: 'Wolves', trophic_level: 'predator', reproduction_rate: 0.1, lifespan: 12, density: [10, 40],
+    habitat_preferences: ['forest', 'tundra', 'grassland', 'mountain', 'alpine', 'arctic'] },
+  { name: 'Eagles', trophic_level: 'predator', reproduction_rate: 0.08, lifespan: 20, density: [5, 20],
+    habitat_preferences: ['mountain', 'alpine', 'forest', 'grassland'] }
+];
+
+// Determine biome based on elevation, temperature, and moisture.
+// Also used by the climate model to reclassify cells as the world warms, cools and floods.
+export function determineBiome(
   elevation: number,
   latitude: number,
   moisture: number,
@@ -82,89 +127,91 @@ function determineBiome(
   }
 }
 
-export async function generateWorld(params: WorldGenParams, worldId: string) {
+export async function generateWorld(params: WorldGenParams, worldId: string, storage: Storage = postgresStorage) {
   const seed = params.seed || Math.floor(Math.random() * 1000000);
+  // Everything random below comes from the seed so the same params always give the same world
+  const rng = new SeededRandom(seed);
   
   debugLog(`🌍 Generating world with params: ${JSON.stringify(params)}`, 'info');
   
   // Generate grid of cells (72x36 = 2592 cells, 5° resolution)
-  const cells = [];
+  const cells: CellRecord[] = [];
   const cellSize = 5; // degrees
-  
-  for (let lat = -90 + cellSize / 2; lat < 90; lat += cellSize) {
-    for (let lon = -180 + cellSize / 2; lon < 180; lon += cellSize) {
-      const x = (lon + 180) / 360;
-      const y = (lat + 90) / 180;
-      
-      // Generate elevation (continents)
-      let elevation = 0;
-      
-      // Add continent centers
-      for (let i = 0; i < params.continents; i++) {
-        const cx = noise2D(i * 100, seed, 0);
-        const cy = noise2D(i * 100, seed, 1);
-        const dist = Math.sqrt(Math.pow(x - cx, 2) + Math.pow(y - cy, 2));
-        elevation += Math.max(0, 0.6 - dist * 2);
+  const coords: { lat: number; lon: number; gridX: number; gridY: number }[] = [];
+
+  if (params.grid === 'geodesic') {
+    // Same cell count as the lat/lon grid, but evenly sized; x is the lattice index
+    geodesicPoints(72 * 36).forEach((p, i) => coords.push({ ...p, gridX: i, gridY: 0 }));
+  } else {
+    for (let lat = -90 + cellSize / 2; lat < 90; lat += cellSize) {
+      for (let lon = -180 + cellSize / 2; lon < 180; lon += cellSize) {
+        coords.push({ lat, lon, gridX: Math.round(lon / cellSize), gridY: Math.round(lat / cellSize) });
       }
-      
-      // Add noise for natural variation
-      elevation += octaveNoise(x * 4, y * 4, 4, seed) * 0.4;
-      
-      // Adjust for water coverage
-      elevation = (elevation - (1 - params.waterCoverage)) / params.waterCoverage;
-      elevation = Math.max(0, Math.min(1, elevation));
-      
-      // Generate moisture
-      const moisture = octaveNoise(x * 3, y * 3, 3, seed + 1000) * params.biomeVariety;
-      
-      // Determine biome
-      const biome = determineBiome(elevation, lat, moisture, params.avgTemperature);
-      
-      // Calculate cell properties
-      const temperature = Math.round(params.avgTemperature - Math.abs(lat) * 0.6 + (Math.random() - 0.5) * 10);
-      const foodCapacity = biome === 'ocean' ? 50 : 
-                          biome === 'desert' ? 30 :
-                          biome === 'arctic' ? 20 :
-                          biome === 'tundra' ? 40 :
-                          biome === 'mountain' ? 35 :
-                          biome === 'alpine' ? 30 :
-                          biome === 'wetland' ? 90 :
-                          biome === 'jungle' ? 100 :
-                          biome === 'forest' ? 80 :
-                          biome === 'grassland' ? 70 : 50;
-      
-      cells.push({
-        x: Math.round(lon / cellSize),
-        y: Math.round(lat / cellSize),
-        lat: Math.round(lat * 100) / 100,  // Round to 2 decimals
-        lon: Math.round(lon * 100) / 100,  // Round to 2 decimals
-        biome,
-        temperature,
-        food_capacity: foodCapacity
-      });
     }
   }
+
+  for (const { lat, lon, gridX, gridY } of coords) {
+    const x = (lon + 180) / 360;
+    const y = (lat + 90) / 180;
+    
+    // Generate elevation (continents)
+    let elevation = 0;
+    
+    // Add continent centers
+    for (let i = 0; i < params.continents; i++) {
+      const cx = noise2D(i * 100, seed, 0);
+      const cy = noise2D(i * 100, seed, 1);
+      const dist = Math.sqrt(Math.pow(x - cx, 2) + Math.pow(y - cy, 2));
+      elevation += Math.max(0, 0.6 - dist * 2);
+    }
+    
+    // Add noise for natural variation
+    elevation += octaveNoise(x * 4, y * 4, 4, seed) * 0.4;
+    
+    // Adjust for water coverage
+    elevation = (elevation - (1 - params.waterCoverage)) / params.waterCoverage;
+    elevation = Math.max(0, Math.min(1, elevation));
+    
+    // Generate moisture
+    const moisture = octaveNoise(x * 3, y * 3, 3, seed + 1000) * params.biomeVariety;
+    
+    // Determine biome, from the whole points stored so the climate model agrees with it later
+    const elevationPoints = Math.round(elevation * 100);
+    const moisturePoints = Math.round(moisture * 100);
+    const biome = determineBiome(elevationPoints / 100, lat, moisturePoints / 100, params.avgTemperature);
+    
+    // Calculate cell properties
+    const temperature = Math.round(params.avgTemperature - Math.abs(lat) * 0.6 + (rng.next() - 0.5) * 10);
+    const resources = biomeResources(biome);
+    
+    cells.push({
+      id: rng.uuid(),
+      x: gridX,
+      y: gridY,
+      lat: Math.round(lat * 100) / 100,  // Round to 2 decimals
+      lon: Math.round(lon * 100) / 100,  // Round to 2 decimals
+      biome,
+      natural_biome: biome,
+      land_use: 'wild',
+      elevation: elevationPoints,
+      temperature,
+      moisture: moisturePoints,
+      ...resources,
+      // Untouched land starts full
+      food_stock: resources.food_capacity,
+      water_stock: resources.water_capacity,
+      mineral_stock: resources.mineral_capacity,
+      energy_stock: resources.energy_capacity,
+      infrastructure: 0
+    });
+  }
   
   debugLog(`📊 Generated ${cells.length} cells`, 'success');
   
   // Insert cells into database
-  await db.query('DELETE FROM cells WHERE world_id = $1', [worldId]);
-  
-  for (const cell of cells) {
-    await db.query(`
-      INSERT INTO cells (world_id, x, y, lat, lon, biome, temperature, food_capacity)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-    `, [
-      worldId,
-      cell.x,
-      cell.y,
-      cell.lat,
-      cell.lon,
-      cell.biome,
-      cell.temperature,
-      cell.food_capacity
-    ]);
-  }
+  await storage.cells.replaceForWorld(worldId, cells);
+  // The climate starts out as generated
+  await storage.worlds.saveClimate(worldId, { base_temperature: params.avgTemperature, temperature_anomaly: 0, sea_level: 0 });
   
   debugLog(`✅ World generation complete`, 'success');
   
@@ -172,62 +219,90 @@ export async function generateWorld(params: WorldGenParams, worldId: string) {
   debugLog(`🌱 Seeding initial civilizations...`, 'info');
   
   // Find suitable starting cells (grassland, forest, or jungle with good temperature)
-  const suitableCells = await db.query(`
-    SELECT id, biome, temperature 
-    FROM cells 
-    WHERE world_id = $1 
-      AND biome IN ('grassland', 'forest', 'jungle')
-      AND temperature BETWEEN 10 AND 30
-      AND food_capacity > 60
-    ORDER BY RANDOM()
-    LIMIT 5
-  `, [worldId]);
+  const candidates = cells.filter(c =>
+    ['grassland', 'forest', 'jungle'].includes(c.biome) &&
+    c.temperature >= 10 && c.temperature <= 30 &&
+    c.food_capacity > 60
+  );
+  // Fisher-Yates shuffle
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+  }
+  const suitableCells = candidates.slice(0, 5);
   
   const civColors = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#f9ca24', '#6c5ce7'];
   const civNames = ['Terrans', 'Aquarians', 'Sylvans', 'Nomads', 'Highlanders'];
+  const populations = [];
   
-  for (let i = 0; i < suitableCells.rows.length; i++) {
-    const cell = suitableCells.rows[i];
+  for (let i = 0; i < suitableCells.length; i++) {
+    const cell = suitableCells[i];
     
     // Create civilization
-    const civResult = await db.query(`
-      INSERT INTO civilizations (world_id, name, color)
-      VALUES ($1, $2, $3)
-      RETURNING id
-    `, [worldId, civNames[i], civColors[i]]);
+    const civId = rng.uuid();
+    await storage.civilizations.create(worldId, {
+      id: civId,
+      name: civNames[i],
+      color: civColors[i],
+      capital_cell_id: cell.id,
+      founded_year: 0,
+      status: 'active',
+      end_year: null,
+      parent_id: null
+    });
     
-    const civId = civResult.rows[0].id;
-    const popSize = 100 + Math.floor(Math.random() * 200);
+    const popSize = 100 + rng.int(200);
     
     // Create initial population with all required fields
-    await db.query(`
-      INSERT INTO populations (
-        cell_id, civilization_id, population_size, 
-        tech_level, prosperity, stability,
-        birth_rate, death_rate, education, ideology_collectivism
-      )
-      VALUES ($1, $2, $3, 0, 50, 50, 0.02, 0.01, 10, 50)
-    `, [cell.id, civId, popSize]);
+    populations.push({
+      ...POPULATION_DEFAULTS,
+      id: rng.uuid(),
+      cell_id: cell.id,
+      civilization_id: civId,
+      population_size: popSize,
+      tech_level: 0,
+      prosperity: 50,
+      stability: 50,
+      birth_rate: 0.02,
+      death_rate: 0.01,
+      education: 10,
+      ideology_collectivism: 50
+    });
     
     debugLog(`  ✓ ${civNames[i]} (${popSize} people) at cell ${cell.id} (${cell.biome}, ${cell.temperature}°C)`, 'success');
   }
   
-  debugLog(`✅ Seeded ${suitableCells.rows.length} civilizations`, 'success');
+  await storage.populations.upsertMany(populations);
   
+  debugLog(`✅ Seeded ${suitableCells.length} civilizations`, 'success');
+  
+  // Native wildlife: most cells get most of the species that suit them
+  debugLog(`🐾 Seeding native species...`, 'info');
+  const species = NATIVE_SPECIES.map(({ density, ...template }) => ({ ...template, id: rng.uuid() }));
+  const cellSpecies: CellSpeciesRecord[] = [];
+  for (const cell of cells) {
+    NATIVE_SPECIES.forEach((template, i) => {
+      if (!template.habitat_preferences.includes(cell.biome) || rng.next() > 0.7) return;
+      const [min, max] = template.density;
+      cellSpecies.push({ cell_id: cell.id, species_id: species[i].id, population_density: min + rng.int(max - min) });
+    });
+  }
+  await storage.species.replaceForWorld(worldId, species);
+  await storage.species.upsertInCells(cellSpecies);
+
+  debugLog(`✅ Seeded ${species.length} species across ${cellSpecies.length} habitats`, 'success');
+
   // Verify populations were created
-  const popCheck = await db.query(`
-    SELECT COUNT(*) as count FROM populations p
-    JOIN cells c ON p.cell_id = c.id
-    WHERE c.world_id = $1
-  `, [worldId]);
+  const populationsCreated = (await storage.populations.listByWorld(worldId)).length;
   
-  debugLog(`📊 Population verification: ${popCheck.rows[0].count} populations in database`, 'info');
+  debugLog(`📊 Population verification: ${populationsCreated} populations in database`, 'info');
   
   return {
     cellCount: cells.length,
     seed,
-    civilizationsSeeded: suitableCells.rows.length,
-    populationsCreated: parseInt(popCheck.rows[0].count),
+    civilizationsSeeded: suitableCells.length,
+    populationsCreated,
+    speciesSeeded: species.length,
     biomeDistribution: cells.reduce((acc, cell) => {
       acc[cell.biome] = (acc[cell.biome] || 0) + 1;
       return acc;
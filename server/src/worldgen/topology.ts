@@ -0,0 +1,155 @@
+// Cell adjacency and area on the sphere, shared by world generation and the simulation.
+// Works from each cell's lat/lon only, so it covers the generated 5° grid, the seed
+// script's 64x32 grid and the geodesic grid alike.
+
+export interface TopologyCell {
+  id: string;
+  lat: number;
+  lon: number;
+}
+
+export type GridType = 'latlon' | 'geodesic';
+
+const DEG = Math.PI / 180;
+// Neighbors per cell on the geodesic grid (hexagon-like cells)
+const GEODESIC_NEIGHBORS = 6;
+
+export class Topology {
+  constructor(
+    private neighborIds: Map<string, string[]>,
+    private areas: Map<string, number>
+  ) {}
+
+  neighbors(cellId: string): string[] {
+    return this.neighborIds.get(cellId) || [];
+  }
+
+  // Cell area relative to the largest cell (0-1]; polar cells on a lat/lon grid are tiny
+  area(cellId: string): number {
+    return this.areas.get(cellId) ?? 1;
+  }
+}
+
+// Smallest angle between two longitudes, in degrees
+function lonDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+// Near-uniform points on the sphere (Fibonacci lattice), used as geodesic cell centers
+export function geodesicPoints(count: number): { lat: number; lon: number }[] {
+  const goldenAngle = 180 * (3 - Math.sqrt(5));
+  const points = [];
+
+  for (let i = 0; i < count; i++) {
+    const lat = Math.asin(1 - (2 * (i + 0.5)) / count) / DEG;
+    const lon = ((i * goldenAngle) % 360) - 180;
+    points.push({ lat: Math.round(lat * 100) / 100, lon: Math.round(lon * 100) / 100 });
+  }
+
+  return points;
+}
+
+export function buildTopology(cells: TopologyCell[]): Topology {
+  const rows = new Map<number, TopologyCell[]>();
+  for (const cell of cells) {
+    const row = rows.get(cell.lat) || [];
+    row.push(cell);
+    rows.set(cell.lat, row);
+  }
+
+  return gridTypeOf(cells) === 'latlon' ? latLonTopology(rows) : geodesicTopology(cells);
+}
+
+// Every latitude on a lat/lon grid holds a whole ring of cells; geodesic centers never share one
+export function gridTypeOf(cells: TopologyCell[]): GridType {
+  const perLat = new Map<number, number>();
+  for (const cell of cells) perLat.set(cell.lat, (perLat.get(cell.lat) ?? 0) + 1);
+  return [...perLat.values()].every(count => count > 1) ? 'latlon' : 'geodesic';
+}
+
+function latLonTopology(rowsByLat: Map<number, TopologyCell[]>): Topology {
+  const lats = [...rowsByLat.keys()].sort((a, b) => a - b);
+  const rows = lats.map(lat => rowsByLat.get(lat)!.slice().sort((a, b) => a.lon - b.lon));
+  const neighborIds = new Map<string, string[]>();
+  const rawAreas = new Map<string, number>();
+
+  // Longitudinal half-width of the cells in a row
+  const halfWidth = (row: TopologyCell[]) => 180 / row.length;
+
+  rows.forEach((row, i) => {
+    // Band edges halfway to the neighboring rows, the outermost bands end at the poles
+    const south = i === 0 ? -90 : (lats[i - 1] + lats[i]) / 2;
+    const north = i === rows.length - 1 ? 90 : (lats[i] + lats[i + 1]) / 2;
+    const area = (Math.sin(north * DEG) - Math.sin(south * DEG)) / row.length;
+
+    row.forEach((cell, j) => {
+      const ids = new Set<string>();
+
+      // East and west, wrapping around the antimeridian
+      if (row.length > 1) {
+        ids.add(row[(j + 1) % row.length].id);
+        ids.add(row[(j - 1 + row.length) % row.length].id);
+      }
+
+      // Rows above and below: every cell whose longitude span touches this one (diagonals included)
+      for (const other of [rows[i - 1], rows[i + 1]]) {
+        if (!other) continue;
+        for (const candidate of other) {
+          if (lonDistance(cell.lon, candidate.lon) <= halfWidth(row) + halfWidth(other) + 1e-6) {
+            ids.add(candidate.id);
+          }
+        }
+      }
+
+      // The first and last rows meet at the pole: link to the cells on the far side of it
+      if (i === 0 || i === rows.length - 1) {
+        for (const candidate of row) {
+          if (lonDistance(cell.lon + 180, candidate.lon) <= halfWidth(row) + 1e-6) {
+            ids.add(candidate.id);
+          }
+        }
+      }
+
+      ids.delete(cell.id);
+      neighborIds.set(cell.id, [...ids]);
+      rawAreas.set(cell.id, area);
+    });
+  });
+
+  const maxArea = Math.max(...rawAreas.values());
+  const areas = new Map([...rawAreas].map(([id, area]) => [id, area / maxArea]));
+  return new Topology(neighborIds, areas);
+}
+
+function geodesicTopology(cells: TopologyCell[]): Topology {
+  const vectors = cells.map(c => [
+    Math.cos(c.lat * DEG) * Math.cos(c.lon * DEG),
+    Math.cos(c.lat * DEG) * Math.sin(c.lon * DEG),
+    Math.sin(c.lat * DEG)
+  ]);
+  const neighborSets = new Map(cells.map(c => [c.id, new Set<string>()]));
+
+  // Nearest cells by angular distance, made symmetric so adjacency goes both ways
+  cells.forEach((cell, i) => {
+    const nearest = cells
+      .map((other, j) => ({
+        id: other.id,
+        dot: vectors[i][0] * vectors[j][0] + vectors[i][1] * vectors[j][1] + vectors[i][2] * vectors[j][2]
+      }))
+      .filter(c => c.id !== cell.id)
+      .sort((a, b) => b.dot - a.dot)
+      .slice(0, GEODESIC_NEIGHBORS);
+
+    for (const { id } of nearest) {
+      neighborSets.get(cell.id)!.add(id);
+      neighborSets.get(id)!.add(cell.id);
+    }
+  });
+
+  // Lattice points are spread evenly, so every cell covers the same area
+  return new Topology(
+    new Map([...neighborSets].map(([id, set]) => [id, [...set]])),
+    new Map(cells.map(c => [c.id, 1]))
+  );
+}